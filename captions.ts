@@ -0,0 +1,72 @@
+import type MarkdownIt from 'markdown-it';
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline';
+
+// Figure and table captions ("*Figure: ...*", "Table: ...") with optional
+// {#fig:label} / {#tbl:label} labels, and @fig:label / @tbl:label references.
+
+export type CaptionKind = 'figure' | 'table';
+
+export interface Caption {
+	text: string;
+	/** Label referred to by @fig:label or @tbl:label, including its prefix */
+	label?: string;
+}
+
+export const CAPTION_NAMES: Record<CaptionKind, string> = {
+	figure: 'Figure',
+	table: 'Table',
+};
+
+const LABEL_PATTERN = /\s*\{#((?:fig|tbl):[A-Za-z0-9_-]+)\}\s*$/;
+
+/**
+ * Splits a trailing {#fig:label} or {#tbl:label} off the text.
+ */
+export function splitCaptionLabel(text: string): Caption {
+	const match = text.match(LABEL_PATTERN);
+	return match
+		? { text: text.slice(0, match.index).trim(), label: match[1] }
+		: { text: text.trim() };
+}
+
+/**
+ * Parses a caption line of the given kind, e.g. "*Figure: The setup* {#fig:setup}"
+ * or "Table: Results". The line may be wrapped in * or _ emphasis.
+ */
+export function parseCaptionLine(line: string, kind: CaptionKind): Caption | null {
+	const outer = splitCaptionLabel(line);
+	const match = outer.text.match(/^(\*|_)?(Figure|Table):\s+(.+?)\1$/i);
+	if (!match || match[2].toLowerCase() !== kind) {
+		return null;
+	}
+	const inner = splitCaptionLabel(match[3]);
+	const label = outer.label ?? inner.label;
+	return inner.text ? { text: inner.text, label } : null;
+}
+
+/**
+ * markdown-it plugin that turns @fig:label and @tbl:label into cross_reference
+ * tokens holding the label.
+ */
+export function markdownItCrossReferences(md: MarkdownIt) {
+	md.inline.ruler.before('emphasis', 'cross_reference', (state: StateInline, silent: boolean) => {
+		const start = state.pos;
+		// Not part of a word, e.g. an e-mail address
+		if (state.src.charAt(start) !== '@' || /[A-Za-z0-9]/.test(state.src.charAt(start - 1))) {
+			return false;
+		}
+
+		const match = state.src.slice(start + 1, state.posMax).match(/^(?:fig|tbl):[A-Za-z0-9_-]*[A-Za-z0-9]/);
+		if (!match) {
+			return false;
+		}
+
+		if (!silent) {
+			const token = state.push('cross_reference', '', 0);
+			token.content = `@${match[0]}`;
+			token.meta = { label: match[0] };
+		}
+		state.pos = start + 1 + match[0].length;
+		return true;
+	});
+}
@@ -20,21 +20,75 @@ import {
 	IParagraphStyleOptions,
 	TabStopType,
 	TableLayoutType,
+	FootnoteReferenceRun,
+	ParagraphChild,
+	Math as MathEquation,
+	Bookmark,
+	InternalHyperlink,
+	TableOfContents,
+	Header,
+	Footer,
+	PageNumber,
+	Tab,
+	PageBreak,
+	PageOrientation,
+	InsertedTextRun,
+	DeletedTextRun,
+	CommentRangeStart,
+	CommentRangeEnd,
+	CommentReference,
+	ICommentOptions,
+	IRunOptions,
 } from 'docx';
-import MarkdownIt from 'markdown-it';
-import type Token from 'markdown-it/lib/token';
-import { full as markdownItEmoji } from 'markdown-it-emoji';
-import markdownItMark from 'markdown-it-mark';
 import hljs from 'highlight.js';
+import { latexToMathComponents } from './math';
+import { createField, createFieldEnd, createFieldStart } from './fields';
+import type { ListFormat } from './lists';
+import { CAPTION_NAMES } from './captions';
+import { applyReferenceDocument, loadReferenceDocument, ReferenceDocument } from './template';
+import { getPageMargins, MarginPreset, PAGE_SIZES, PageSize } from './layout';
+import { getImageDimensions, getImageType, ImageType } from './images';
+import { formatFrontmatterValue, getDocumentProperties } from './notes';
+import { Block, BlockCaption, ExportDocument, getHeadings, getInlineText, ImageData, Inline, InlineStyle, ListItemNode } from './model';
+
+// Writes an ExportDocument as a Word document. Word shows the most of the
+// model: footnotes, equations, comments and tracked changes are native, and
+// captions, cross-references and the table of contents are fields Word
+// updates on opening.
 
 interface ToWordSettings {
 	defaultFontFamily: string;
 	defaultFontSize: number;
-	includeMetadata: boolean;
-	preserveFormatting: boolean;
 	useObsidianAppearance: boolean;
-	includeFilenameAsHeader: boolean;
-	pageSize: 'A4' | 'A5' | 'A3' | 'Letter' | 'Legal' | 'Tabloid';
+	pageSize: PageSize;
+	orientation: 'portrait' | 'landscape';
+	marginPreset: MarginPreset;
+	marginTop: number;
+	marginRight: number;
+	marginBottom: number;
+	marginLeft: number;
+	footnoteStyle: 'word' | 'list';
+	embedFrame: boolean;
+	tocMinLevel: number;
+	tocMaxLevel: number;
+	tocStaticEntries: boolean;
+	referenceDocument: string;
+	headerLeft: string;
+	headerCenter: string;
+	headerRight: string;
+	footerLeft: string;
+	footerCenter: string;
+	footerRight: string;
+	differentFirstPage: boolean;
+	differentOddEven: boolean;
+	headerLogo: string;
+	trackChangesAuthor: string;
+	obsidianComments: 'drop' | 'comment' | 'hidden';
+	tableBorders: 'grid' | 'horizontal' | 'none';
+	tableBandedRows: boolean;
+	tableStyle: string;
+	figureCaptionPosition: 'above' | 'below';
+	tableCaptionPosition: 'above' | 'below';
 }
 
 interface TextStyle {
@@ -49,9 +103,13 @@ interface TextStyle {
 	subScript?: boolean;
 	backgroundColor?: string;
 	codeBlock?: boolean;
+	font?: string;
+	fontSize?: number;
+	revision?: 'insert' | 'delete';
+	hidden?: boolean;
 }
 
-interface ObsidianFontSettings {
+export interface ObsidianFontSettings {
 	textFont: string;
 	monospaceFont: string;
 	baseFontSize: number;
@@ -62,6 +120,13 @@ interface ObsidianFontSettings {
 	headingColors: string[];
 }
 
+export interface DocxOptions {
+	/** Fonts, sizes and colours of the Obsidian theme, for the Obsidian appearance */
+	obsidianFonts?: ObsidianFontSettings | null;
+	/** Reads the reference document and header logo the settings point at */
+	loadResource?: (link: string) => Promise<ArrayBuffer | null>;
+}
+
 const CODE_SYNTAX_COLOR_MAP: Record<string, string> = {
 	'hljs-keyword': '569CD6',
 	'hljs-attr': '9CDCFE',
@@ -82,20 +147,130 @@ const CODE_SYNTAX_COLOR_MAP: Record<string, string> = {
 
 const DEFAULT_HYPERLINK_COLOR = '0563C1';
 
-export class MarkdownToDocxConverter {
+// Style names tried, in order, when a reference document is used
+const CODE_BLOCK_STYLE_NAMES = ['Code', 'Source Code'];
+const INLINE_CODE_STYLE_NAMES = ['Code Char', 'Verbatim Char'];
+
+interface CalloutPalette {
+	icon: string;
+	accent: string;
+	fill: string;
+}
+
+// Colours follow Obsidian's default callout palette, lightened for print
+const CALLOUT_PALETTES: Record<string, CalloutPalette> = {
+	note: { icon: '✎', accent: '086DDD', fill: 'E6F0FC' },
+	abstract: { icon: '☰', accent: '00BFBC', fill: 'E5F8F8' },
+	info: { icon: 'ℹ', accent: '086DDD', fill: 'E6F0FC' },
+	todo: { icon: '☑', accent: '086DDD', fill: 'E6F0FC' },
+	tip: { icon: '💡', accent: '00BFBC', fill: 'E5F8F8' },
+	success: { icon: '✔', accent: '08B94E', fill: 'E6F8ED' },
+	question: { icon: '?', accent: 'EC7500', fill: 'FDF1E5' },
+	warning: { icon: '⚠', accent: 'EC7500', fill: 'FDF1E5' },
+	failure: { icon: '✘', accent: 'E93147', fill: 'FDEAEC' },
+	danger: { icon: '⚡', accent: 'E93147', fill: 'FDEAEC' },
+	bug: { icon: '🐞', accent: 'E93147', fill: 'FDEAEC' },
+	example: { icon: '☷', accent: '7852EE', fill: 'F1EDFD' },
+	quote: { icon: '❝', accent: '9E9E9E', fill: 'F2F2F2' },
+};
+
+const CALLOUT_ALIASES: Record<string, string> = {
+	summary: 'abstract',
+	tldr: 'abstract',
+	hint: 'tip',
+	important: 'tip',
+	check: 'success',
+	done: 'success',
+	help: 'question',
+	faq: 'question',
+	caution: 'warning',
+	attention: 'warning',
+	fail: 'failure',
+	missing: 'failure',
+	error: 'danger',
+	cite: 'quote',
+};
+
+const MAX_LIST_LEVEL = 8; // Word numbering has nine levels
+
+const LIST_LEVEL_FORMATS: Record<Exclude<ListFormat, 'bullet'>, (typeof LevelFormat)[keyof typeof LevelFormat]> = {
+	decimal: LevelFormat.DECIMAL,
+	lowerLetter: LevelFormat.LOWER_LETTER,
+	upperLetter: LevelFormat.UPPER_LETTER,
+	lowerRoman: LevelFormat.LOWER_ROMAN,
+	upperRoman: LevelFormat.UPPER_ROMAN,
+};
+
+class DocxWriter {
 	private settings: ToWordSettings;
-	private obsidianFonts: ObsidianFontSettings | null = null;
-	private filename: string = '';
-	private resourceLoader?: (link: string) => Promise<ArrayBuffer | null>;
-	private footnoteDefinitions: Map<string, string> = new Map();
-	private usedFootnotes: string[] = [];
-	private md: MarkdownIt;
-
-	constructor(settings: ToWordSettings) {
+	private doc: ExportDocument;
+	private obsidianFonts: ObsidianFontSettings | null;
+	private loadResource?: (link: string) => Promise<ArrayBuffer | null>;
+	private reference: ReferenceDocument | null = null;
+	private quoteDepth = 0;
+	private currentOrientation: 'portrait' | 'landscape';
+	private sectionBreaks: Map<Paragraph, 'portrait' | 'landscape'> = new Map();
+	private comments: ICommentOptions[] = [];
+	private revisionCount = 0;
+	private listNumberings: { reference: string; format: Exclude<ListFormat, 'bullet'>; delimiter: string; start: number }[] = [];
+	private tocInserted = false;
+	private captionFieldsInserted = false;
+
+	constructor(doc: ExportDocument, settings: ToWordSettings, options: DocxOptions) {
+		this.doc = doc;
 		this.settings = settings;
-		this.md = new MarkdownIt({ html: true, linkify: false, typographer: false, breaks: false });
-		this.md.use(markdownItEmoji);
-		this.md.use(markdownItMark);
+		this.obsidianFonts = options.obsidianFonts || null;
+		this.loadResource = options.loadResource;
+		this.currentOrientation = settings.orientation;
+	}
+
+	async write(): Promise<Blob> {
+		this.reference = await this.loadReference();
+		const paragraphs = this.renderBlocks(this.doc.blocks);
+
+		// Footnotes are either native Word footnotes or a list at the end of the document
+		const useListFootnotes = this.settings.footnoteStyle === 'list';
+		if (useListFootnotes && this.doc.footnotes.length > 0) {
+			this.appendFootnotes(paragraphs);
+		}
+
+		const pageSize = this.getPageSize();
+		const margin = this.getPageMargins();
+		const { headers, footers } = await this.createHeadersAndFooters();
+		const document = new Document({
+			...getDocumentProperties(this.doc.frontmatter, this.doc.properties.title),
+			externalStyles: this.reference?.styles,
+			styles: this.reference ? undefined : this.createStyles(),
+			numbering: this.createNumbering(),
+			footnotes: useListFootnotes ? undefined : this.createFootnotes(),
+			comments: this.comments.length > 0 ? { children: this.comments } : undefined,
+			// Word updates the table of contents and the caption numbers and references on opening
+			features: this.tocInserted || this.captionFieldsInserted ? { updateFields: true } : undefined,
+			evenAndOddHeaderAndFooters: this.settings.differentOddEven && (headers !== undefined || footers !== undefined),
+			// Later sections inherit the header and footer of the first
+			sections: this.splitSections(paragraphs).map((section, index) => ({
+				headers: index === 0 ? headers : undefined,
+				footers: index === 0 ? footers : undefined,
+				properties: {
+					titlePage: index === 0 && this.settings.differentFirstPage,
+					page: {
+						size: {
+							width: pageSize.width,
+							height: pageSize.height,
+							orientation: section.orientation === 'landscape' ? PageOrientation.LANDSCAPE : PageOrientation.PORTRAIT,
+						},
+						margin,
+					},
+				},
+				children: section.children,
+			})),
+		});
+
+		const blob = await Packer.toBlob(document);
+		return this.reference ? await applyReferenceDocument(blob, this.reference, {
+			bandedRows: this.settings.tableBandedRows,
+			tableStyle: this.settings.tableStyle ? this.referenceStyle(this.settings.tableStyle) : undefined,
+		}) : blob;
 	}
 
 	private createStyles(): IStylesOptions {
@@ -192,16 +367,27 @@ export class MarkdownToDocxConverter {
 
 	private getPageSize(): { width: number; height: number; orientation?: 'portrait' | 'landscape' } {
 		// All dimensions in twips (1/20th of a point, 1440 twips = 1 inch)
-		const sizes = {
-			'A4': { width: convertInchesToTwip(8.27), height: convertInchesToTwip(11.69) }, // 210 x 297 mm
-			'A5': { width: convertInchesToTwip(5.83), height: convertInchesToTwip(8.27) },  // 148 x 210 mm
-			'A3': { width: convertInchesToTwip(11.69), height: convertInchesToTwip(16.54) }, // 297 x 420 mm
-			'Letter': { width: convertInchesToTwip(8.5), height: convertInchesToTwip(11) },  // 8.5 x 11 inches
-			'Legal': { width: convertInchesToTwip(8.5), height: convertInchesToTwip(14) },   // 8.5 x 14 inches
-			'Tabloid': { width: convertInchesToTwip(11), height: convertInchesToTwip(17) },  // 11 x 17 inches
+		const size = PAGE_SIZES[this.settings.pageSize] || PAGE_SIZES.A4;
+		return { width: convertInchesToTwip(size.width), height: convertInchesToTwip(size.height), orientation: this.settings.orientation };
+	}
+
+	// Margins in twips, from Word's presets or the custom values in inches
+	private getPageMargins(): { top: number; right: number; bottom: number; left: number } {
+		const inches = getPageMargins(this.settings);
+		return {
+			top: convertInchesToTwip(inches.top),
+			right: convertInchesToTwip(inches.right),
+			bottom: convertInchesToTwip(inches.bottom),
+			left: convertInchesToTwip(inches.left),
 		};
-		
-		return sizes[this.settings.pageSize] || sizes['A4'];
+	}
+
+	// Width between the margins of the page the content is currently going onto
+	private getContentWidth(orientation = this.currentOrientation): number {
+		const pageSize = this.getPageSize();
+		const margins = this.getPageMargins();
+		const pageWidth = orientation === 'landscape' ? pageSize.height : pageSize.width;
+		return Math.max(convertInchesToTwip(1), pageWidth - margins.left - margins.right);
 	}
 
 	private getPlatformMonospaceFont(): string {
@@ -215,547 +401,428 @@ export class MarkdownToDocxConverter {
 		}
 	}
 
-	async convert(
-		markdown: string,
-		title: string,
-		obsidianFonts?: ObsidianFontSettings | null,
-		resourceLoader?: (link: string) => Promise<ArrayBuffer | null>,
-	): Promise<Blob> {
-		this.obsidianFonts = obsidianFonts || null;
-		this.filename = title;
-		this.resourceLoader = resourceLoader;
-
-		const { content: cleanedMarkdown, definitions } = this.extractFootnotes(markdown);
-		this.footnoteDefinitions = definitions;
-		this.usedFootnotes = [];
-
-		const paragraphs = await this.parseMarkdown(cleanedMarkdown);
-
-		// Add filename as header if enabled
-		if (this.settings.includeFilenameAsHeader) {
-			paragraphs.unshift(this.createHeading(title, 1));
-			paragraphs.unshift(new Paragraph({ children: [] })); // Add spacing
-		}
-
-		if (this.usedFootnotes.length > 0) {
-			this.appendFootnotes(paragraphs);
+	/**
+	 * Splits the content at <!-- landscape --> / <!-- portrait --> markers into
+	 * sections with their own orientation, dropping sections left empty.
+	 */
+	private splitSections(paragraphs: (Paragraph | Table)[]): { orientation: 'portrait' | 'landscape'; children: (Paragraph | Table)[] }[] {
+		const sections: { orientation: 'portrait' | 'landscape'; children: (Paragraph | Table)[] }[] = [
+			{ orientation: this.settings.orientation, children: [] },
+		];
+		for (const paragraph of paragraphs) {
+			const orientation = paragraph instanceof Paragraph ? this.sectionBreaks.get(paragraph) : undefined;
+			if (orientation) {
+				sections.push({ orientation, children: [] });
+			} else {
+				sections[sections.length - 1].children.push(paragraph);
+			}
 		}
 
-		const pageSize = this.getPageSize();
-		const doc = new Document({
-			styles: this.createStyles(),
-			numbering: this.createNumbering(),
-			sections: [{
-				properties: {
-					page: {
-						size: {
-							width: pageSize.width,
-							height: pageSize.height,
-						},
-						margin: {
-							top: convertInchesToTwip(1),
-							right: convertInchesToTwip(1),
-							bottom: convertInchesToTwip(1),
-							left: convertInchesToTwip(1),
-						},
-					},
-				},
-				children: paragraphs,
-			}],
-		});
-
-		this.resourceLoader = undefined;
-		return await Packer.toBlob(doc);
+		const nonEmpty = sections.filter(section => section.children.length > 0);
+		return nonEmpty.length > 0 ? nonEmpty : [sections[0]];
 	}
 
-	private async parseMarkdown(markdown: string): Promise<(Paragraph | Table)[]> {
-		const paragraphs: (Paragraph | Table)[] = [];
-		const lines = markdown.split('\n');
-		
-		let i = 0;
-		let inCodeBlock = false;
-		let codeBlockContent: string[] = [];
-		let codeBlockLanguage: string | null = null;
-		let inTable = false;
-		let tableRows: string[][] = [];
-		let tableAlignments: string[] = [];
-
-		while (i < lines.length) {
-			const line = lines[i];
-
-			// Handle code blocks
-			const fenceMatch = line.trim().match(/^(```|~~~)(.*)$/);
-			if (fenceMatch) {
-				if (inCodeBlock) {
-					// End of code block
-					paragraphs.push(...this.createCodeBlock(codeBlockContent, codeBlockLanguage || undefined));
-					codeBlockContent = [];
-					codeBlockLanguage = null;
-					inCodeBlock = false;
-				} else {
-					// Start of code block
-					inCodeBlock = true;
-					codeBlockLanguage = fenceMatch[2]?.trim() ? fenceMatch[2].trim().split(/\s+/)[0].toLowerCase() : null;
-				}
-				i++;
-				continue;
-			}
+	/**
+	 * Header and footer lines built from the left, centre and right slot templates.
+	 * The first page can be left blank, and even pages mirror the left and right slots.
+	 */
+	private async createHeadersAndFooters(): Promise<{
+		headers?: { default: Header; first?: Header; even?: Header };
+		footers?: { default: Footer; first?: Footer; even?: Footer };
+	}> {
+		const headerSlots = [this.settings.headerLeft, this.settings.headerCenter, this.settings.headerRight];
+		const footerSlots = [this.settings.footerLeft, this.settings.footerCenter, this.settings.footerRight];
+		const logo = await this.loadHeaderLogo();
+		const hasHeader = headerSlots.some(slot => slot?.trim()) || logo !== null;
+		const hasFooter = footerSlots.some(slot => slot?.trim());
+		if (!hasHeader && !hasFooter) {
+			return {};
+		}
 
-			if (inCodeBlock) {
-				codeBlockContent.push(line);
-				i++;
-				continue;
+		const { properties } = this.doc;
+		const values: Record<string, string> = {};
+		for (const [key, value] of Object.entries(this.doc.frontmatter)) {
+			values[key.toLowerCase()] = formatFrontmatterValue(value);
+		}
+		values.title = properties.title;
+		values.author = properties.author ?? '';
+		values.date = new Date().toLocaleDateString();
+
+		const createLine = (slots: string[], mirrored: boolean, withLogo: boolean) => {
+			const runs = slots.map(slot => this.createPlaceholderRuns(slot ?? '', values));
+			if (withLogo && logo) {
+				runs[0].unshift(new ImageRun({ type: logo.type, data: logo.data, transformation: { width: logo.width, height: logo.height } }));
 			}
-
-			const trimmedLine = line.trim();
-
-			// Handle horizontal rules EARLY - before anything else can catch them
-			// Explicitly check for ---, ***, ___ (with optional spaces)
-			const isHorizontalRule = /^[-*_]{3,}$/.test(trimmedLine.replace(/\s/g, '')) && 
-			                         /^[-*_\s]+$/.test(trimmedLine) &&
-			                         trimmedLine.length >= 3;
-			
-			if (isHorizontalRule) {
-				paragraphs.push(new Paragraph({
-					border: {
-						bottom: {
-							color: "000000",
-							space: 1,
-							style: BorderStyle.SINGLE,
-							size: 8,
-						},
-					},
-					spacing: {
-						before: 120,
-						after: 120,
-					},
-					text: '',
-				}));
-				i++;
-				continue;
+			if (mirrored) {
+				runs.reverse();
 			}
+			const contentWidth = this.getContentWidth(this.settings.orientation);
+			return new Paragraph({
+				tabStops: [
+					{ type: TabStopType.CENTER, position: Math.round(contentWidth / 2) },
+					{ type: TabStopType.RIGHT, position: contentWidth },
+				],
+				children: [
+					...runs[0],
+					new TextRun({ children: [new Tab()] }),
+					...runs[1],
+					new TextRun({ children: [new Tab()] }),
+					...runs[2],
+				],
+			});
+		};
+		const blank = () => [new Paragraph({ children: [] })];
 
-			// Handle tables
-			if (line.trim().startsWith('|') && line.trim().endsWith('|')) {
-				if (!inTable) {
-					inTable = true;
-					tableRows = [];
-					tableAlignments = [];
-				}
-
-				const cells = line.split('|').slice(1, -1).map(cell => cell.trim());
-				
-				// Check if this is the alignment row
-				if (cells.every(cell => /^:?-+:?$/.test(cell))) {
-					tableAlignments = cells.map(cell => {
-						if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
-						if (cell.endsWith(':')) return 'right';
-						return 'left';
-					});
-				} else {
-					tableRows.push(cells);
-				}
-
-				i++;
-				continue;
-			} else if (inTable) {
-				// End of table
-				paragraphs.push(...this.createTable(tableRows, tableAlignments));
-				inTable = false;
-				tableRows = [];
-				tableAlignments = [];
-			}
+		return {
+			headers: hasHeader ? {
+				default: new Header({ children: [createLine(headerSlots, false, true)] }),
+				even: this.settings.differentOddEven ? new Header({ children: [createLine(headerSlots, true, true)] }) : undefined,
+				first: this.settings.differentFirstPage ? new Header({ children: blank() }) : undefined,
+			} : undefined,
+			footers: hasFooter ? {
+				default: new Footer({ children: [createLine(footerSlots, false, false)] }),
+				even: this.settings.differentOddEven ? new Footer({ children: [createLine(footerSlots, true, false)] }) : undefined,
+				first: this.settings.differentFirstPage ? new Footer({ children: blank() }) : undefined,
+			} : undefined,
+		};
+	}
 
-			// Handle collapsible <details> blocks
-			if (/^<details/i.test(trimmedLine)) {
-				const { paragraphs: detailsParagraphs, nextIndex } = await this.parseDetailsBlock(lines, i);
-				paragraphs.push(...detailsParagraphs);
-				i = nextIndex;
-				continue;
+	// {page} and {pages} become Word page number fields, other placeholders plain text
+	private createPlaceholderRuns(template: string, values: Record<string, string>): ParagraphChild[] {
+		const fontSize = this.getFootnoteFontSize();
+		const font = this.reference
+			? undefined
+			: (this.settings.useObsidianAppearance && this.obsidianFonts) ? this.obsidianFonts.textFont : this.settings.defaultFontFamily;
+
+		return template.split(/(\{[^{}]+\})/).filter(part => part.length > 0).map(part => {
+			const key = part.match(/^\{\s*([^{}]+?)\s*\}$/)?.[1].toLowerCase();
+			if (key === 'page' || key === 'pages') {
+				return new TextRun({
+					children: [key === 'page' ? PageNumber.CURRENT : PageNumber.TOTAL_PAGES],
+					font,
+					size: this.reference ? undefined : fontSize * 2,
+				});
 			}
+			return this.createTextRun(key === undefined ? part : values[key] ?? '', this.reference ? {} : { fontSize });
+		});
+	}
 
-			// Handle raw HTML blocks that appear on their own line
-			if (this.isHtmlBlockLine(trimmedLine)) {
-				const htmlParagraphs = this.convertHtmlBlockToParagraphs(trimmedLine);
-				if (htmlParagraphs.length > 0) {
-					paragraphs.push(...htmlParagraphs);
-				}
-				i++;
-				continue;
-			}
+	private async loadHeaderLogo(): Promise<{ type: ImageType; data: Uint8Array; width: number; height: number } | null> {
+		const path = this.settings.headerLogo?.trim();
+		if (!path || !this.loadResource) {
+			return null;
+		}
 
-			// Handle standard Markdown images ![alt](path "title")
-			const standardImageMatch = trimmedLine.match(/^!\[([^\]]*)\]\((.+)\)$/);
-			if (standardImageMatch) {
-				const imageParagraph = await this.createStandardImageParagraph(standardImageMatch[1], standardImageMatch[2]);
-				if (imageParagraph) {
-					paragraphs.push(imageParagraph);
-				} else {
-					const fallbackLabel = standardImageMatch[1] || standardImageMatch[2];
-					paragraphs.push(new Paragraph({ text: `[Image not found: ${fallbackLabel}]` }));
-				}
-				i++;
-				continue;
-			}
+		const data = await this.loadResource(path).catch(() => null);
+		const type = data ? getImageType(data) : null;
+		if (!data || !type) {
+			console.warn(`Header logo not found or not a PNG, JPEG, GIF or BMP image: ${path}`);
+			return null;
+		}
 
-			// Handle Obsidian-style embedded images ![[image.png]]
-			const wikiImageMatch = trimmedLine.match(/^!\[\[([^\]]+)\]\]$/);
-			if (wikiImageMatch) {
-				const imageParagraph = await this.createEmbeddedImageParagraph(wikiImageMatch[1]);
-				if (imageParagraph) {
-					paragraphs.push(imageParagraph);
-				} else {
-					paragraphs.push(new Paragraph({ text: `[Image not found: ${wikiImageMatch[1]}]` }));
-				}
-				i++;
-				continue;
-			}
+		// Scale the logo to the height of a header line
+		const height = 40;
+		const dimensions = await getImageDimensions(data).catch(() => null);
+		const width = dimensions ? Math.max(1, Math.round(height * dimensions.width / dimensions.height)) : height;
+		return { type, data: new Uint8Array(data), width, height };
+	}
 
-			// Handle empty lines
-			if (trimmedLine === '') {
-				paragraphs.push(new Paragraph({ text: '' }));
-				i++;
-				continue;
-			}
+	private async loadReference(): Promise<ReferenceDocument | null> {
+		const path = this.settings.referenceDocument?.trim();
+		if (!path || !this.loadResource) {
+			return null;
+		}
 
-			// Handle headings
-			const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
-			if (headingMatch) {
-				const level = headingMatch[1].length;
-				const text = headingMatch[2];
-				paragraphs.push(this.createHeading(text, level));
-				i++;
-				continue;
-			}
+		const data = await this.loadResource(path).catch(() => null);
+		if (!data) {
+			console.warn(`Reference document not found: ${path}`);
+			return null;
+		}
+		try {
+			return await loadReferenceDocument(data);
+		} catch (error) {
+			console.error(`Failed to read reference document: ${path}`, error);
+			return null;
+		}
+	}
 
-			// Handle definition lists (term followed by : definition)
-			if (trimmedLine !== '' && !trimmedLine.startsWith('#') && lines[i + 1] && /^:\s+/.test(lines[i + 1])) {
-				const definitionMatch = lines[i + 1].match(/^:\s+(.+)$/);
-				if (definitionMatch) {
-					paragraphs.push(new Paragraph({
-						children: [
-							new TextRun({ text: `${trimmedLine}: `, bold: true }),
-							...this.parseInlineFormatting(definitionMatch[1]),
-						],
-						spacing: this.getLineSpacing(),
-					}));
-					i += 2;
-					continue;
-				}
+	// Style id of the first named style the reference document defines
+	private referenceStyle(...names: string[]): string | undefined {
+		for (const name of names) {
+			const id = this.reference?.styleIds.get(name.toLowerCase());
+			if (id) {
+				return id;
 			}
+		}
+		return undefined;
+	}
 
-			// Handle blockquotes (supports nesting)
-			const blockquoteMatch = line.match(/^(\s*>+\s*)(.*)$/);
-			if (blockquoteMatch) {
-				const marker = blockquoteMatch[1];
-				const depth = marker.replace(/[^>]/g, '').length;
-				const quoteText = blockquoteMatch[2];
+	/**
+	 * Renders blocks in order. `indent` lines paragraphs and code up with the
+	 * text of the list item they follow.
+	 */
+	private renderBlocks(blocks: Block[], indent?: number): (Paragraph | Table)[] {
+		return blocks.flatMap(block => this.renderBlock(block, indent));
+	}
 
-				paragraphs.push(new Paragraph({
-					children: this.parseInlineFormatting(quoteText),
-					indent: {
-						left: convertInchesToTwip(0.3 * depth),
-					},
+	private renderBlock(block: Block, indent?: number): (Paragraph | Table)[] {
+		switch (block.type) {
+			case 'heading':
+				return [this.createHeading(block)];
+			case 'paragraph':
+				return [this.createTextParagraph(this.withBookmark(this.renderInlines(block.content), block.id), indent)];
+			case 'code':
+				return this.createCodeBlock(block.lines, block.language, indent);
+			case 'math':
+				return this.renderMath(block.latex);
+			case 'quote':
+				this.quoteDepth++;
+				try {
+					return this.renderBlocks(block.blocks);
+				} finally {
+					this.quoteDepth--;
+				}
+			case 'callout':
+				return this.renderCallout(block);
+			case 'list':
+				return this.renderList(block, 0);
+			case 'table':
+				return this.createTable(block);
+			case 'image':
+				return this.withCaption([block.image ? this.createImageParagraph(block.image) : new Paragraph({ text: `[Image not found: ${block.alt}]` })], block.caption);
+			case 'definition':
+				return [new Paragraph({
+					children: [...this.renderInlines(block.term, { bold: true }), this.createTextRun(': ', { bold: true }), ...this.renderInlines(block.definition)],
+					spacing: this.getLineSpacing(),
+				})];
+			case 'details':
+				return this.renderDetails(block.summary, block.blocks);
+			case 'embed':
+				return this.renderEmbed(block.title, block.blocks);
+			case 'metadata':
+				return this.createMetadataTable(block.entries);
+			case 'rule':
+				return [new Paragraph({
 					border: {
-						left: {
-							color: "CCCCCC",
+						bottom: {
+							color: "000000",
 							space: 1,
 							style: BorderStyle.SINGLE,
-							size: 12,
+							size: 8,
 						},
 					},
-					spacing: this.getLineSpacing(),
-				}));
-				i++;
-				continue;
-			}
-
-			// Handle GFM task lists
-			const taskListMatch = line.match(/^(\s*)[-*+]\s+\[( |x|X)\]\s+(.*)$/);
-			if (taskListMatch) {
-				const indent = taskListMatch[1].length;
-				const checked = taskListMatch[2].toLowerCase() === 'x';
-				const taskText = taskListMatch[3];
-				const level = Math.min(Math.floor(indent / 2), 2);
-				const leftIndent = convertInchesToTwip(0.18 + level * 0.18);
-				const hanging = convertInchesToTwip(0.18);
-
-				// Use simpler checkbox symbols that render better in Word
-				const checkboxSymbol = checked ? '☑' : '☐';
-				
-				paragraphs.push(new Paragraph({
-					children: [
-						new TextRun({ text: `${checkboxSymbol} ` }),
-						...this.parseInlineFormatting(taskText),
-					],
-					style: this.settings.useObsidianAppearance ? 'ListParagraph' : undefined,
-					indent: {
-						left: leftIndent,
-						hanging: hanging,
-					},
-					spacing: this.getLineSpacing(),
-				}));
-				i++;
-				continue;
-			}
-
-			// Handle lists
-			const unorderedListMatch = line.match(/^(\s*)([-*+])\s+(.+)$/);
-			const orderedListMatch = line.match(/^(\s*)(\d+)\.\s+(.+)$/);
-			
-			if (unorderedListMatch) {
-				const indent = unorderedListMatch[1].length;
-				const text = unorderedListMatch[3];
-				// Use 2 spaces per level to match Obsidian's visual indentation better
-				const level = Math.min(Math.floor(indent / 2), 2);
-				paragraphs.push(new Paragraph({
-					children: this.parseInlineFormatting(text),
-					numbering: {
-						reference: 'obsidian-bullet',
-						level: level,
-					},
-					style: this.settings.useObsidianAppearance ? 'ListParagraph' : undefined,
-					spacing: this.getLineSpacing(),
-				}));
-				i++;
-				continue;
-			}
-
-			if (orderedListMatch) {
-				const indent = orderedListMatch[1].length;
-				const text = orderedListMatch[3];
-				// Use 2 spaces per level to match Obsidian's visual indentation better
-				const level = Math.min(Math.floor(indent / 2), 2);
-				paragraphs.push(new Paragraph({
-					children: this.parseInlineFormatting(text),
-					numbering: {
-						reference: 'obsidian-numbered',
-						level: level,
+					spacing: {
+						before: 120,
+						after: 120,
 					},
-					style: this.settings.useObsidianAppearance ? 'ListParagraph' : undefined,
-					spacing: this.getLineSpacing(),
-				}));
-				i++;
-				continue;
-			}
-
-			// Handle regular paragraphs
-			paragraphs.push(new Paragraph({
-				children: this.parseInlineFormatting(line),
-				spacing: this.getLineSpacing(),
-			}));
-
-			i++;
-		}
-
-		// Handle any remaining table
-		if (inTable) {
-			paragraphs.push(...this.createTable(tableRows, tableAlignments));
+					text: '',
+				})];
+			case 'pagebreak':
+				return [new Paragraph({ children: [new PageBreak()] })];
+			case 'section':
+				return this.createSectionBreak(block.orientation);
+			case 'toc':
+				return this.createTableOfContents();
+			case 'anchor':
+				return [new Paragraph({ children: [new Bookmark({ id: block.id, children: [] })] })];
+			case 'comment':
+				return this.renderCommentBlock(block.text);
+			case 'blank':
+				return [this.quoteDepth > 0 ? this.createQuoteParagraph([]) : new Paragraph({ text: '' })];
 		}
-
-		return paragraphs;
 	}
 
-	private async parseDetailsBlock(lines: string[], startIndex: number): Promise<{ paragraphs: (Paragraph | Table)[]; nextIndex: number }> {
-		let depth = 0;
-		const collected: string[] = [];
-		let i = startIndex;
+	private withBookmark(children: ParagraphChild[], id?: string): ParagraphChild[] {
+		return id ? [new Bookmark({ id, children })] : children;
+	}
 
-		for (; i < lines.length; i++) {
-			const current = lines[i];
-			const trimmed = current.trim();
-			if (/^<details/i.test(trimmed)) {
-				depth++;
-			}
-			if (/^<\/details>/i.test(trimmed)) {
-				depth--;
-			}
-			collected.push(current);
-			if (depth === 0) {
-				break;
-			}
+	private createTextParagraph(children: ParagraphChild[], indent?: number): Paragraph {
+		if (this.quoteDepth > 0) {
+			return this.createQuoteParagraph(children);
 		}
-
-		const block = collected.join('\n');
-		const summaryMatch = block.match(/<summary[^>]*>([\s\S]*?)<\/summary>/i);
-		const summaryText = summaryMatch ? summaryMatch[1].trim() : 'Details';
-		const innerContent = block
-			.replace(/<details[^>]*>/i, '')
-			.replace(/<\/details>/i, '')
-			.replace(summaryMatch ? summaryMatch[0] : '', '')
-			.trim();
-
-		const paragraphs: (Paragraph | Table)[] = [];
-		
-		// Add summary with visual indicator (using down arrow to show it's expanded)
-		// Note: Word doesn't support interactive collapsing, so content is always visible
-		paragraphs.push(new Paragraph({
-			children: [
-				new TextRun({ text: '▼ ', bold: true }),
-				...this.parseInlineFormatting(summaryText),
-			],
+		// Paragraphs after the first in a list item line up with the item's text
+		if (indent !== undefined) {
+			return new Paragraph({
+				children,
+				indent: { left: indent },
+				style: this.settings.useObsidianAppearance ? 'ListParagraph' : undefined,
+				spacing: this.getLineSpacing(),
+			});
+		}
+		return new Paragraph({
+			children,
 			spacing: this.getLineSpacing(),
-			shading: {
-				fill: 'E8E8E8',
+		});
+	}
+
+	private createQuoteParagraph(children: ParagraphChild[]): Paragraph {
+		const depth = this.quoteDepth;
+		const quoteStyle = this.referenceStyle('Quote');
+		return quoteStyle ? new Paragraph({
+			children,
+			style: quoteStyle,
+			indent: depth > 1 ? { left: convertInchesToTwip(0.3 * (depth - 1)) } : undefined,
+		}) : new Paragraph({
+			children,
+			indent: {
+				left: convertInchesToTwip(0.3 * depth),
 			},
 			border: {
 				left: {
-					color: '999999',
+					color: "CCCCCC",
 					space: 1,
 					style: BorderStyle.SINGLE,
 					size: 12,
 				},
 			},
-		}));
-
-		// Add inner content with indentation
-		if (innerContent) {
-			const innerMarkdown = innerContent.split('\n').map(line => '  ' + line).join('\n');
-			const innerParagraphs = await this.parseMarkdown(innerMarkdown);
-			paragraphs.push(...innerParagraphs);
-		}
-
-		// Add a blank line after the details block
-		paragraphs.push(new Paragraph({ children: [] }));
-
-		return { paragraphs, nextIndex: i + 1 };
-	}
-
-	private isHtmlBlockLine(line: string): boolean {
-		if (!line.startsWith('<')) {
-			return false;
-		}
-		if (/^<\/(\w+)/.test(line)) {
-			return false;
-		}
-		if (/^<(!|\?)/.test(line)) {
-			return false;
-		}
-		const tagMatch = line.match(/^<([a-zA-Z][\w:-]*)\b/);
-		if (!tagMatch) {
-			return false;
-		}
-		const tag = tagMatch[1].toLowerCase();
-		if (tag === 'details' || tag === 'summary') {
-			return false;
-		}
-		return true;
+			spacing: this.getLineSpacing(),
+		});
 	}
 
-	private convertHtmlBlockToParagraphs(html: string): Paragraph[] {
-		const parser = new DOMParser();
-		const doc = parser.parseFromString(`<wrapper>${html}</wrapper>`, 'text/html');
-		const nodes = Array.from(doc.body.childNodes);
-		const paragraphs = nodes.flatMap(node => this.buildParagraphsFromHtmlNode(node));
-		if (paragraphs.length > 0) {
-			return paragraphs;
-		}
-		const fallback = (doc.body.textContent ?? '').trim();
-		if (!fallback) {
-			return [];
+	private renderMath(latex: string): Paragraph[] {
+		const components = latexToMathComponents(latex);
+		if (!components) {
+			return this.createCodeBlock(latex.split('\n'));
 		}
 		return [new Paragraph({
-			children: this.createTextRunsFromString(fallback, {}, true),
+			alignment: AlignmentType.CENTER,
+			children: [new MathEquation({ children: components })],
 			spacing: this.getLineSpacing(),
 		})];
 	}
 
-	private buildParagraphsFromHtmlNode(node: ChildNode): Paragraph[] {
-		if (node.nodeType === Node.TEXT_NODE) {
-			const text = node.textContent ?? '';
-			if (!text.trim()) {
-				return [];
-			}
-			return [new Paragraph({
-				children: this.createTextRunsFromString(text.trim(), {}, true),
-				spacing: this.getLineSpacing(),
-			})];
+	// A marker for the orientation already in use starts no new section
+	private createSectionBreak(orientation: 'portrait' | 'landscape'): Paragraph[] {
+		if (orientation === this.currentOrientation) {
+			return [];
 		}
+		const sectionBreak = new Paragraph({ children: [] });
+		this.sectionBreaks.set(sectionBreak, orientation);
+		this.currentOrientation = orientation;
+		return [sectionBreak];
+	}
 
-		if (node.nodeType !== Node.ELEMENT_NODE) {
+	private renderCommentBlock(text: string): Paragraph[] {
+		if (this.settings.obsidianComments === 'drop') {
 			return [];
 		}
 
-		const element = node as HTMLElement;
-		const tag = element.tagName.toLowerCase();
+		const runs: ParagraphChild[] = [];
+		if (this.settings.obsidianComments === 'comment') {
+			this.addComment(runs, 0, text);
+		} else {
+			text.split('\n').forEach((line, lineIndex) => {
+				if (lineIndex > 0) {
+					runs.push(new TextRun({ text: '', break: 1, vanish: true }));
+				}
+				runs.push(this.createTextRun(line, { hidden: true }));
+			});
+		}
+		// The paragraph mark is hidden too, so hidden comments take up no space
+		return [new Paragraph({ children: runs, run: this.settings.obsidianComments === 'hidden' ? { vanish: true } : undefined })];
+	}
 
-		if (tag === 'br') {
-			return [new Paragraph({ children: [], spacing: this.getLineSpacing() })];
+	private renderCallout(block: Extract<Block, { type: 'callout' }>): (Paragraph | Table)[] {
+		const palette = CALLOUT_PALETTES[CALLOUT_ALIASES[block.kind] ?? block.kind] ?? CALLOUT_PALETTES.note;
+		const titleChildren: ParagraphChild[] = [
+			this.createTextRun(`${palette.icon} `, { bold: true, color: palette.accent }),
+			...this.renderInlines(block.title, { bold: true, color: palette.accent }),
+		];
+		// Word cannot fold content, so a foldable callout is always shown expanded
+		if (block.foldable) {
+			titleChildren.push(this.createTextRun(' ▼', { color: palette.accent }));
 		}
 
-		if (tag === 'hr') {
-			return [new Paragraph({
+		const cellChildren: (Paragraph | Table)[] = [
+			new Paragraph({
+				children: titleChildren,
+				spacing: this.getLineSpacing(),
+			}),
+			...this.renderBlocks(block.blocks),
+		];
+		return [this.createBoxTable(cellChildren, palette.accent, palette.fill), new Paragraph({ children: [] })];
+	}
+
+	// Word cannot collapse content, so the details are always shown expanded
+	private renderDetails(summary: Inline[], blocks: Block[]): (Paragraph | Table)[] {
+		return [
+			new Paragraph({
+				children: [
+					new TextRun({ text: '▼ ', bold: true }),
+					...this.renderInlines(summary),
+				],
+				spacing: this.getLineSpacing(),
+				shading: {
+					fill: 'E8E8E8',
+				},
 				border: {
-					bottom: {
-						color: 'auto',
+					left: {
+						color: '999999',
 						space: 1,
 						style: BorderStyle.SINGLE,
-						size: 6,
+						size: 12,
 					},
 				},
-				text: '',
-			})];
-		}
-
-		if (tag === 'ul' || tag === 'ol') {
-			const isOrdered = tag === 'ol';
-			const items = Array.from(element.children).filter(child => child.tagName.toLowerCase() === 'li');
-			return items.map(item => {
-				const runs = this.parseHtmlNodes(item.childNodes, {}, true);
-				return new Paragraph({
-					children: runs.length ? runs : [this.createTextRun('', {})],
-					numbering: {
-						reference: isOrdered ? 'obsidian-numbered' : 'obsidian-bullet',
-						level: 0,
-					},
-					spacing: this.getLineSpacing(),
-				});
-			});
-		}
-
-		if (this.isBlockElement(tag)) {
-			const childParagraphs = Array.from(element.childNodes).flatMap(child => this.buildParagraphsFromHtmlNode(child));
-			if (childParagraphs.length > 0) {
-				return childParagraphs;
-			}
-		}
+			}),
+			...this.renderBlocks(blocks),
+			new Paragraph({ children: [] }),
+		];
+	}
 
-		const runs = this.parseHtmlNodes(element.childNodes, {}, true);
-		if (runs.length === 0) {
-			const fallbackText = (element.textContent ?? '').trim();
-			if (!fallbackText) {
-				return [];
-			}
-			return [new Paragraph({
-				children: this.createTextRunsFromString(fallbackText, {}, true),
-				spacing: this.getLineSpacing(),
-			})];
+	private renderEmbed(title: string, blocks: Block[]): (Paragraph | Table)[] {
+		const content = this.renderBlocks(blocks);
+		if (!this.settings.embedFrame) {
+			return content;
 		}
-
-		return [new Paragraph({
-			children: runs,
+		const titleParagraph = new Paragraph({
+			children: [this.createTextRun(`📄 ${title}`, { bold: true, color: '595959' })],
 			spacing: this.getLineSpacing(),
-		})];
+		});
+		return [this.createBoxTable([titleParagraph, ...content], 'A6A6A6'), new Paragraph({ children: [] })];
 	}
 
-	private isBlockElement(tag: string): boolean {
-		return [
-			'address',
-			'article',
-			'aside',
-			'blockquote',
-			'div',
-			'figcaption',
-			'figure',
-			'footer',
-			'header',
-			'li',
-			'main',
-			'nav',
-			'p',
-			'section',
-			'summary',
-		].includes(tag);
+	/**
+	 * Wraps block content in a single-cell table with a thick left border,
+	 * used for callouts and framed embeds.
+	 */
+	private createBoxTable(children: (Paragraph | Table)[], accent: string, fill?: string): Table {
+		// Word requires a cell to end with a paragraph
+		if (children.length === 0 || children[children.length - 1] instanceof Table) {
+			children.push(new Paragraph({ children: [] }));
+		}
+
+		const accentBorder = { style: BorderStyle.SINGLE, size: 4, color: accent };
+		const totalWidth = this.getContentWidth();
+		return new Table({
+			rows: [
+				new TableRow({
+					children: [
+						new TableCell({
+							children,
+							width: { size: totalWidth, type: WidthType.DXA },
+							shading: fill ? { fill } : undefined,
+							margins: {
+								top: convertInchesToTwip(0.06),
+								bottom: convertInchesToTwip(0.06),
+								left: convertInchesToTwip(0.12),
+								right: convertInchesToTwip(0.12),
+							},
+						}),
+					],
+				}),
+			],
+			width: { size: totalWidth, type: WidthType.DXA },
+			columnWidths: [totalWidth],
+			layout: TableLayoutType.FIXED,
+			borders: {
+				top: accentBorder,
+				bottom: accentBorder,
+				right: accentBorder,
+				left: { style: BorderStyle.SINGLE, size: 24, color: accent },
+				insideHorizontal: { style: BorderStyle.NONE, size: 0, color: 'auto' },
+				insideVertical: { style: BorderStyle.NONE, size: 0, color: 'auto' },
+			},
+		});
 	}
 
 	private getLineSpacing() {
@@ -785,7 +852,8 @@ export class MarkdownToDocxConverter {
 		return ((r << 16) | (g << 8) | b).toString(16).padStart(6, '0').toUpperCase();
 	}
 
-	private createHeading(text: string, level: number): Paragraph {
+	private createHeading(block: Extract<Block, { type: 'heading' }>): Paragraph {
+		const { level } = block;
 		const headingLevels = [
 			HeadingLevel.HEADING_1,
 			HeadingLevel.HEADING_2,
@@ -806,7 +874,7 @@ export class MarkdownToDocxConverter {
 			fontFamily = this.obsidianFonts!.headingFonts[level - 1] || this.obsidianFonts!.textFont;
 			const rgbColor = this.obsidianFonts!.headingColors[level - 1];
 			color = this.rgbToHex(rgbColor);
-			
+
 			// If color is too light or undefined, use black for better visibility in Word
 			if (!color || color === 'FFFFFF' || color === 'inherit') {
 				color = '000000';
@@ -826,23 +894,25 @@ export class MarkdownToDocxConverter {
 			color = '000000'; // Black for standard headings
 		}
 
+		// A reference document's heading styles carry their own formatting
+		const referenceHeadingStyle = this.referenceStyle(`heading ${level}`);
+		const runs = this.renderInlines(block.content, this.reference ? {} : {
+			font: fontFamily,
+			fontSize,
+			bold: true,
+			color,
+		});
+
 		return new Paragraph({
-			heading: headingLevels[level - 1] || HeadingLevel.HEADING_1,
-			style: useAppearance ? `Heading${level}` : undefined,
+			heading: referenceHeadingStyle ? undefined : headingLevels[level - 1] || HeadingLevel.HEADING_1,
+			style: referenceHeadingStyle ?? (useAppearance ? `Heading${level}` : undefined),
 			spacing: this.getLineSpacing(),
-			children: [
-				new TextRun({
-					text,
-					font: fontFamily,
-					size: fontSize * 2,
-					bold: true,
-					color,
-				}),
-			],
+			pageBreakBefore: block.pageBreakBefore,
+			children: this.withBookmark(runs, block.id),
 		});
 	}
 
-	private createCodeBlock(lines: string[], language?: string): Paragraph[] {
+	private createCodeBlock(lines: string[], language?: string, indent?: number): Paragraph[] {
 		let bodyFontSize: number;
 		let monospaceFont: string;
 
@@ -878,6 +948,7 @@ export class MarkdownToDocxConverter {
 
 		const plainLines = code.split('\n');
 		const effectiveLines = highlightedLines ?? plainLines;
+		const codeStyle = this.referenceStyle(...CODE_BLOCK_STYLE_NAMES);
 
 		return effectiveLines.map((content, index) => {
 			const originalText = plainLines[index] ?? '';
@@ -886,255 +957,208 @@ export class MarkdownToDocxConverter {
 				: [this.createTextRun(originalText, { code: true, codeBlock: true })];
 			return new Paragraph({
 				children: runs.length ? runs : [this.createTextRun('', { code: true })],
-				shading: {
+				shading: codeStyle ? undefined : {
 					fill: 'F5F5F5',
 				},
-				style: this.settings.useObsidianAppearance ? 'ObsidianCodeBlock' : undefined,
+				style: codeStyle ?? (this.settings.useObsidianAppearance ? 'ObsidianCodeBlock' : undefined),
+				indent: indent ? { left: indent } : undefined,
 				spacing: this.getLineSpacing(),
 			});
 		});
 	}
 
-	private createPlainTextRuns(text: string): TextRun[] {
-		const hasHardBreak = text.endsWith('  ');
-		const content = hasHardBreak ? text.slice(0, -2) : text;
-		const runs: TextRun[] = [];
-		if (content.length > 0) {
-			runs.push(...this.createTextRunsFromString(content, {}, true).filter((run): run is TextRun => run instanceof TextRun));
+	/**
+	 * Renders a list and the lists nested in its items. Every ordered list has
+	 * numbering of its own, so each counts from its own start number.
+	 */
+	private renderList(list: Extract<Block, { type: 'list' }>, depth: number): (Paragraph | Table)[] {
+		const level = Math.min(depth, MAX_LIST_LEVEL);
+		const reference = list.format === 'bullet' ? 'obsidian-bullet' : this.createListNumbering(list.format, list.delimiter, list.start);
+		return list.items.flatMap(item => this.renderListItem(item, reference, level));
+	}
+
+	private renderListItem(item: ListItemNode, reference: string, level: number): (Paragraph | Table)[] {
+		// The item's first paragraph carries its bullet or number
+		const [first, ...rest] = item.blocks;
+		const lead = first?.type === 'paragraph'
+			? this.withBookmark(this.renderInlines(first.content), first.id)
+			: [];
+		const paragraphs: (Paragraph | Table)[] = [this.createListItemParagraph(lead, item.checked, reference, level)];
+
+		for (const block of first?.type === 'paragraph' ? rest : item.blocks) {
+			paragraphs.push(...(block.type === 'list'
+				? this.renderList(block, level + 1)
+				: this.renderBlock(block, this.getListIndent(level))));
 		}
-		if (hasHardBreak) {
-			runs.push(new TextRun({ text: '', break: 1 }));
+		return paragraphs;
+	}
+
+	private createListItemParagraph(runs: ParagraphChild[], checked: boolean | undefined, reference: string, level: number): Paragraph {
+		const children = runs.length > 0 ? runs : [this.createTextRun('', {})];
+		if (checked === undefined) {
+			return new Paragraph({
+				children,
+				numbering: { reference, level },
+				style: this.settings.useObsidianAppearance ? 'ListParagraph' : undefined,
+				spacing: this.getLineSpacing(),
+			});
 		}
-		return runs.length > 0 ? runs : [this.createTextRun('', {})];
+
+		// Use simpler checkbox symbols that render better in Word
+		const checkbox = new TextRun({ text: checked ? '☑ ' : '☐ ' });
+		return new Paragraph({
+			children: [checkbox, ...runs],
+			// In a bullet list the checkbox takes the place of the bullet
+			numbering: reference === 'obsidian-bullet' ? undefined : { reference, level },
+			indent: reference === 'obsidian-bullet' ? { left: this.getListIndent(level), hanging: convertInchesToTwip(0.18) } : undefined,
+			style: this.settings.useObsidianAppearance ? 'ListParagraph' : undefined,
+			spacing: this.getLineSpacing(),
+		});
 	}
 
-	private tokensToRuns(tokens: Token[], baseStyle: TextStyle, allowFootnotes: boolean, allowHyperlinks: boolean): (TextRun | ExternalHyperlink)[] {
-		const runs: (TextRun | ExternalHyperlink)[] = [];
+	// Where the text of a list item at the given level starts
+	private getListIndent(level: number): number {
+		return convertInchesToTwip(0.18 + level * 0.18);
+	}
+
+	/**
+	 * Numbering for one ordered list. Lists do not share numbering, so Word
+	 * does not carry the count of one list over to the next.
+	 */
+	private createListNumbering(format: Exclude<ListFormat, 'bullet'>, delimiter: string, start: number): string {
+		const reference = `obsidian-numbered-${this.listNumberings.length + 1}`;
+		this.listNumberings.push({ reference, format, delimiter, start });
+		return reference;
+	}
 
-		for (let i = 0; i < tokens.length; i++) {
-			const token = tokens[i];
-			switch (token.type) {
+	/**
+	 * Renders inlines as runs. Consecutive text with the same link becomes
+	 * one hyperlink.
+	 */
+	private renderInlines(inlines: Inline[], baseStyle: TextStyle = {}): ParagraphChild[] {
+		const runs: ParagraphChild[] = [];
+		for (let i = 0; i < inlines.length; i++) {
+			const inline = inlines[i];
+			switch (inline.type) {
 				case 'text': {
-					runs.push(...this.createTextRunsFromString(token.content, baseStyle, allowFootnotes));
-					break;
-				}
-				case 'softbreak':
-				case 'hardbreak': {
-					runs.push(new TextRun({ text: '', break: 1 }));
-					break;
-				}
-				case 'code_inline': {
-					runs.push(this.createTextRun(token.content, { ...baseStyle, code: true }));
-					break;
-				}
-				case 'html_inline': {
-					runs.push(...this.parseHtmlStringToRuns(token.content, baseStyle, allowFootnotes));
-					break;
-				}
-				case 'emoji': {
-					runs.push(this.createTextRun(token.content, baseStyle));
-					break;
-				}
-				case 'footnote_ref': {
-					const label = token.meta?.label ?? token.meta?.id?.toString() ?? token.content;
-					runs.push(this.createFootnoteRun(label));
-					break;
-				}
-				case 'link_open': {
-					const closeIndex = this.findClosingTokenIndex(tokens, i);
-					const innerTokens = tokens.slice(i + 1, closeIndex);
-					const href = token.attrGet('href') || '';
+					if ((!inline.link && !inline.anchor) || inline.style.revision) {
+						runs.push(this.createInlineRun(inline.text, this.getTextStyle(inline.style, baseStyle)));
+						break;
+					}
 					const hyperlinkStyle: TextStyle = {
 						...baseStyle,
 						underline: true,
 						color: baseStyle.color || DEFAULT_HYPERLINK_COLOR,
 					};
-					const childRuns = this.tokensToRuns(innerTokens, hyperlinkStyle, allowFootnotes, false);
-					const textChildren = childRuns.filter((child): child is TextRun => child instanceof TextRun);
-					const trailingRuns = childRuns.filter(child => !(child instanceof TextRun));
-					if (allowHyperlinks && href && textChildren.length > 0) {
-						runs.push(new ExternalHyperlink({ link: href, children: textChildren }));
-						runs.push(...trailingRuns);
-					} else {
-						runs.push(...childRuns);
+					const children: TextRun[] = [];
+					for (; i < inlines.length; i++) {
+						const next = inlines[i];
+						if (next.type !== 'text' || next.link !== inline.link || next.anchor !== inline.anchor || next.style.revision) {
+							break;
+						}
+						children.push(this.createTextRun(next.text, this.getTextStyle(next.style, hyperlinkStyle)));
 					}
-					i = closeIndex;
+					i--;
+					runs.push(inline.anchor
+						? new InternalHyperlink({ anchor: inline.anchor, children })
+						: new ExternalHyperlink({ link: inline.link ?? '', children }));
 					break;
 				}
-				case 'strong_open':
-				case 'em_open':
-				case 's_open':
-				case 'mark_open':
-				case 'sup_open':
-				case 'sub_open': {
-					const closeIndex = this.findClosingTokenIndex(tokens, i);
-					const innerTokens = tokens.slice(i + 1, closeIndex);
-					const nextStyle: TextStyle = { ...baseStyle };
-					if (token.type === 'strong_open') nextStyle.bold = true;
-					if (token.type === 'em_open') nextStyle.italic = true;
-					if (token.type === 's_open') nextStyle.strikethrough = true;
-					if (token.type === 'mark_open') nextStyle.highlight = true;
-					if (token.type === 'sup_open') nextStyle.superScript = true;
-					if (token.type === 'sub_open') nextStyle.subScript = true;
-					runs.push(...this.tokensToRuns(innerTokens, nextStyle, allowFootnotes, allowHyperlinks));
-					i = closeIndex;
+				case 'break':
+					runs.push(new TextRun({ text: '', break: 1 }));
+					break;
+				case 'footnote':
+					runs.push(this.settings.footnoteStyle === 'list'
+						? this.createTextRun(`${inline.index + 1}`, { superScript: true })
+						: new FootnoteReferenceRun(inline.index + 1));
+					break;
+				case 'math': {
+					const components = latexToMathComponents(inline.latex);
+					runs.push(components
+						? new MathEquation({ children: components })
+						: this.createTextRun(inline.latex, { ...baseStyle, code: true }));
 					break;
 				}
-				default: {
-					if (token.children && token.children.length > 0) {
-						runs.push(...this.tokensToRuns(token.children, baseStyle, allowFootnotes, allowHyperlinks));
+				case 'image':
+					runs.push(this.createImageRun(inline.image));
+					break;
+				case 'reference':
+					runs.push(...this.createCrossReference(inline.label, inline.text, this.getTextStyle(inline.style, baseStyle)));
+					break;
+				case 'comment': {
+					const start = runs.length;
+					runs.push(...this.renderInlines(inline.content, baseStyle));
+					// %% comments %% follow the setting; CriticMarkup comments are always Word comments
+					const mode = inline.obsidian ? this.settings.obsidianComments : 'comment';
+					if (mode === 'comment') {
+						this.addComment(runs, start, inline.text);
+					} else if (mode === 'hidden') {
+						runs.push(this.createTextRun(inline.text, { ...baseStyle, hidden: true }));
 					}
 					break;
 				}
 			}
 		}
-
 		return runs;
 	}
 
-	private findClosingTokenIndex(tokens: Token[], startIndex: number): number {
-		const startToken = tokens[startIndex];
-		if (!startToken || startToken.nesting !== 1) {
-			return startIndex;
-		}
-		let depth = 1;
-		for (let i = startIndex + 1; i < tokens.length; i++) {
-			depth += tokens[i].nesting;
-			if (depth === 0) {
-				return i;
-			}
-		}
-		return startIndex;
+	private getTextStyle(style: InlineStyle, baseStyle: TextStyle): TextStyle {
+		return {
+			...baseStyle,
+			bold: style.bold || baseStyle.bold,
+			italic: style.italic || baseStyle.italic,
+			underline: style.underline || baseStyle.underline,
+			strikethrough: style.strike || baseStyle.strikethrough,
+			code: style.code || baseStyle.code,
+			highlight: style.highlight || baseStyle.highlight,
+			superScript: style.superscript || baseStyle.superScript,
+			subScript: style.subscript || baseStyle.subScript,
+			color: style.color ?? baseStyle.color,
+			revision: style.revision ?? baseStyle.revision,
+		};
 	}
 
-	private createTextRunsFromString(content: string, style: TextStyle, allowFootnotes: boolean): (TextRun | ExternalHyperlink)[] {
-		if (!content) {
-			return [];
-		}
-		if (!allowFootnotes) {
-			return [this.createTextRun(content, style)];
-		}
-
-		const regex = /\[\^([^\]]+)\]/g;
-		const runs: (TextRun | ExternalHyperlink)[] = [];
-		let lastIndex = 0;
-		let match: RegExpExecArray | null;
-
-		while ((match = regex.exec(content)) !== null) {
-			if (match.index > lastIndex) {
-				runs.push(this.createTextRun(content.slice(lastIndex, match.index), style));
-			}
-			runs.push(this.createFootnoteRun(match[1]));
-			lastIndex = match.index + match[0].length;
-		}
-
-		if (lastIndex < content.length) {
-			runs.push(this.createTextRun(content.slice(lastIndex), style));
+	/**
+	 * Adds a Word comment whose range runs from runs[start] to the end of runs.
+	 */
+	private addComment(runs: ParagraphChild[], start: number, text: string) {
+		if (!text) {
+			return;
 		}
-
-		return runs;
+		const id = this.comments.length;
+		const author = this.settings.trackChangesAuthor || 'Obsidian';
+		this.comments.push({
+			id,
+			author,
+			initials: author.split(/\s+/).map(word => word.charAt(0)).join('').toUpperCase(),
+			date: new Date(),
+			children: text.split(/\n+/).map(paragraph => new Paragraph({
+				children: [this.createTextRun(paragraph.trim(), {})],
+			})),
+		});
+		runs.splice(start, 0, new CommentRangeStart(id));
+		runs.push(new CommentRangeEnd(id), new TextRun({ children: [new CommentReference(id)] }));
 	}
 
-	private parseHtmlStringToRuns(html: string, baseStyle: TextStyle, allowFootnotes: boolean): (TextRun | ExternalHyperlink)[] {
-		if (!html) {
-			return [];
-		}
-
-		const parser = new DOMParser();
-		const doc = parser.parseFromString(`<wrapper>${html}</wrapper>`, 'text/html');
-		const runs = this.parseHtmlNodes(doc.body.childNodes, baseStyle, allowFootnotes);
-		if (runs.length === 0) {
-			const fallback = doc.body.textContent ?? '';
-			if (fallback.trim().length > 0) {
-				return this.createTextRunsFromString(fallback, baseStyle, allowFootnotes);
-			}
-		}
-		return runs;
+	private parseHighlightedHtmlLine(lineHtml: string): TextRun[] {
+		const container = document.createElement('div');
+		container.innerHTML = lineHtml || '';
+		const runs = this.parseHighlightedNodes(container.childNodes, { code: true, codeBlock: true });
+		return runs.length > 0 ? runs : [this.createTextRun('', { code: true, codeBlock: true })];
 	}
 
-	private parseHtmlNodes(nodes: NodeListOf<ChildNode> | ChildNode[], baseStyle: TextStyle, allowFootnotes: boolean): (TextRun | ExternalHyperlink)[] {
-		const runs: (TextRun | ExternalHyperlink)[] = [];
-
-		nodes.forEach((node: ChildNode) => {
+	// highlight.js marks up tokens as nested spans with hljs-* classes
+	private parseHighlightedNodes(nodes: NodeListOf<ChildNode>, style: TextStyle): TextRun[] {
+		return Array.from(nodes).flatMap(node => {
 			if (node.nodeType === Node.TEXT_NODE) {
-				runs.push(...this.createTextRunsFromString(node.textContent ?? '', baseStyle, allowFootnotes));
-				return;
+				return node.textContent ? [this.createTextRun(node.textContent, style)] : [];
 			}
-
 			if (node.nodeType !== Node.ELEMENT_NODE) {
-				return;
-			}
-
-			const element = node as HTMLElement;
-			const tag = element.tagName.toLowerCase();
-			const nextStyle: TextStyle = { ...baseStyle };
-
-			switch (tag) {
-				case 'br':
-					runs.push(new TextRun({ text: '', break: 1 }));
-					return;
-				case 'strong':
-				case 'b':
-					nextStyle.bold = true;
-					break;
-				case 'em':
-				case 'i':
-					nextStyle.italic = true;
-					break;
-				case 's':
-				case 'strike':
-				case 'del':
-					nextStyle.strikethrough = true;
-					break;
-				case 'u':
-					nextStyle.underline = true;
-					break;
-				case 'code':
-					nextStyle.code = true;
-					break;
-				case 'mark':
-					nextStyle.highlight = true;
-					break;
-				case 'sup':
-					nextStyle.superScript = true;
-					break;
-				case 'sub':
-					nextStyle.subScript = true;
-					break;
-				case 'span': {
-					const color = this.resolveSyntaxColor(element.classList);
-					if (color) {
-						nextStyle.color = color;
-					}
-					break;
-				}
-				case 'a': {
-					const href = element.getAttribute('href') || '';
-					const childRuns = this.parseHtmlNodes(element.childNodes, baseStyle, allowFootnotes);
-					const textChildren = childRuns.filter((child): child is TextRun => child instanceof TextRun);
-					if (href && textChildren.length > 0) {
-						runs.push(new ExternalHyperlink({ link: href, children: textChildren }));
-					} else {
-						runs.push(...childRuns);
-					}
-					return;
-				}
-				default:
-					break;
+				return [];
 			}
-
-			runs.push(...this.parseHtmlNodes(element.childNodes, nextStyle, allowFootnotes));
+			const color = this.resolveSyntaxColor((node as HTMLElement).classList);
+			return this.parseHighlightedNodes(node.childNodes, color ? { ...style, color } : style);
 		});
-
-		return runs;
-	}
-
-	private parseHighlightedHtmlLine(lineHtml: string): TextRun[] {
-		const container = document.createElement('div');
-		container.innerHTML = lineHtml || '';
-		const runs = this.parseHtmlNodes(container.childNodes, { code: true, codeBlock: true }, false)
-			.filter((run): run is TextRun => run instanceof TextRun);
-		return runs.length > 0 ? runs : [this.createTextRun('', { code: true, codeBlock: true })];
 	}
 
 	private resolveSyntaxColor(classList: DOMTokenList): string | undefined {
@@ -1147,72 +1171,250 @@ export class MarkdownToDocxConverter {
 		return undefined;
 	}
 
-	private createTable(rows: string[][], alignments: string[]): (Paragraph | Table)[] {
-		if (rows.length === 0) return [];
+	private createTableOfContents(): (Paragraph | TableOfContents)[] {
+		this.tocInserted = true;
+		const minLevel = Math.max(1, Math.min(this.settings.tocMinLevel, 6));
+		const maxLevel = Math.max(minLevel, Math.min(this.settings.tocMaxLevel, 6));
+		const bodyFontSize = (this.settings.useObsidianAppearance && this.obsidianFonts)
+			? this.obsidianFonts.baseFontSize
+			: this.settings.defaultFontSize;
+
+		const title = new Paragraph({
+			children: [this.createTextRun('Table of Contents', { bold: true, fontSize: bodyFontSize + 3 })],
+			spacing: { before: 120, after: 120 },
+		});
+		const instruction = `TOC \\o "${minLevel}-${maxLevel}" \\h \\z \\u`;
+
+		if (!this.settings.tocStaticEntries) {
+			return [
+				title,
+				new TableOfContents('Table of Contents', {
+					hyperlink: true,
+					headingStyleRange: `${minLevel}-${maxLevel}`,
+				}),
+				new Paragraph({ children: [] }),
+			];
+		}
 
-		const columnCount = rows[0].length;
-		const totalWidth = convertInchesToTwip(6.5);
-		const columnWidth = Math.max(1, Math.floor(totalWidth / columnCount));
+		// Pre-fill the field result with entries from the document's headings;
+		// Word replaces them with the real table (and page numbers) on update
+		const entries = getHeadings(this.doc.blocks)
+			.filter(heading => heading.level >= minLevel && heading.level <= maxLevel)
+			.map(heading => {
+				const text = this.createTextRun(heading.text, {});
+				return new Paragraph({
+					style: `TOC${heading.level - minLevel + 1}`,
+					indent: { left: convertInchesToTwip(0.25 * (heading.level - minLevel)) },
+					children: heading.id
+						? [new InternalHyperlink({ anchor: heading.id, children: [text] })]
+						: [text],
+				});
+			});
+		if (entries.length === 0) {
+			entries.push(new Paragraph({ children: [this.createTextRun('Update this field to build the table of contents.', { italic: true })] }));
+		}
+
+		return [
+			title,
+			new Paragraph({ children: createFieldStart(instruction) }),
+			...entries,
+			new Paragraph({ children: [createFieldEnd()] }),
+			new Paragraph({ children: [] }),
+		];
+	}
+
+	private createTable(block: Extract<Block, { type: 'table' }>): (Paragraph | Table)[] {
+		if (block.rows.length === 0) return [];
+
+		// <br> starts a new line within the cell
+		const rows = block.rows.map(row => row.map(cell => this.splitLines(cell)));
+		const columnWidths = this.getTableColumnWidths(rows, rows[0].length);
+
+		// A table style from the reference document replaces the built-in borders and shading
+		const templateStyle = this.settings.tableStyle ? this.referenceStyle(this.settings.tableStyle) : undefined;
 
 		const tableRows = rows.map((row, rowIndex) => {
-			const cells = row.map((cell, cellIndex) => {
-				const alignment = alignments[cellIndex] || 'left';
+			const cells = row.map((cellLines, cellIndex) => {
+				const alignment = block.alignments[cellIndex] || 'left';
 				let alignmentType: typeof AlignmentType.LEFT | typeof AlignmentType.CENTER | typeof AlignmentType.RIGHT = AlignmentType.LEFT;
 				if (alignment === 'center') alignmentType = AlignmentType.CENTER;
 				if (alignment === 'right') alignmentType = AlignmentType.RIGHT;
 
+				let fill: string | undefined;
+				if (!templateStyle && rowIndex === 0) {
+					fill = 'E7E6E6';
+				} else if (!templateStyle && this.settings.tableBandedRows && rowIndex % 2 === 0) {
+					fill = 'F2F2F2';
+				}
+
 				return new TableCell({
-					children: [
-						new Paragraph({
-							children: this.parseInlineFormatting(cell),
-							alignment: alignmentType,
-						}),
-					],
+					children: cellLines.map(cellLine => new Paragraph({
+						children: this.renderInlines(cellLine),
+						alignment: alignmentType,
+					})),
 					width: {
-						size: columnWidth,
+						size: columnWidths[cellIndex],
 						type: WidthType.DXA,
 					},
-					shading: rowIndex === 0 ? { fill: 'E7E6E6' } : undefined,
+					shading: fill ? { fill } : undefined,
 				});
 			});
 
 			return new TableRow({
 				children: cells,
+				// Repeat the header row at the top of every page the table spans
+				tableHeader: rowIndex === 0 || undefined,
 			});
 		});
 
 		const table = new Table({
 			rows: tableRows,
 			width: {
-				size: totalWidth,
+				size: columnWidths.reduce((total, width) => total + width, 0),
 				type: WidthType.DXA,
 			},
-			columnWidths: new Array(columnCount).fill(columnWidth),
+			columnWidths,
 			layout: TableLayoutType.FIXED,
+			style: templateStyle ?? this.referenceStyle('Table Grid'),
+			borders: templateStyle ? undefined : this.getTableBorders(),
 		});
 
 		// Return table wrapped in paragraphs for spacing
-		return [new Paragraph({ children: [] }), table, new Paragraph({ children: [] })];
+		return [new Paragraph({ children: [] }), ...this.withCaption([table], block.caption), new Paragraph({ children: [] })];
+	}
+
+	// Splits inlines into lines at their line breaks
+	private splitLines(inlines: Inline[]): Inline[][] {
+		const lines: Inline[][] = [[]];
+		for (const inline of inlines) {
+			if (inline.type === 'break') {
+				lines.push([]);
+			} else {
+				lines[lines.length - 1].push(inline);
+			}
+		}
+		return lines;
+	}
+
+	/**
+	 * Shares the printable width between the columns in proportion to the
+	 * longest line in each, so short columns do not take as much room as long ones.
+	 */
+	private getTableColumnWidths(rows: Inline[][][][], columnCount: number): number[] {
+		const totalWidth = this.getContentWidth();
+		const weights = Array.from({ length: columnCount }, (_, column) => {
+			const lengths = rows.map(row => Math.max(...(row[column] ?? []).map(line => getInlineText(line).trim().length)));
+			// Keep very long cells from squeezing every other column
+			return Math.min(Math.max(3, ...lengths), 40);
+		});
+		const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+		return weights.map(weight => Math.max(1, Math.floor(totalWidth * weight / totalWeight)));
+	}
+
+	private getTableBorders() {
+		const line = { style: BorderStyle.SINGLE, size: 4, color: 'auto' };
+		const none = { style: BorderStyle.NONE, size: 0, color: 'auto' };
+		switch (this.settings.tableBorders) {
+			case 'horizontal':
+				return { top: line, bottom: line, insideHorizontal: line, left: none, right: none, insideVertical: none };
+			case 'none':
+				return { top: none, bottom: none, insideHorizontal: none, left: none, right: none, insideVertical: none };
+			default:
+				// docx draws single borders on every edge when none are given
+				return undefined;
+		}
 	}
 
-	private parseInlineFormatting(text: string, options?: { allowFootnotes?: boolean }): (TextRun | ExternalHyperlink)[] {
-		if (!this.settings.preserveFormatting) {
-			return this.createPlainTextRuns(text);
+	private withCaption(content: (Paragraph | Table)[], caption?: BlockCaption): (Paragraph | Table)[] {
+		if (!caption) {
+			return content;
 		}
+		const position = caption.kind === 'figure' ? this.settings.figureCaptionPosition : this.settings.tableCaptionPosition;
+		const paragraph = this.createCaption(caption, position === 'above');
+		return position === 'above' ? [paragraph, ...content] : [...content, paragraph];
+	}
 
-		const env: Record<string, unknown> = {};
-		const tokens = this.md.parseInline(text, env);
-		const inlineTokens = tokens.length > 0 ? tokens[0].children ?? [] : [];
-		const allowFootnotes = options?.allowFootnotes !== false;
+	/**
+	 * "Figure 2: text", with the number as a SEQ field Word can renumber and a
+	 * bookmark around "Figure 2" for cross-references to point at.
+	 */
+	private createCaption(caption: BlockCaption, keepNext: boolean): Paragraph {
+		const name = CAPTION_NAMES[caption.kind];
+		this.captionFieldsInserted = true;
+		const captionStyle = this.referenceStyle('Caption');
+		const style: TextStyle = captionStyle ? {} : { italic: true, color: '44546A' };
+		const numberRuns = [
+			this.createTextRun(`${name} `, style),
+			...createField(`SEQ ${name} \\* ARABIC`, [this.createTextRun(`${caption.number}`, style)]),
+		];
+		const label = this.withBookmark(numberRuns, caption.id);
 
-		const runs = inlineTokens.length
-			? this.tokensToRuns(inlineTokens, {}, allowFootnotes, true)
-			: this.createPlainTextRuns(text);
+		return new Paragraph({
+			children: caption.content.length > 0
+				? [...label, this.createTextRun(': ', style), ...this.renderInlines(caption.content, style)]
+				: label,
+			style: captionStyle,
+			alignment: caption.kind === 'figure' ? AlignmentType.CENTER : undefined,
+			// A caption above its figure or table stays on the same page
+			keepNext,
+			spacing: { before: 60, after: 120 },
+		});
+	}
 
-		return runs.length > 0 ? runs : this.createPlainTextRuns(text);
+	/**
+	 * A REF field showing "Figure 2" for @fig:label, or the text as written
+	 * when no caption has the label.
+	 */
+	private createCrossReference(label: string, text: string, style: TextStyle): ParagraphChild[] {
+		const target = this.doc.labels[label];
+		if (!target) {
+			return [this.createTextRun(text, style)];
+		}
+		this.captionFieldsInserted = true;
+		return createField(`REF ${target.id} \\h`, [this.createTextRun(`${CAPTION_NAMES[target.kind]} ${target.number}`, style)]);
+	}
+
+	private createImageRun(image: ImageData): ImageRun {
+		return new ImageRun({
+			type: image.type,
+			data: new Uint8Array(image.data),
+			transformation: { width: image.width, height: image.height },
+		});
+	}
+
+	private createImageParagraph(image: ImageData): Paragraph {
+		return new Paragraph({
+			alignment: AlignmentType.CENTER,
+			children: [this.createImageRun(image)],
+		});
 	}
 
 	private createTextRun(text: string, style: TextStyle): TextRun {
+		return new TextRun(this.createRunOptions(text, style));
+	}
+
+	/**
+	 * A text run, or a tracked insertion or deletion when the style carries a
+	 * revision from CriticMarkup.
+	 */
+	private createInlineRun(text: string, style: TextStyle): ParagraphChild {
+		if (!style.revision) {
+			return this.createTextRun(text, style);
+		}
+		const revision = {
+			...this.createRunOptions(text, style),
+			id: ++this.revisionCount,
+			author: this.settings.trackChangesAuthor || 'Obsidian',
+			date: new Date().toISOString(),
+		};
+		return style.revision === 'insert' ? new InsertedTextRun(revision) : new DeletedTextRun(revision);
+	}
+
+	private createRunOptions(text: string, style: TextStyle): IRunOptions {
+		if (this.reference) {
+			return this.createReferenceRunOptions(text, style);
+		}
+
 		let bodyFontSize: number;
 		let textFont: string;
 		let monospaceFont: string;
@@ -1245,7 +1447,8 @@ export class MarkdownToDocxConverter {
 			monospaceFont = 'Courier New';
 		}
 		
-		const targetFont = style.code ? monospaceFont : textFont;
+		const targetFont = style.code ? monospaceFont : style.font ?? textFont;
+		const fontSize = style.fontSize ?? bodyFontSize;
 		
 		// Validate target font is not empty
 		if (!targetFont || targetFont.trim() === '' || targetFont === 'undefined' || targetFont === '??' || targetFont.includes('??')) {
@@ -1254,7 +1457,7 @@ export class MarkdownToDocxConverter {
 			
 			const options: any = {
 				text: text,
-				size: bodyFontSize * 2,
+				size: fontSize * 2,
 				font: finalFont,
 			};
 			
@@ -1267,18 +1470,19 @@ export class MarkdownToDocxConverter {
 			if (style.color) options.color = style.color;
 			if (style.superScript) options.superScript = true;
 			if (style.subScript) options.subScript = true;
+			if (style.hidden) options.vanish = true;
 
 			const shadingFill = style.backgroundColor ?? ((style.code && !style.codeBlock) ? 'F5F5F5' : undefined);
 			if (shadingFill) {
 				options.shading = { fill: shadingFill };
 			}
 
-			return new TextRun(options);
+			return options;
 		}
 		
 		const options: any = {
 			text: text,
-			size: bodyFontSize * 2,
+			size: fontSize * 2,
 			font: targetFont,
 		};
 
@@ -1291,23 +1495,67 @@ export class MarkdownToDocxConverter {
 		if (style.color) options.color = style.color;
 		if (style.superScript) options.superScript = true;
 		if (style.subScript) options.subScript = true;
+		if (style.hidden) options.vanish = true;
 
 		const shadingFill = style.backgroundColor ?? ((style.code && !style.codeBlock) ? 'F5F5F5' : undefined);
 		if (shadingFill) {
 			options.shading = { fill: shadingFill };
 		}
 
-		return new TextRun(options);
+		return options;
 	}
 
-	private createFootnoteRun(label: string): TextRun {
-		let index = this.usedFootnotes.indexOf(label);
-		if (index === -1) {
-			index = this.usedFootnotes.length;
-			this.usedFootnotes.push(label);
-		}
-		const number = index + 1;
-		return this.createTextRun(number.toString(), { superScript: true });
+	/**
+	 * With a reference document, fonts and sizes come from its named styles;
+	 * only the inline formatting is applied to the run itself.
+	 */
+	private createReferenceRunOptions(text: string, style: TextStyle): IRunOptions {
+		const characterStyle = style.code && !style.codeBlock ? this.referenceStyle(...INLINE_CODE_STYLE_NAMES) : undefined;
+		const hasCodeStyle = style.codeBlock
+			? this.referenceStyle(...CODE_BLOCK_STYLE_NAMES) !== undefined
+			: characterStyle !== undefined;
+		const shadingFill = style.backgroundColor ?? ((style.code && !style.codeBlock && !hasCodeStyle) ? 'F5F5F5' : undefined);
+
+		return {
+			text,
+			style: characterStyle,
+			font: style.code && !hasCodeStyle ? this.getPlatformMonospaceFont() : undefined,
+			size: style.fontSize ? style.fontSize * 2 : undefined,
+			bold: style.bold || undefined,
+			italics: style.italic || undefined,
+			strike: style.strikethrough || undefined,
+			underline: style.underline ? { type: UnderlineType.SINGLE } : undefined,
+			highlight: style.highlight ? 'yellow' : undefined,
+			color: style.color,
+			superScript: style.superScript || undefined,
+			subScript: style.subScript || undefined,
+			shading: shadingFill ? { fill: shadingFill } : undefined,
+			vanish: style.hidden || undefined,
+		};
+	}
+
+	private getFootnoteFontSize(): number {
+		const bodyFontSize = (this.settings.useObsidianAppearance && this.obsidianFonts)
+			? this.obsidianFonts.baseFontSize
+			: this.settings.defaultFontSize;
+		return Math.max(8, bodyFontSize - 2);
+	}
+
+	private createFootnotes(): Record<string, { children: Paragraph[] }> {
+		const footnotes: Record<string, { children: Paragraph[] }> = {};
+		const baseStyle: TextStyle = this.reference ? {} : { fontSize: this.getFootnoteFontSize() };
+		const footnoteStyle = this.referenceStyle('footnote text') ?? 'FootnoteText';
+
+		this.doc.footnotes.forEach((footnote, index) => {
+			footnotes[index + 1] = {
+				children: footnote.paragraphs.map(paragraph => new Paragraph({
+					style: footnoteStyle,
+					children: this.renderInlines(paragraph, baseStyle),
+				})),
+			};
+		});
+
+		return footnotes;
 	}
 
 	private createNumbering() {
@@ -1318,15 +1566,17 @@ export class MarkdownToDocxConverter {
 			? this.obsidianFonts.baseFontSize * 2
 			: this.settings.defaultFontSize * 2;
 
-		const makeLevel = (level: number) => {
-			const baseIndentInches = 0.18 + level * 0.18;
-			const indentLeft = convertInchesToTwip(baseIndentInches);
+		const levels = Array.from({ length: MAX_LIST_LEVEL + 1 }, (_, level) => level);
+
+		// An ordered list uses its format and start number at whichever level it is nested
+		const makeLevel = (level: number, numbering: { format: Exclude<ListFormat, 'bullet'>; delimiter: string; start: number }) => {
+			const indentLeft = this.getListIndent(level);
 			const hanging = convertInchesToTwip(0.18);
 			return {
 				level,
-				format: LevelFormat.DECIMAL,
-				restart: 1,
-				text: `%${level + 1}.`,
+				format: LIST_LEVEL_FORMATS[numbering.format],
+				start: numbering.start,
+				text: `%${level + 1}${numbering.delimiter}`,
 				alignment: NumberAlignment.LEFT,
 				style: {
 					paragraph: {
@@ -1348,8 +1598,7 @@ export class MarkdownToDocxConverter {
 		};
 
 		const makeBulletLevel = (level: number) => {
-			const baseIndentInches = 0.18 + level * 0.18;
-			const indentLeft = convertInchesToTwip(baseIndentInches);
+			const indentLeft = this.getListIndent(level);
 			const hanging = convertInchesToTwip(0.18);
 			return {
 				level,
@@ -1378,232 +1627,81 @@ export class MarkdownToDocxConverter {
 
 		return {
 			config: [
-				{
-					reference: 'obsidian-numbered',
-					levels: [0, 1, 2].map(makeLevel),
-				},
 				{
 					reference: 'obsidian-bullet',
-					levels: [0, 1, 2].map(makeBulletLevel),
+					levels: levels.map(makeBulletLevel),
 				},
+				...this.listNumberings.map(numbering => ({
+					reference: numbering.reference,
+					levels: levels.map(level => makeLevel(level, numbering)),
+				})),
 			],
 		};
 	}
 
-	private async createEmbeddedImageParagraph(rawLink: string): Promise<Paragraph | null> {
-		if (!this.resourceLoader) {
-			return null;
-		}
-
-		const parsed = this.parseEmbeddedImageLink(rawLink);
-		if (!parsed.target) {
-			return null;
-		}
-
-		const data = await this.resourceLoader(parsed.target);
-		if (!data) {
-			return null;
-		}
-
-		return await this.buildImageParagraph(data, parsed.widthOverride);
-	}
-
-	private parseEmbeddedImageLink(rawLink: string): { target: string; widthOverride?: number } {
-		const parts = rawLink.split('|');
-		const targetPart = parts.shift()?.trim() ?? '';
-		const sanitizedTarget = targetPart.split('#')[0].split('^')[0].trim();
-
-		let widthOverride: number | undefined;
-		if (parts.length > 0) {
-			const remainder = parts.join('|').trim();
-			const widthMatch = remainder.match(/^(\d+)(?:px)?$/i);
-			if (widthMatch) {
-				widthOverride = parseInt(widthMatch[1], 10);
-			}
-		}
-
-		return {
-			target: sanitizedTarget,
-			widthOverride,
-		};
-	}
-
-	private parseStandardImageTarget(rawTarget: string): { target: string; widthOverride?: number } {
-		let targetPart = rawTarget.trim();
-
-		// Remove optional title component ("title")
-		const titleMatch = targetPart.match(/\s+"[^"]*"\s*$/);
-		if (titleMatch) {
-			targetPart = targetPart.slice(0, titleMatch.index).trim();
-		}
-
-		const segments = targetPart.split('|');
-		const target = segments.shift()?.trim() ?? '';
-		let widthOverride: number | undefined;
-
-		for (const segment of segments) {
-			const widthMatch = segment.trim().match(/^(\d+)(?:px)?$/i);
-			if (widthMatch) {
-				widthOverride = parseInt(widthMatch[1], 10);
-				break;
-			}
-		}
-
-		return { target, widthOverride };
-	}
-
-	private async createStandardImageParagraph(altText: string, rawTarget: string): Promise<Paragraph | null> {
-		const parsed = this.parseStandardImageTarget(rawTarget);
-		if (!parsed.target) {
-			return null;
-		}
-
-		const data = await this.loadImageData(parsed.target);
-		if (!data) {
-			return null;
-		}
-
-		return await this.buildImageParagraph(data, parsed.widthOverride);
-	}
-
-	private async loadImageData(target: string): Promise<ArrayBuffer | null> {
-		const trimmedTarget = target.trim();
-		if (/^https?:\/\//i.test(trimmedTarget)) {
-			if (typeof fetch === 'undefined') {
-				return null;
-			}
-			try {
-				const response = await fetch(trimmedTarget);
-				if (!response.ok) {
-					return null;
-				}
-				return await response.arrayBuffer();
-			} catch {
-				return null;
-			}
-		}
+	private appendFootnotes(paragraphs: (Paragraph | Table)[]) {
+		paragraphs.push(new Paragraph({ children: [] }));
+		paragraphs.push(this.createHeading({ type: 'heading', level: 2, content: [{ type: 'text', text: 'Footnotes', style: {} }] }));
 
-		if (this.resourceLoader) {
-			try {
-				return await this.resourceLoader(trimmedTarget);
-			} catch {
-				return null;
-			}
-		}
+		this.doc.footnotes.forEach((footnote, index) => {
+			footnote.paragraphs.forEach((paragraph, partIndex) => {
+				const children = [
+					...(partIndex === 0 ? [new TextRun({ text: `${index + 1}. `, bold: true })] : []),
+					...this.renderInlines(paragraph),
+				];
 
-		return null;
+				paragraphs.push(new Paragraph({
+					children,
+					indent: partIndex > 0 ? { left: convertInchesToTwip(0.25) } : undefined,
+					spacing: this.getLineSpacing(),
+				}));
+			});
+		});
 	}
 
-	private async buildImageParagraph(data: ArrayBuffer, widthOverride?: number): Promise<Paragraph> {
-		const dimensions = await this.getImageDimensions(data).catch(() => null);
-		let width = dimensions?.width ?? 400;
-		let height = dimensions?.height ?? 300;
-
-		if (widthOverride) {
-			if (dimensions && dimensions.width > 0) {
-				const ratio = dimensions.height / dimensions.width;
-				width = widthOverride;
-				height = Math.max(1, Math.round(widthOverride * ratio));
-			} else {
-				width = widthOverride;
-				height = widthOverride;
-			}
-		} else if (dimensions && dimensions.width > 0) {
-			const maxWidth = 680; // roughly 7 inches at 96 DPI
-			if (width > maxWidth) {
-				const ratio = dimensions.height / dimensions.width;
-				width = maxWidth;
-				height = Math.max(1, Math.round(maxWidth * ratio));
-			}
-		}
+	private createMetadataTable(entries: { key: string; value: Inline[] }[]): (Paragraph | Table)[] {
+		const totalWidth = this.getContentWidth();
+		const keyWidth = Math.round(totalWidth * 0.3);
+		const valueWidth = totalWidth - keyWidth;
 
-		return new Paragraph({
-			alignment: AlignmentType.CENTER,
+		const rows = entries.map(({ key, value }) => new TableRow({
 			children: [
-				new ImageRun({
-					data: new Uint8Array(data),
-					transformation: {
-						width: Math.max(1, Math.round(width)),
-						height: Math.max(1, Math.round(height)),
-					},
+				new TableCell({
+					children: [new Paragraph({ children: [this.createTextRun(key, { bold: true })] })],
+					width: { size: keyWidth, type: WidthType.DXA },
+					shading: { fill: 'F2F2F2' },
+				}),
+				new TableCell({
+					children: [new Paragraph({ children: this.renderInlines(value) })],
+					width: { size: valueWidth, type: WidthType.DXA },
 				}),
 			],
-		});
-	}
-
-	private async getImageDimensions(data: ArrayBuffer): Promise<{ width: number; height: number } | null> {
-		if (typeof Image === 'undefined' || typeof URL === 'undefined') {
-			return null;
-		}
-
-		return await new Promise((resolve) => {
-			const blob = new Blob([data]);
-			const url = URL.createObjectURL(blob);
-			const image = new Image();
-			image.onload = () => {
-				const width = image.naturalWidth || image.width;
-				const height = image.naturalHeight || image.height;
-				URL.revokeObjectURL(url);
-				resolve(width > 0 && height > 0 ? { width, height } : null);
-			};
-			image.onerror = () => {
-				URL.revokeObjectURL(url);
-				resolve(null);
-			};
-			image.src = url;
-		});
-	}
-
-	private extractFootnotes(markdown: string): { content: string; definitions: Map<string, string> } {
-		const lines = markdown.split('\n');
-		const filteredLines: string[] = [];
-		const definitions = new Map<string, string>();
-
-		for (let i = 0; i < lines.length; i++) {
-			const line = lines[i];
-			const match = line.match(/^\[\^([^\]]+)\]:\s*(.*)$/);
-			if (match) {
-				const label = match[1].trim();
-				const definitionParts: string[] = [];
-				if (match[2]) {
-					definitionParts.push(match[2].trim());
-				}
-
-				let j = i + 1;
-				while (j < lines.length && /^\s{2,}.+/.test(lines[j])) {
-					definitionParts.push(lines[j].trim());
-					j++;
-				}
-
-				definitions.set(label, definitionParts.join(' ').trim());
-				i = j - 1;
-			} else {
-				filteredLines.push(line);
-			}
-		}
+		}));
 
-		return { content: filteredLines.join('\n'), definitions };
+		const border = { style: BorderStyle.SINGLE, size: 4, color: 'BFBFBF' };
+		return [
+			new Table({
+				rows,
+				width: { size: totalWidth, type: WidthType.DXA },
+				columnWidths: [keyWidth, valueWidth],
+				layout: TableLayoutType.FIXED,
+				borders: {
+					top: border,
+					bottom: border,
+					left: border,
+					right: border,
+					insideHorizontal: border,
+					insideVertical: border,
+				},
+			}),
+			new Paragraph({ children: [] }),
+		];
 	}
+}
 
-	private appendFootnotes(paragraphs: (Paragraph | Table)[]) {
-		if (this.usedFootnotes.length === 0) {
-			return;
-		}
-
-		paragraphs.push(new Paragraph({ children: [] }));
-		paragraphs.push(this.createHeading('Footnotes', 2));
-
-		this.usedFootnotes.forEach((label, index) => {
-			const definition = this.footnoteDefinitions.get(label) || `[Missing footnote: ${label}]`;
-			const children = [
-				new TextRun({ text: `${index + 1}. `, bold: true }),
-				...this.parseInlineFormatting(definition, { allowFootnotes: false }),
-			];
-
-			paragraphs.push(new Paragraph({
-				children,
-				spacing: this.getLineSpacing(),
-			}));
-		});
-	}
+/**
+ * Writes the document as a .docx file.
+ */
+export async function writeDocx(doc: ExportDocument, settings: ToWordSettings, options: DocxOptions = {}): Promise<Blob> {
+	return await new DocxWriter(doc, settings, options).write();
 }
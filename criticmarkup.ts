@@ -0,0 +1,123 @@
+import type MarkdownIt from 'markdown-it';
+import type StateBlock from 'markdown-it/lib/rules_block/state_block';
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline';
+
+// CriticMarkup ({++ ++}, {-- --}, {~~ ~> ~~}, {== ==}, {>> <<}) and Obsidian
+// %% comments %%, tokenized so they can become revisions and Word comments.
+
+const CRITIC_MARKUP: Record<string, { close: string; type: string }> = {
+	'{++': { close: '++}', type: 'critic_insert' },
+	'{--': { close: '--}', type: 'critic_delete' },
+	'{~~': { close: '~~}', type: 'critic_substitute' },
+	'{==': { close: '==}', type: 'critic_highlight' },
+	'{>>': { close: '<<}', type: 'critic_comment' },
+};
+
+/**
+ * Parses src[start, end) as inline markdown between an open and a close
+ * token, so formatting inside an insertion or highlight is kept.
+ */
+function pushNested(state: StateInline, type: string, start: number, end: number) {
+	const posMax = state.posMax;
+	state.push(`${type}_open`, '', 1);
+	state.pos = start;
+	state.posMax = end;
+	state.md.inline.tokenize(state);
+	state.posMax = posMax;
+	state.push(`${type}_close`, '', -1);
+}
+
+/**
+ * markdown-it plugin for CriticMarkup and Obsidian comments. Insertions,
+ * deletions and highlights become open/close token pairs around their
+ * content (a substitution is a deletion followed by an insertion); comments
+ * become critic_comment or obsidian_comment tokens holding the raw text, and
+ * a %% comment %% on lines of its own a comment_block.
+ */
+export function markdownItCriticMarkup(md: MarkdownIt) {
+	md.block.ruler.before('paragraph', 'comment_block', (state: StateBlock, startLine: number, endLine: number, silent: boolean) => {
+		const getLine = (line: number) => state.src.slice(state.bMarks[line] + state.tShift[line], state.eMarks[line]).trim();
+		const firstLine = getLine(startLine);
+		const end = firstLine.indexOf('%%', 2);
+		// Text after the closing %% makes it an inline comment
+		if (state.sCount[startLine] - state.blkIndent >= 4 || !firstLine.startsWith('%%') || (end !== -1 && end !== firstLine.length - 2)) {
+			return false;
+		}
+		if (silent) {
+			return true;
+		}
+
+		const collected: string[] = [];
+		let line = startLine;
+		if (end !== -1) {
+			collected.push(firstLine.slice(2, -2));
+		} else {
+			collected.push(firstLine.slice(2));
+			for (line++; line < endLine && !getLine(line).endsWith('%%'); line++) {
+				collected.push(getLine(line));
+			}
+			if (line < endLine) {
+				collected.push(getLine(line).slice(0, -2));
+			}
+		}
+
+		const nextLine = Math.min(line + 1, endLine);
+		const token = state.push('comment_block', '', 0);
+		token.content = collected.join('\n').trim();
+		token.markup = '%%';
+		token.map = [startLine, nextLine];
+		state.line = nextLine;
+		return true;
+	}, { alt: ['paragraph', 'reference', 'blockquote', 'list'] });
+
+	md.inline.ruler.before('emphasis', 'critic_markup', (state: StateInline, silent: boolean) => {
+		const start = state.pos;
+		const markup = CRITIC_MARKUP[state.src.slice(start, start + 3)];
+		if (!markup) {
+			return false;
+		}
+
+		const end = state.src.indexOf(markup.close, start + 3);
+		if (end === -1) {
+			return false;
+		}
+
+		const separator = state.src.indexOf('~>', start + 3);
+		if (markup.type === 'critic_substitute' && (separator === -1 || separator > end)) {
+			return false;
+		}
+
+		if (!silent) {
+			if (markup.type === 'critic_comment') {
+				const token = state.push('critic_comment', '', 0);
+				token.content = state.src.slice(start + 3, end).trim();
+			} else if (markup.type === 'critic_substitute') {
+				pushNested(state, 'critic_delete', start + 3, separator);
+				pushNested(state, 'critic_insert', separator + 2, end);
+			} else {
+				pushNested(state, markup.type, start + 3, end);
+			}
+		}
+		state.pos = end + 3;
+		return true;
+	});
+
+	md.inline.ruler.before('emphasis', 'obsidian_comment', (state: StateInline, silent: boolean) => {
+		const start = state.pos;
+		if (!state.src.startsWith('%%', start)) {
+			return false;
+		}
+
+		const end = state.src.indexOf('%%', start + 2);
+		if (end === -1) {
+			return false;
+		}
+
+		if (!silent) {
+			const token = state.push('obsidian_comment', '', 0);
+			token.content = state.src.slice(start + 2, end).trim();
+		}
+		state.pos = end + 2;
+		return true;
+	});
+}
@@ -0,0 +1,87 @@
+import { App, htmlToMarkdown, MarkdownView } from 'obsidian';
+import { DiagramRenderer, InlineCodeRenderer } from './diagrams';
+
+// Freezes Dataview query results into the export, through the API of the
+// Dataview plugin when it is installed.
+
+type DataviewResult<T> = { successful: true; value: T } | { successful: false; error: string };
+
+// The parts of Dataview's plugin API used here
+interface DataviewApi {
+	settings: { inlineQueryPrefix: string };
+	value: { toString(value: unknown): string };
+	queryMarkdown(source: string, originFile: string): Promise<DataviewResult<string>>;
+	evaluateInline(expression: string, origin: string): DataviewResult<unknown>;
+}
+
+function getDataviewApi(app: App): DataviewApi | null {
+	const plugins = (app as unknown as { plugins?: { plugins?: Record<string, { api?: DataviewApi }> } }).plugins;
+	return plugins?.plugins?.dataview?.api ?? null;
+}
+
+/**
+ * Runs ```dataview TABLE, LIST and TASK queries for the exported note and
+ * returns the results as markdown.
+ */
+export function createDataviewRenderer(app: App): DiagramRenderer {
+	return async (source, language, context) => {
+		const mode = context.settings.dataviewExport;
+		const api = getDataviewApi(app);
+		if (mode === 'source' || !api) {
+			return null;
+		}
+		const result = await api.queryMarkdown(source, context.sourcePath);
+		if (!result.successful) {
+			console.warn('Dataview query failed:', result.error);
+			return null;
+		}
+		return { markdown: result.value, keepSource: mode === 'both' };
+	};
+}
+
+/**
+ * DataviewJS can only run inside a rendered note, so its results are taken
+ * from the note's reading view when it is open.
+ */
+export function createDataviewJsRenderer(app: App): DiagramRenderer {
+	return async (source, language, context) => {
+		const mode = context.settings.dataviewExport;
+		if (mode === 'source') {
+			return null;
+		}
+		const block = findPreviewElements(app, context.sourcePath, '.block-language-dataviewjs')[context.index];
+		const markdown = block ? htmlToMarkdown(block).trim() : '';
+		return markdown ? { markdown, keepSource: mode === 'both' } : null;
+	};
+}
+
+/**
+ * Evaluates inline `= expression` queries in the context of the exported note.
+ */
+export function createInlineQueryRenderer(app: App): InlineCodeRenderer {
+	return async (code, context) => {
+		const api = getDataviewApi(app);
+		if (context.settings.dataviewExport === 'source' || !api) {
+			return null;
+		}
+		const prefix = api.settings?.inlineQueryPrefix || '=';
+		if (!code.startsWith(prefix)) {
+			return null;
+		}
+		const result = api.evaluateInline(code.slice(prefix.length).trim(), context.sourcePath);
+		return result.successful ? api.value.toString(result.value) : null;
+	};
+}
+
+function findPreviewElements(app: App, sourcePath: string, selector: string): HTMLElement[] {
+	for (const leaf of app.workspace.getLeavesOfType('markdown')) {
+		const view = leaf.view;
+		if (view instanceof MarkdownView && view.file?.path === sourcePath) {
+			const elements = view.previewMode.containerEl.querySelectorAll<HTMLElement>(selector);
+			if (elements.length > 0) {
+				return Array.from(elements);
+			}
+		}
+	}
+	return [];
+}
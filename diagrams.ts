@@ -0,0 +1,225 @@
+import { spawn } from 'child_process';
+import { loadMermaid } from 'obsidian';
+
+// Renders diagram code blocks (```mermaid, ```plantuml, ...) to images, or
+// query blocks (```dataview) to markdown. Each language has its own renderer;
+// blocks without one stay code blocks.
+
+export interface RenderedDiagram {
+	/** PNG image data */
+	data: ArrayBuffer;
+	/** Width on the page in pixels at 96 DPI, when the image is rendered at a higher resolution */
+	width?: number;
+}
+
+export interface RenderedMarkdown {
+	/** Markdown exported in place of the block, e.g. the results of a query */
+	markdown: string;
+	/** Export the block's source as code after the markdown */
+	keepSource?: boolean;
+}
+
+interface ToWordSettings {
+	renderDiagrams: boolean;
+	diagramDpi: number;
+	plantumlCommand: string;
+	dataviewExport: 'results' | 'source' | 'both';
+}
+
+export interface RenderContext {
+	/** Path of the note being exported */
+	sourcePath: string;
+	/** How many blocks of the same language come before this one in the note */
+	index: number;
+	/** Settings of the export, which may be a profile's rather than the active ones */
+	settings: ToWordSettings;
+}
+
+/**
+ * Renders the source of a code block, or returns null to export it as code.
+ */
+export type DiagramRenderer = (source: string, language: string, context: RenderContext) => Promise<RenderedDiagram | RenderedMarkdown | null>;
+
+/**
+ * Replaces inline code, e.g. `= this.file.name`, with markdown, or returns
+ * null to leave it as code.
+ */
+export type InlineCodeRenderer = (code: string, context: RenderContext) => Promise<string | null>;
+
+export class DiagramRegistry {
+	private renderers: Map<string, DiagramRenderer> = new Map();
+	private inlineRenderers: InlineCodeRenderer[] = [];
+
+	register(languages: string | string[], renderer: DiagramRenderer) {
+		for (const language of Array.isArray(languages) ? languages : [languages]) {
+			this.renderers.set(language.toLowerCase(), renderer);
+		}
+	}
+
+	unregister(language: string) {
+		this.renderers.delete(language.toLowerCase());
+	}
+
+	get(language: string): DiagramRenderer | undefined {
+		return this.renderers.get(language.toLowerCase());
+	}
+
+	registerInline(renderer: InlineCodeRenderer) {
+		this.inlineRenderers.push(renderer);
+	}
+
+	hasInlineRenderers(): boolean {
+		return this.inlineRenderers.length > 0;
+	}
+
+	/**
+	 * Asks each inline renderer in turn; the first result wins.
+	 */
+	async renderInline(code: string, context: RenderContext): Promise<string | null> {
+		for (const renderer of this.inlineRenderers) {
+			const result = await renderer(code, context);
+			if (result !== null) {
+				return result;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Replaces inline code that an inline renderer resolves, such as Dataview's
+	 * `= this.file.name`, with its result. Code blocks are left alone.
+	 */
+	async renderInlineCode(markdown: string, sourcePath: string, settings: ToWordSettings): Promise<string> {
+		if (!this.hasInlineRenderers()) {
+			return markdown;
+		}
+
+		const lines = markdown.split('\n');
+		let inCodeBlock = false;
+		let index = 0;
+		for (let i = 0; i < lines.length; i++) {
+			if (/^\s*(```|~~~)/.test(lines[i])) {
+				inCodeBlock = !inCodeBlock;
+				continue;
+			}
+			if (inCodeBlock || !lines[i].includes('`')) {
+				continue;
+			}
+			// Odd parts are the inline code spans
+			const parts = lines[i].split(/(`[^`]+`)/);
+			for (let j = 1; j < parts.length; j += 2) {
+				const rendered = await this.renderInline(parts[j].slice(1, -1), { sourcePath, index: index++, settings });
+				if (rendered !== null) {
+					parts[j] = rendered;
+				}
+			}
+			lines[i] = parts.join('');
+		}
+		return lines.join('\n');
+	}
+}
+
+let mermaidCount = 0;
+
+/**
+ * Renders Mermaid with the copy bundled in Obsidian, in an element off screen
+ * so text can be measured without showing the diagram.
+ */
+export function createMermaidRenderer(): DiagramRenderer {
+	return async (source, language, context) => {
+		const mermaid = await loadMermaid();
+		const container = document.body.createDiv();
+		container.setCssStyles({ position: 'absolute', left: '-10000px', top: '0' });
+		try {
+			// A canvas cannot export SVG with HTML labels (foreignObject), so ask for SVG
+			// text, and use the light theme since the page is white even in dark mode
+			const directive = source.trimStart().startsWith('%%{')
+				? ''
+				: '%%{init: {"theme": "default", "htmlLabels": false, "flowchart": {"htmlLabels": false}}}%%\n';
+			const result = await mermaid.render(`export-to-word-mermaid-${++mermaidCount}`, directive + source, container);
+			// Mermaid 10 and later return { svg }, older versions the markup itself
+			const svg = typeof result === 'string' ? result : result.svg;
+			return await rasterizeSvg(svg, context.settings.diagramDpi);
+		} finally {
+			container.remove();
+		}
+	};
+}
+
+/**
+ * Runs a local command with the diagram source on stdin and rasterizes the SVG
+ * it writes to stdout, e.g. "plantuml -tsvg -pipe".
+ */
+export function createCommandRenderer(getCommand: (settings: ToWordSettings) => string): DiagramRenderer {
+	return async (source, language, context) => {
+		const command = getCommand(context.settings).trim();
+		if (!command) {
+			return null;
+		}
+		const svg = await runCommand(command, source);
+		return await rasterizeSvg(svg, context.settings.diagramDpi);
+	};
+}
+
+function runCommand(command: string, input: string): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const child = spawn(command, { shell: true });
+		let output = '';
+		let errors = '';
+		child.stdout.on('data', (chunk) => output += chunk);
+		child.stderr.on('data', (chunk) => errors += chunk);
+		child.on('error', reject);
+		child.on('close', (code) => {
+			if (code === 0) {
+				resolve(output);
+			} else {
+				reject(new Error(`${command} exited with code ${code}: ${errors.trim()}`));
+			}
+		});
+		child.stdin.end(input);
+	});
+}
+
+/**
+ * Draws an SVG onto a canvas at the given DPI and returns it as PNG.
+ */
+export async function rasterizeSvg(svg: string, dpi: number): Promise<RenderedDiagram | null> {
+	const element = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+	if (element.nodeName !== 'svg') {
+		return null;
+	}
+
+	// Diagrams are often sized to 100% of their container; use the viewBox instead
+	const viewBox = (element.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+	const width = viewBox.length === 4 && viewBox[2] > 0 ? viewBox[2] : parseFloat(element.getAttribute('width') ?? '');
+	const height = viewBox.length === 4 && viewBox[3] > 0 ? viewBox[3] : parseFloat(element.getAttribute('height') ?? '');
+	if (!(width > 0) || !(height > 0)) {
+		return null;
+	}
+	element.setAttribute('width', `${width}`);
+	element.setAttribute('height', `${height}`);
+	element.removeAttribute('style');
+
+	const scale = Math.max(dpi, 1) / 96;
+	const image = new Image();
+	await new Promise<void>((resolve, reject) => {
+		image.onload = () => resolve();
+		image.onerror = () => reject(new Error('Could not load the diagram SVG'));
+		image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(element))}`;
+	});
+
+	const canvas = document.createElement('canvas');
+	canvas.width = Math.round(width * scale);
+	canvas.height = Math.round(height * scale);
+	const context = canvas.getContext('2d');
+	if (!context) {
+		return null;
+	}
+	// Word shows transparent areas on a white page anyway, but other viewers may not
+	context.fillStyle = '#ffffff';
+	context.fillRect(0, 0, canvas.width, canvas.height);
+	context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+	const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+	return blob ? { data: await blob.arrayBuffer(), width: Math.round(width) } : null;
+}
@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+// Saving exports outside the vault, with Node's fs and Electron's file
+// dialogs. Both need the desktop app.
+
+// The parts of Electron's dialog module used here
+interface FileDialog {
+	showSaveDialog(options: Record<string, unknown>): Promise<{ canceled: boolean; filePath?: string }>;
+	showOpenDialog(options: Record<string, unknown>): Promise<{ canceled: boolean; filePaths: string[] }>;
+}
+
+function getDialog(): FileDialog | null {
+	try {
+		// eslint-disable-next-line @typescript-eslint/no-var-requires
+		const electron = require('electron');
+		return electron.remote?.dialog ?? null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Asks where to save a file, starting at defaultPath. Returns the chosen
+ * path, or null if the dialog was cancelled.
+ */
+export async function showSaveDialog(defaultPath: string, extension: string, formatName: string): Promise<string | null> {
+	const dialog = getDialog();
+	if (!dialog) {
+		throw new Error('The save dialog is only available in the Obsidian desktop app');
+	}
+	const result = await dialog.showSaveDialog({
+		defaultPath,
+		filters: [{ name: formatName, extensions: [extension] }],
+		properties: ['createDirectory', 'showOverwriteConfirmation'],
+	});
+	return result.canceled || !result.filePath ? null : result.filePath;
+}
+
+/**
+ * Asks for a folder, starting at defaultPath. Returns the chosen folder, or
+ * null if the dialog was cancelled.
+ */
+export async function showFolderDialog(defaultPath: string): Promise<string | null> {
+	const dialog = getDialog();
+	if (!dialog) {
+		throw new Error('The folder dialog is only available in the Obsidian desktop app');
+	}
+	const result = await dialog.showOpenDialog({
+		defaultPath,
+		properties: ['openDirectory', 'createDirectory'],
+	});
+	return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+}
+
+export async function externalFileExists(path: string): Promise<boolean> {
+	try {
+		await fs.access(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Writes a file at an absolute path, creating its folder if needed.
+ */
+export async function writeExternalFile(path: string, data: ArrayBuffer): Promise<void> {
+	await fs.mkdir(dirname(path), { recursive: true });
+	await fs.writeFile(path, new Uint8Array(data));
+}
@@ -0,0 +1,48 @@
+import { BuilderElement, ParagraphChild, Run, XmlAttributeComponent, XmlComponent } from 'docx';
+
+// Complex Word fields (w:fldChar begin/separate/end) with a cached result, so the
+// document shows sensible content even in viewers that never update fields.
+
+class FieldInstructionAttributes extends XmlAttributeComponent<{ readonly space: string }> {
+	protected readonly xmlKeys = { space: 'xml:space' };
+}
+
+class FieldInstructionText extends XmlComponent {
+	constructor(instruction: string) {
+		super('w:instrText');
+		this.root.push(new FieldInstructionAttributes({ space: 'preserve' }));
+		this.root.push(` ${instruction} `);
+	}
+}
+
+const createFieldCharacter = (type: 'begin' | 'separate' | 'end', dirty = false) =>
+	new BuilderElement<{ type: string; dirty?: boolean }>({
+		name: 'w:fldChar',
+		attributes: dirty
+			? { type: { key: 'w:fldCharType', value: type }, dirty: { key: 'w:dirty', value: true } }
+			: { type: { key: 'w:fldCharType', value: type } },
+	});
+
+/**
+ * Runs that open a field and start its result. Anything placed after these
+ * runs, up to createFieldEnd(), is the cached result Word replaces on update.
+ * The field is marked dirty so Word refreshes it when the document opens.
+ */
+export function createFieldStart(instruction: string): Run[] {
+	return [
+		new Run({ children: [createFieldCharacter('begin', true)] }),
+		new Run({ children: [new FieldInstructionText(instruction)] }),
+		new Run({ children: [createFieldCharacter('separate')] }),
+	];
+}
+
+export function createFieldEnd(): Run {
+	return new Run({ children: [createFieldCharacter('end')] });
+}
+
+/**
+ * An inline field, e.g. REF or SEQ, with its cached result.
+ */
+export function createField(instruction: string, result: ParagraphChild[]): ParagraphChild[] {
+	return [...createFieldStart(instruction), ...result, createFieldEnd()];
+}
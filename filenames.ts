@@ -0,0 +1,78 @@
+import { moment } from 'obsidian';
+import { formatFrontmatterValue, getDocumentProperties } from './notes';
+
+// Names of exported files, from a template such as "{basename} {date:YYYY-MM-DD}",
+// made safe to use on Windows as well as macOS and Linux.
+
+export interface FilenameValues {
+	/** Name of the note or folder being exported */
+	basename: string;
+	/** Name of the folder the note or folder is in */
+	folder: string;
+	frontmatter: Record<string, unknown>;
+	/** Number for {version}, counting up from 1 to the first name not taken */
+	version?: number;
+}
+
+// Device names Windows reserves, with or without an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+const MAX_FILENAME_LENGTH = 200;
+
+/**
+ * Formats the current date and time with a moment.js format. Obsidian types
+ * its moment as the module namespace, which is not callable under
+ * esModuleInterop, although the function is what it exports.
+ */
+export function formatNow(format: string): string {
+	return (moment as unknown as () => { format(format: string): string })().format(format);
+}
+
+export function sanitizeFilename(name: string): string {
+	let sanitized = name
+		// eslint-disable-next-line no-control-regex
+		.replace(/[<>:"/\\|?*\u0000-\u001F]/g, '-')
+		.replace(/\s+/g, ' ')
+		.trim()
+		// Windows drops trailing dots and spaces
+		.replace(/[. ]+$/, '');
+	if (RESERVED_NAMES.test(sanitized)) {
+		sanitized = `${sanitized}_`;
+	}
+	return sanitized.slice(0, MAX_FILENAME_LENGTH).trim();
+}
+
+/**
+ * Fills in a filename template. Placeholders are {basename}, {folder},
+ * {title}, {author}, {date} and {time} with an optional moment.js format
+ * ({date:YYYY-MM-DD}, {time:HH-mm}), {version} and any frontmatter key.
+ */
+export function formatFilename(template: string, values: FilenameValues): string {
+	const properties = getDocumentProperties(values.frontmatter, values.basename);
+	const frontmatter: Record<string, string> = {};
+	for (const [key, value] of Object.entries(values.frontmatter)) {
+		frontmatter[key.toLowerCase()] = formatFrontmatterValue(value);
+	}
+
+	const name = template.replace(/\{\s*([^{}:]+?)\s*(?::([^{}]*))?\}/g, (placeholder, rawKey: string, format?: string) => {
+		const key = rawKey.toLowerCase();
+		switch (key) {
+			case 'basename':
+				return values.basename;
+			case 'folder':
+				return values.folder;
+			case 'title':
+				return properties.title;
+			case 'author':
+				return properties.creator ?? '';
+			case 'date':
+				return formatNow(format || 'YYYY-MM-DD');
+			case 'time':
+				return formatNow(format || 'HH-mm-ss');
+			case 'version':
+				return String(values.version ?? 1);
+			default:
+				return frontmatter[key] ?? '';
+		}
+	});
+	return sanitizeFilename(name) || sanitizeFilename(values.basename) || 'Untitled';
+}
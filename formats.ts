@@ -0,0 +1,56 @@
+import type { ExportDocument } from './model';
+import { DocxOptions, writeDocx } from './converter';
+import { writeHtml } from './html';
+import { writeOdt } from './odt';
+import { writeRtf } from './rtf';
+import { printHtmlToPdf } from './pdf';
+import type { MarginPreset, PageSize } from './layout';
+
+// The formats notes can be exported to, all written from the document model.
+
+export type ExportFormat = 'docx' | 'odt' | 'rtf' | 'html' | 'pdf';
+
+// Only Word renders equations; the other formats show their LaTeX source.
+export const EXPORT_FORMATS: Record<ExportFormat, { name: string; extension: string; description: string }> = {
+	docx: { name: 'Word', extension: 'docx', description: 'Every feature, with equations as Word equations' },
+	odt: { name: 'OpenDocument', extension: 'odt', description: 'For LibreOffice and Word; equations are written as LaTeX source' },
+	rtf: { name: 'RTF', extension: 'rtf', description: 'Only PNG and JPEG images are embedded; equations are written as LaTeX source' },
+	html: { name: 'HTML', extension: 'html', description: 'A single file with images inlined; equations are written as LaTeX source' },
+	pdf: { name: 'PDF', extension: 'pdf', description: 'The HTML export printed to PDF, desktop only; equations are written as LaTeX source' },
+};
+
+interface ToWordSettings {
+	defaultFontFamily: string;
+	defaultFontSize: number;
+	pageSize: PageSize;
+	orientation: 'portrait' | 'landscape';
+	marginPreset: MarginPreset;
+	marginTop: number;
+	marginRight: number;
+	marginBottom: number;
+	marginLeft: number;
+}
+
+/**
+ * Writes the document model in one of the formats. The options are only used for Word.
+ */
+export async function writeDocument(
+	doc: ExportDocument,
+	format: ExportFormat,
+	settings: ToWordSettings & Parameters<typeof writeDocx>[1],
+	options: DocxOptions = {},
+): Promise<ArrayBuffer> {
+	switch (format) {
+		case 'docx':
+			return await (await writeDocx(doc, settings, options)).arrayBuffer();
+		case 'odt':
+			return await (await writeOdt(doc, settings)).arrayBuffer();
+		case 'rtf':
+			// RTF escapes everything outside ASCII, so the bytes are the characters
+			return new TextEncoder().encode(writeRtf(doc, settings)).buffer as ArrayBuffer;
+		case 'html':
+			return new TextEncoder().encode(writeHtml(doc, settings)).buffer as ArrayBuffer;
+		case 'pdf':
+			return await printHtmlToPdf(writeHtml(doc, settings), settings);
+	}
+}
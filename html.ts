@@ -0,0 +1,288 @@
+import { Block, BlockCaption, ExportDocument, getHeadings, ImageData, Inline, InlineStyle } from './model';
+import { CAPTION_NAMES } from './captions';
+import type { ListFormat } from './lists';
+import { getPageLayout, MarginPreset, PageSize } from './layout';
+
+// Writes an ExportDocument as a single HTML file. Images are inlined as data
+// URIs and the page setup goes into an @page rule, so the file prints (and
+// converts to PDF) the way the Word export lays out.
+
+interface ToWordSettings {
+	defaultFontFamily: string;
+	defaultFontSize: number;
+	pageSize: PageSize;
+	orientation: 'portrait' | 'landscape';
+	marginPreset: MarginPreset;
+	marginTop: number;
+	marginRight: number;
+	marginBottom: number;
+	marginLeft: number;
+	tocMinLevel: number;
+	tocMaxLevel: number;
+	figureCaptionPosition: 'above' | 'below';
+	tableCaptionPosition: 'above' | 'below';
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	gif: 'image/gif',
+	bmp: 'image/bmp',
+};
+
+const LIST_TYPES: Record<Exclude<ListFormat, 'bullet' | 'decimal'>, string> = {
+	lowerLetter: 'a',
+	upperLetter: 'A',
+	lowerRoman: 'i',
+	upperRoman: 'I',
+};
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+function toBase64(data: ArrayBuffer): string {
+	const bytes = new Uint8Array(data);
+	let binary = '';
+	// Chunked, as String.fromCharCode takes a limited number of arguments
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+	}
+	return btoa(binary);
+}
+
+function wrapStyle(html: string, style: InlineStyle): string {
+	if (style.code) html = `<code>${html}</code>`;
+	if (style.bold) html = `<strong>${html}</strong>`;
+	if (style.italic) html = `<em>${html}</em>`;
+	if (style.underline) html = `<u>${html}</u>`;
+	if (style.strike) html = `<s>${html}</s>`;
+	if (style.highlight) html = `<mark>${html}</mark>`;
+	if (style.superscript) html = `<sup>${html}</sup>`;
+	if (style.subscript) html = `<sub>${html}</sub>`;
+	if (style.color) html = `<span style="color: #${style.color}">${html}</span>`;
+	return html;
+}
+
+function writeImage(image: ImageData): string {
+	const src = `data:${IMAGE_MIME_TYPES[image.type]};base64,${toBase64(image.data)}`;
+	return `<img src="${src}" width="${image.width}" height="${image.height}" alt="${escapeHtml(image.alt)}">`;
+}
+
+class HtmlWriter {
+	private settings: ToWordSettings;
+	private doc: ExportDocument;
+
+	constructor(doc: ExportDocument, settings: ToWordSettings) {
+		this.doc = doc;
+		this.settings = settings;
+	}
+
+	write(): string {
+		const { properties } = this.doc;
+		const meta = [
+			properties.author ? `<meta name="author" content="${escapeHtml(properties.author)}">` : '',
+			properties.description ? `<meta name="description" content="${escapeHtml(properties.description)}">` : '',
+			properties.keywords ? `<meta name="keywords" content="${escapeHtml(properties.keywords)}">` : '',
+		].filter(line => line).join('\n');
+
+		const footnotes = this.doc.footnotes.length > 0
+			? `<section class="footnotes">\n<hr>\n<ol>\n${this.doc.footnotes.map((footnote, index) => {
+				const number = index + 1;
+				const paragraphs = footnote.paragraphs.map(paragraph => this.writeInlines(paragraph)).join('<br>\n');
+				return `<li id="fn${number}">${paragraphs} <a href="#fnref${number}">↩</a></li>`;
+			}).join('\n')}\n</ol>\n</section>`
+			: '';
+
+		return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(properties.title)}</title>
+${meta}
+<style>
+${writeStyles(this.settings)}
+</style>
+</head>
+<body>
+${this.writeBlocks(this.doc.blocks)}
+${footnotes}
+</body>
+</html>
+`;
+	}
+
+	private writeInlines(inlines: Inline[]): string {
+		return inlines.map(inline => {
+			switch (inline.type) {
+				case 'break':
+					return '<br>';
+				case 'footnote': {
+					const number = inline.index + 1;
+					return `<sup class="footnote-ref"><a href="#fn${number}" id="fnref${number}">${number}</a></sup>`;
+				}
+				case 'text': {
+					// Tracked changes are shown accepted
+					if (inline.style.revision === 'delete') {
+						return '';
+					}
+					const html = wrapStyle(escapeHtml(inline.text), inline.style);
+					const href = inline.link ?? (inline.anchor ? `#${inline.anchor}` : undefined);
+					return href ? `<a href="${escapeHtml(href)}">${html}</a>` : html;
+				}
+				case 'math':
+					return `<code class="math">${escapeHtml(inline.latex)}</code>`;
+				case 'image':
+					return writeImage(inline.image);
+				case 'reference': {
+					const target = this.doc.labels[inline.label];
+					if (!target) {
+						return wrapStyle(escapeHtml(inline.text), inline.style);
+					}
+					return `<a href="#${escapeHtml(target.id)}">${wrapStyle(`${CAPTION_NAMES[target.kind]} ${target.number}`, inline.style)}</a>`;
+				}
+				case 'comment':
+					return this.writeInlines(inline.content);
+			}
+		}).join('');
+	}
+
+	private writeBlocks(blocks: Block[]): string {
+		return blocks.map(block => this.writeBlock(block)).filter(html => html).join('\n');
+	}
+
+	private writeBlock(block: Block): string {
+		switch (block.type) {
+			case 'heading':
+				return `<h${block.level}${this.writeId(block.id)}>${this.writeInlines(block.content)}</h${block.level}>`;
+			case 'paragraph':
+				return `<p${this.writeId(block.id)}>${this.writeInlines(block.content)}</p>`;
+			case 'code': {
+				const language = block.language ? ` class="language-${escapeHtml(block.language)}"` : '';
+				return `<pre><code${language}>${escapeHtml(block.lines.join('\n'))}</code></pre>`;
+			}
+			case 'math':
+				return `<pre class="math"><code>${escapeHtml(block.latex)}</code></pre>`;
+			case 'quote':
+				return `<blockquote>\n${this.writeBlocks(block.blocks)}\n</blockquote>`;
+			case 'callout':
+				return `<blockquote class="callout">\n<p><strong>${this.writeInlines(block.title)}</strong></p>\n${this.writeBlocks(block.blocks)}\n</blockquote>`;
+			case 'list': {
+				const items = block.items.map(item => {
+					const checkbox = item.checked === undefined ? '' : `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `;
+					// The first paragraph of an item goes on the marker's line
+					const [first, ...rest] = item.blocks;
+					const lead = first?.type === 'paragraph' ? this.writeInlines(first.content) : first ? `\n${this.writeBlock(first)}` : '';
+					const body = rest.length > 0 ? `\n${this.writeBlocks(rest)}\n` : '';
+					return `<li${checkbox ? ' class="task"' : ''}>${checkbox}${lead}${body}</li>`;
+				}).join('\n');
+				if (block.format === 'bullet') {
+					return `<ul>\n${items}\n</ul>`;
+				}
+				const type = block.format === 'decimal' ? '' : ` type="${LIST_TYPES[block.format]}"`;
+				const start = block.start !== 1 ? ` start="${block.start}"` : '';
+				return `<ol${type}${start}>\n${items}\n</ol>`;
+			}
+			case 'table': {
+				const [header, ...body] = block.rows;
+				const cell = (tag: string, content: Inline[], column: number) => {
+					const align = block.alignments[column];
+					return `<${tag}${align ? ` style="text-align: ${align}"` : ''}>${this.writeInlines(content)}</${tag}>`;
+				};
+				const head = header ? `<thead>\n<tr>${header.map((content, column) => cell('th', content, column)).join('')}</tr>\n</thead>` : '';
+				const rows = body.map(row => `<tr>${row.map((content, column) => cell('td', content, column)).join('')}</tr>`).join('\n');
+				return this.withCaption(`<table>\n${head}\n<tbody>\n${rows}\n</tbody>\n</table>`, block.caption);
+			}
+			case 'image': {
+				const image = block.image ? writeImage(block.image) : escapeHtml(`[Image not found: ${block.alt}]`);
+				return this.withCaption(`<p class="image">${image}</p>`, block.caption);
+			}
+			case 'definition':
+				return `<dl>\n<dt>${this.writeInlines(block.term)}</dt>\n<dd>${this.writeInlines(block.definition)}</dd>\n</dl>`;
+			case 'details':
+				return `<details open>\n<summary>${this.writeInlines(block.summary)}</summary>\n${this.writeBlocks(block.blocks)}\n</details>`;
+			case 'embed':
+				return this.writeBlocks(block.blocks);
+			case 'metadata': {
+				const rows = block.entries.map(entry => `<tr><th>${escapeHtml(entry.key)}</th><td>${this.writeInlines(entry.value)}</td></tr>`).join('\n');
+				return `<table class="properties">\n<tbody>\n${rows}\n</tbody>\n</table>`;
+			}
+			case 'toc':
+				return this.writeTableOfContents();
+			case 'anchor':
+				return `<a id="${escapeHtml(block.id)}"></a>`;
+			case 'rule':
+				return '<hr>';
+			case 'pagebreak':
+				return '<div class="page-break"></div>';
+			case 'section':
+			case 'comment':
+			case 'blank':
+				return '';
+		}
+	}
+
+	private writeId(id?: string): string {
+		return id ? ` id="${escapeHtml(id)}"` : '';
+	}
+
+	private withCaption(html: string, caption?: BlockCaption): string {
+		if (!caption) {
+			return html;
+		}
+		const name = `${CAPTION_NAMES[caption.kind]} ${caption.number}`;
+		const text = caption.content.length > 0 ? `${name}: ${this.writeInlines(caption.content)}` : name;
+		const paragraph = `<p class="caption ${caption.kind}"${this.writeId(caption.id)}>${text}</p>`;
+		const position = caption.kind === 'figure' ? this.settings.figureCaptionPosition : this.settings.tableCaptionPosition;
+		return position === 'above' ? `${paragraph}\n${html}` : `${html}\n${paragraph}`;
+	}
+
+	// Links to the headings within the levels of the table of contents
+	private writeTableOfContents(): string {
+		const minLevel = Math.max(1, Math.min(this.settings.tocMinLevel, 6));
+		const maxLevel = Math.max(minLevel, Math.min(this.settings.tocMaxLevel, 6));
+		const entries = getHeadings(this.doc.blocks)
+			.filter(heading => heading.level >= minLevel && heading.level <= maxLevel)
+			.map(heading => {
+				const text = escapeHtml(heading.text);
+				return `<li style="margin-left: ${(heading.level - minLevel) * 1.5}em">${heading.id ? `<a href="#${escapeHtml(heading.id)}">${text}</a>` : text}</li>`;
+			});
+		return entries.length > 0 ? `<nav class="toc">\n<ul>\n${entries.join('\n')}\n</ul>\n</nav>` : '';
+	}
+}
+
+function writeStyles(settings: ToWordSettings): string {
+	const page = getPageLayout(settings);
+	const { margins } = page;
+	return `@page { size: ${page.width}in ${page.height}in; margin: ${margins.top}in ${margins.right}in ${margins.bottom}in ${margins.left}in; }
+body { font-family: "${settings.defaultFontFamily}", sans-serif; font-size: ${settings.defaultFontSize}pt; line-height: 1.4; max-width: ${page.contentWidth}in; margin: 2em auto; color: #000; }
+@media print { body { max-width: none; margin: 0; } }
+code, pre { font-family: Consolas, "Courier New", monospace; font-size: 0.9em; }
+pre { background: #f5f5f5; padding: 0.6em; white-space: pre-wrap; }
+blockquote { border-left: 3px solid #ccc; margin-left: 0; padding-left: 1em; color: #333; }
+table { border-collapse: collapse; margin: 0.6em 0; }
+th, td { border: 1px solid #bfbfbf; padding: 0.25em 0.5em; vertical-align: top; }
+th { background: #f2f2f2; }
+table.properties th { text-align: left; }
+blockquote.callout { border-left-color: #086ddd; }
+p.caption { font-style: italic; color: #44546a; }
+p.caption.figure { text-align: center; }
+nav.toc ul { list-style: none; padding-left: 0; }
+li.task { list-style: none; }
+p.image { text-align: center; }
+img { max-width: 100%; height: auto; }
+mark { background: #ffff00; }
+.page-break { break-after: page; page-break-after: always; }
+.footnotes { font-size: 0.9em; }`;
+}
+
+/**
+ * Writes the document as HTML with its footnotes as a numbered list at the end.
+ */
+export function writeHtml(doc: ExportDocument, settings: ToWordSettings): string {
+	return new HtmlWriter(doc, settings).write();
+}
@@ -0,0 +1,146 @@
+// Images in notes: the parts of ![[image.png|alt|300]] and ![alt](image.png|300 "title")
+// links, and the type and size of the image data they point to.
+
+export type ImageType = 'png' | 'jpg' | 'gif' | 'bmp';
+
+export const MAX_IMAGE_WIDTH = 680; // roughly 7 inches at 96 DPI
+
+export function getImageType(data: ArrayBuffer): ImageType | null {
+	const bytes = new Uint8Array(data.slice(0, 4));
+	if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47) return 'png';
+	if (bytes[0] === 0xFF && bytes[1] === 0xD8) return 'jpg';
+	if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return 'gif';
+	if (bytes[0] === 0x42 && bytes[1] === 0x4D) return 'bmp';
+	return null;
+}
+
+export async function getImageDimensions(data: ArrayBuffer): Promise<{ width: number; height: number } | null> {
+	if (typeof Image === 'undefined' || typeof URL === 'undefined') {
+		return null;
+	}
+
+	return await new Promise((resolve) => {
+		const blob = new Blob([data]);
+		const url = URL.createObjectURL(blob);
+		const image = new Image();
+		image.onload = () => {
+			const width = image.naturalWidth || image.width;
+			const height = image.naturalHeight || image.height;
+			URL.revokeObjectURL(url);
+			resolve(width > 0 && height > 0 ? { width, height } : null);
+		};
+		image.onerror = () => {
+			URL.revokeObjectURL(url);
+			resolve(null);
+		};
+		image.src = url;
+	});
+}
+
+/**
+ * The size in pixels to show an image at: the width given in its link, or
+ * else its own width up to the width of the page, with the height to scale.
+ */
+export async function getImageSize(data: ArrayBuffer, widthOverride?: number): Promise<{ width: number; height: number }> {
+	const dimensions = await getImageDimensions(data).catch(() => null);
+	let width = dimensions?.width ?? 400;
+	let height = dimensions?.height ?? 300;
+
+	if (widthOverride) {
+		if (dimensions && dimensions.width > 0) {
+			const ratio = dimensions.height / dimensions.width;
+			width = widthOverride;
+			height = Math.max(1, Math.round(widthOverride * ratio));
+		} else {
+			width = widthOverride;
+			height = widthOverride;
+		}
+	} else if (dimensions && dimensions.width > 0) {
+		if (width > MAX_IMAGE_WIDTH) {
+			const ratio = dimensions.height / dimensions.width;
+			width = MAX_IMAGE_WIDTH;
+			height = Math.max(1, Math.round(MAX_IMAGE_WIDTH * ratio));
+		}
+	}
+
+	return { width: Math.max(1, Math.round(width)), height: Math.max(1, Math.round(height)) };
+}
+
+/**
+ * Loads an image from a web URL, or from the vault through `resourceLoader`.
+ */
+export async function loadImageData(target: string, resourceLoader?: (link: string) => Promise<ArrayBuffer | null>): Promise<ArrayBuffer | null> {
+	const trimmedTarget = target.trim();
+	if (/^https?:\/\//i.test(trimmedTarget)) {
+		if (typeof fetch === 'undefined') {
+			return null;
+		}
+		try {
+			const response = await fetch(trimmedTarget);
+			if (!response.ok) {
+				return null;
+			}
+			return await response.arrayBuffer();
+		} catch {
+			return null;
+		}
+	}
+
+	if (resourceLoader) {
+		try {
+			return await resourceLoader(trimmedTarget);
+		} catch {
+			return null;
+		}
+	}
+
+	return null;
+}
+
+export function parseEmbeddedImageLink(rawLink: string): { target: string; widthOverride?: number; alt?: string } {
+	const parts = rawLink.split('|');
+	const targetPart = parts.shift()?.trim() ?? '';
+	const sanitizedTarget = targetPart.split('#')[0].split('^')[0].trim();
+
+	// ![[image.png|alt text|300]]: a number is the width, anything else the alt text
+	let widthOverride: number | undefined;
+	let alt: string | undefined;
+	for (const part of parts) {
+		const widthMatch = part.trim().match(/^(\d+)(?:px)?$/i);
+		if (widthMatch) {
+			widthOverride = parseInt(widthMatch[1], 10);
+		} else if (part.trim() && alt === undefined) {
+			alt = part.trim();
+		}
+	}
+
+	return {
+		target: sanitizedTarget,
+		widthOverride,
+		alt,
+	};
+}
+
+export function parseStandardImageTarget(rawTarget: string): { target: string; widthOverride?: number; title?: string } {
+	let targetPart = rawTarget.trim();
+
+	// Remove optional title component ("title")
+	const titleMatch = targetPart.match(/\s+"([^"]*)"\s*$/);
+	if (titleMatch) {
+		targetPart = targetPart.slice(0, titleMatch.index).trim();
+	}
+
+	const segments = targetPart.split('|');
+	const target = segments.shift()?.trim() ?? '';
+	let widthOverride: number | undefined;
+
+	for (const segment of segments) {
+		const widthMatch = segment.trim().match(/^(\d+)(?:px)?$/i);
+		if (widthMatch) {
+			widthOverride = parseInt(widthMatch[1], 10);
+			break;
+		}
+	}
+
+	return { target, widthOverride, title: titleMatch?.[1] };
+}
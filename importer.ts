@@ -0,0 +1,749 @@
+import JSZip from 'jszip';
+import { stringifyYaml } from 'obsidian';
+import { ommlToLatex } from './math';
+
+// Converts a .docx back into Obsidian markdown. Where there is a choice it
+// follows the conventions MarkdownToDocxConverter uses on export, so that
+// exporting and importing a note again leaves it largely unchanged.
+
+interface RunFormat {
+	bold: boolean;
+	italic: boolean;
+	strike: boolean;
+	underline: boolean;
+	highlight: boolean;
+	code: boolean;
+	superScript: boolean;
+	subScript: boolean;
+}
+
+interface InlineSegment {
+	text: string;
+	format?: RunFormat;
+}
+
+interface Block {
+	kind: 'paragraph' | 'list' | 'code' | 'quote';
+	text: string;
+}
+
+interface ComplexField {
+	instruction: string;
+	inResult: boolean;
+}
+
+const MONOSPACE_FONT_PATTERN = /courier|consolas|mono|menlo|monaco|source code|fira code/i;
+const CODE_PARAGRAPH_STYLES = ['code', 'source code', 'obsidian code block', 'html preformatted'];
+const CODE_CHARACTER_STYLES = ['code char', 'verbatim char', 'html code'];
+const QUOTE_STYLES = ['quote', 'intense quote'];
+const TWIPS_PER_INCH = 1440;
+
+export class DocxToMarkdownConverter {
+	private zip: JSZip;
+	private documentName = '';
+	private saveImage: (name: string, data: ArrayBuffer) => Promise<string>;
+	private styleNames: Map<string, string> = new Map();
+	private numberingFormats: Map<string, string[]> = new Map();
+	private relationships: Map<string, { target: string; external: boolean }> = new Map();
+	private bookmarkHeadings: Map<string, string> = new Map();
+	private footnoteLabels: Map<string, number> = new Map();
+	private fieldStack: ComplexField[] = [];
+	private imageCount = 0;
+
+	/**
+	 * Converts the document to markdown. Images are handed to saveImage, which
+	 * stores them and returns the link text to embed them with.
+	 */
+	async convert(
+		data: ArrayBuffer,
+		documentName: string,
+		saveImage: (name: string, data: ArrayBuffer) => Promise<string>,
+	): Promise<string> {
+		this.zip = await JSZip.loadAsync(data);
+		this.documentName = documentName;
+		this.saveImage = saveImage;
+		this.footnoteLabels = new Map();
+		this.fieldStack = [];
+		this.imageCount = 0;
+
+		const documentXml = await this.readXml('word/document.xml');
+		const body = documentXml?.getElementsByTagName('w:body')[0];
+		if (!body) {
+			throw new Error('Not a Word document: word/document.xml is missing');
+		}
+
+		this.styleNames = await this.readStyleNames();
+		this.numberingFormats = await this.readNumberingFormats();
+		this.relationships = await this.readRelationships('word/_rels/document.xml.rels');
+		this.bookmarkHeadings = this.collectHeadingBookmarks(body);
+
+		const blocks = await this.convertBody(body);
+		const footnotes = await this.convertFootnotes();
+		const frontmatter = await this.readFrontmatter();
+
+		let markdown = this.joinBlocks(blocks);
+		if (footnotes.length > 0) {
+			markdown += `\n\n${footnotes.join('\n')}`;
+		}
+		if (Object.keys(frontmatter).length > 0) {
+			markdown = `---\n${stringifyYaml(frontmatter)}---\n\n${markdown}`;
+		}
+		return `${markdown.trim()}\n`;
+	}
+
+	private async readXml(path: string): Promise<Document | null> {
+		const xml = await this.zip.file(path)?.async('string');
+		return xml ? new DOMParser().parseFromString(xml, 'application/xml') : null;
+	}
+
+	// Style ids by lowercased style name, so localised ids still resolve
+	private async readStyleNames(): Promise<Map<string, string>> {
+		const names = new Map<string, string>();
+		const styles = await this.readXml('word/styles.xml');
+		for (const style of Array.from(styles?.getElementsByTagName('w:style') ?? [])) {
+			const id = style.getAttribute('w:styleId');
+			const name = childElement(style, 'w:name')?.getAttribute('w:val');
+			if (id && name) {
+				names.set(id, name.toLowerCase());
+			}
+		}
+		return names;
+	}
+
+	// Number formats per list level, keyed by numId
+	private async readNumberingFormats(): Promise<Map<string, string[]>> {
+		const formats = new Map<string, string[]>();
+		const numbering = await this.readXml('word/numbering.xml');
+		if (!numbering) {
+			return formats;
+		}
+
+		const abstractFormats = new Map<string, string[]>();
+		for (const abstractNum of Array.from(numbering.getElementsByTagName('w:abstractNum'))) {
+			const levels: string[] = [];
+			for (const level of childElements(abstractNum, 'w:lvl')) {
+				const index = parseInt(level.getAttribute('w:ilvl') ?? '0');
+				levels[index] = childElement(level, 'w:numFmt')?.getAttribute('w:val') ?? 'decimal';
+			}
+			abstractFormats.set(abstractNum.getAttribute('w:abstractNumId') ?? '', levels);
+		}
+		for (const num of Array.from(numbering.getElementsByTagName('w:num'))) {
+			const abstractId = childElement(num, 'w:abstractNumId')?.getAttribute('w:val') ?? '';
+			formats.set(num.getAttribute('w:numId') ?? '', abstractFormats.get(abstractId) ?? []);
+		}
+		return formats;
+	}
+
+	private async readRelationships(path: string): Promise<Map<string, { target: string; external: boolean }>> {
+		const relationships = new Map<string, { target: string; external: boolean }>();
+		const rels = await this.readXml(path);
+		for (const relationship of Array.from(rels?.getElementsByTagName('Relationship') ?? [])) {
+			relationships.set(relationship.getAttribute('Id') ?? '', {
+				target: relationship.getAttribute('Target') ?? '',
+				external: relationship.getAttribute('TargetMode') === 'External',
+			});
+		}
+		return relationships;
+	}
+
+	// Bookmarks inside headings, so internal hyperlinks become [[#Heading]] links
+	private collectHeadingBookmarks(body: Element): Map<string, string> {
+		const headings = new Map<string, string>();
+		for (const paragraph of Array.from(body.getElementsByTagName('w:p'))) {
+			if (this.getHeadingLevel(paragraph) === 0) {
+				continue;
+			}
+			const text = plainText(paragraph).trim();
+			for (const bookmark of Array.from(paragraph.getElementsByTagName('w:bookmarkStart'))) {
+				headings.set(bookmark.getAttribute('w:name') ?? '', text);
+			}
+		}
+		return headings;
+	}
+
+	private async convertBody(body: Element): Promise<Block[]> {
+		const elements = flattenContentControls(childElements(body));
+
+		// A sectPr inside a paragraph ends a section; the body's own sectPr describes the last one
+		const orientations: ('portrait' | 'landscape')[] = [];
+		let sectionStart = 0;
+		elements.forEach((element, index) => {
+			const sectionProperties = element.nodeName === 'w:p'
+				? childElement(childElement(element, 'w:pPr'), 'w:sectPr')
+				: element.nodeName === 'w:sectPr' ? element : null;
+			if (sectionProperties) {
+				const orientation = getOrientation(sectionProperties);
+				for (let i = sectionStart; i <= index; i++) {
+					orientations[i] = orientation;
+				}
+				sectionStart = index + 1;
+			}
+		});
+
+		const blocks: Block[] = [];
+		let orientation = orientations[0] ?? 'portrait';
+		for (const [index, element] of elements.entries()) {
+			const elementOrientation = orientations[index] ?? orientation;
+			if (elementOrientation !== orientation) {
+				blocks.push({ kind: 'paragraph', text: `<!-- ${elementOrientation} -->` });
+				orientation = elementOrientation;
+			}
+			const converted = await this.convertBlock(element);
+			// The exported table of contents has its own title, which [TOC] adds again
+			if (converted[0]?.text === '[TOC]' && blocks[blocks.length - 1]?.text === '**Table of Contents**') {
+				blocks.pop();
+			}
+			blocks.push(...converted);
+		}
+		return blocks;
+	}
+
+	private async convertBlock(element: Element): Promise<Block[]> {
+		if (element.nodeName === 'w:p') {
+			return await this.convertParagraph(element);
+		}
+		if (element.nodeName === 'w:tbl') {
+			return await this.convertTable(element);
+		}
+		return [];
+	}
+
+	private async convertParagraph(paragraph: Element): Promise<Block[]> {
+		const properties = childElement(paragraph, 'w:pPr');
+		const styleName = this.getStyleName(paragraph);
+		const blocks: Block[] = [];
+
+		const hasPageBreak = Array.from(paragraph.getElementsByTagName('w:br'))
+			.some(br => br.getAttribute('w:type') === 'page');
+		const headingLevel = this.getHeadingLevel(paragraph);
+		// Chapter headings of a folder export start on a new page by themselves
+		const breakBefore = headingLevel === 0 && childElement(properties, 'w:pageBreakBefore') !== null;
+		if (hasPageBreak || breakBefore) {
+			blocks.push({ kind: 'paragraph', text: '<!-- pagebreak -->' });
+		}
+
+		// Code blocks: a code style, or shaded paragraphs set in a monospace font
+		const runs = Array.from(paragraph.getElementsByTagName('w:r')).filter(run => plainText(run).length > 0);
+		const isCode = CODE_PARAGRAPH_STYLES.includes(styleName)
+			|| (childElement(properties, 'w:shd') !== null && runs.length > 0 && runs.every(run => this.isMonospaceRun(run)));
+		if (isCode) {
+			blocks.push({ kind: 'code', text: plainText(paragraph) });
+			return blocks;
+		}
+
+		// Heading styles are bold already
+		const text = (await this.convertInline(paragraph, headingLevel > 0)).trim();
+		const border = childElement(properties, 'w:pBdr');
+		if (!text) {
+			if (childElement(border, 'w:bottom')) {
+				blocks.push({ kind: 'paragraph', text: '---' });
+			}
+			return blocks;
+		}
+
+		if (headingLevel > 0) {
+			blocks.push({ kind: 'paragraph', text: `${'#'.repeat(headingLevel)} ${text}` });
+			return blocks;
+		}
+
+		// An equation on a line of its own is display math
+		const content = childElements(paragraph).filter(child => child.nodeName !== 'w:pPr' && !child.nodeName.startsWith('w:bookmark'));
+		if (content.length === 1 && content[0].nodeName === 'm:oMath' && !text.startsWith('$$')) {
+			blocks.push({ kind: 'paragraph', text: `$${text}$` });
+			return blocks;
+		}
+
+		const leftIndent = parseInt(childElement(properties, 'w:ind')?.getAttribute('w:left') ?? '0') || 0;
+
+		const numbering = childElement(properties, 'w:numPr');
+		if (numbering) {
+			const numId = childElement(numbering, 'w:numId')?.getAttribute('w:val') ?? '';
+			const level = parseInt(childElement(numbering, 'w:ilvl')?.getAttribute('w:val') ?? '0') || 0;
+			const format = this.numberingFormats.get(numId)?.[level] ?? 'bullet';
+			// numId 0 switches numbering off
+			if (numId !== '0') {
+				const marker = format === 'bullet' || format === 'none' ? '-' : '1.';
+				blocks.push({ kind: 'list', text: `${'  '.repeat(level)}${marker} ${this.toTask(text)}` });
+				return blocks;
+			}
+		}
+
+		// Task lists are exported as indented paragraphs starting with a checkbox
+		if (/^[☐☑]\s/.test(text)) {
+			const level = Math.max(0, Math.round((leftIndent / TWIPS_PER_INCH - 0.18) / 0.18));
+			blocks.push({ kind: 'list', text: `${'  '.repeat(level)}- ${this.toTask(text)}` });
+			return blocks;
+		}
+
+		// Blockquotes are exported with a left border, indented 0.3" per level
+		if (QUOTE_STYLES.includes(styleName) || childElement(border, 'w:left')) {
+			const depth = Math.max(1, Math.round(leftIndent / (0.3 * TWIPS_PER_INCH)));
+			blocks.push({ kind: 'quote', text: `${'> '.repeat(depth)}${text}` });
+			return blocks;
+		}
+
+		blocks.push({ kind: 'paragraph', text });
+		return blocks;
+	}
+
+	private toTask(text: string): string {
+		return text.replace(/^☐\s*/, '[ ] ').replace(/^☑\s*/, '[x] ');
+	}
+
+	private getStyleName(paragraph: Element): string {
+		const styleId = childElement(childElement(paragraph, 'w:pPr'), 'w:pStyle')?.getAttribute('w:val') ?? '';
+		return this.styleNames.get(styleId) ?? styleId.toLowerCase();
+	}
+
+	private getHeadingLevel(paragraph: Element): number {
+		const styleId = childElement(childElement(paragraph, 'w:pPr'), 'w:pStyle')?.getAttribute('w:val') ?? '';
+		const name = this.styleNames.get(styleId) ?? '';
+		if (name === 'title') {
+			return 1;
+		}
+		const match = name.match(/^heading ([1-6])$/) ?? styleId.match(/^Heading([1-6])$/);
+		return match ? parseInt(match[1]) : 0;
+	}
+
+	private isMonospaceRun(run: Element): boolean {
+		const properties = childElement(run, 'w:rPr');
+		const styleId = childElement(properties, 'w:rStyle')?.getAttribute('w:val') ?? '';
+		if (CODE_CHARACTER_STYLES.includes(this.styleNames.get(styleId) ?? styleId.toLowerCase())) {
+			return true;
+		}
+		const fonts = childElement(properties, 'w:rFonts');
+		return MONOSPACE_FONT_PATTERN.test(fonts?.getAttribute('w:ascii') ?? fonts?.getAttribute('w:hAnsi') ?? '');
+	}
+
+	private async convertInline(element: Element, ignoreBold = false): Promise<string> {
+		const segments = await this.collectSegments(element);
+		return renderSegments(ignoreBold
+			? segments.map(segment => segment.format ? { ...segment, format: { ...segment.format, bold: false } } : segment)
+			: segments);
+	}
+
+	private async collectSegments(element: Element): Promise<InlineSegment[]> {
+		const segments: InlineSegment[] = [];
+
+		for (const node of childElements(element)) {
+			switch (node.nodeName) {
+				case 'w:r':
+					segments.push(...await this.convertRun(node));
+					break;
+				case 'w:hyperlink':
+					segments.push(...await this.convertHyperlink(node));
+					break;
+				case 'm:oMath':
+				case 'm:oMathPara': {
+					const latex = ommlToLatex(node).trim();
+					if (latex.trim() && !this.isSkippingFieldContent()) {
+						segments.push({ text: node.nodeName === 'm:oMathPara' ? `$$${latex}$$` : `$${latex}$` });
+					}
+					break;
+				}
+				case 'w:ins':
+				case 'w:smartTag':
+				case 'w:customXml':
+				case 'w:fldSimple':
+				case 'w:sdt':
+				case 'w:sdtContent':
+				case 'w:bdo':
+				case 'w:dir':
+					segments.push(...await this.collectSegments(node));
+					break;
+				// Deleted text, bookmarks, comments and proofing marks carry no content
+				default:
+					break;
+			}
+		}
+
+		return segments;
+	}
+
+	// Fields are skipped up to their result; a table of contents becomes a [TOC] marker
+	private isSkippingFieldContent(): boolean {
+		return this.fieldStack.some(field => !field.inResult || /^\s*TOC\b/i.test(field.instruction));
+	}
+
+	private async convertRun(run: Element): Promise<InlineSegment[]> {
+		const segments: InlineSegment[] = [];
+		const format = this.getRunFormat(run);
+
+		for (const node of childElements(run)) {
+			switch (node.nodeName) {
+				case 'w:fldChar': {
+					const type = node.getAttribute('w:fldCharType');
+					if (type === 'begin') {
+						this.fieldStack.push({ instruction: '', inResult: false });
+					} else if (type === 'separate' && this.fieldStack.length > 0) {
+						const field = this.fieldStack[this.fieldStack.length - 1];
+						field.inResult = true;
+						if (/^\s*TOC\b/i.test(field.instruction) && this.fieldStack.length === 1) {
+							segments.push({ text: '[TOC]' });
+						}
+					} else if (type === 'end') {
+						this.fieldStack.pop();
+					}
+					break;
+				}
+				case 'w:instrText':
+					if (this.fieldStack.length > 0) {
+						this.fieldStack[this.fieldStack.length - 1].instruction += node.textContent ?? '';
+					}
+					break;
+				case 'w:t':
+					if (!this.isSkippingFieldContent()) {
+						segments.push({ text: node.textContent ?? '', format });
+					}
+					break;
+				case 'w:tab':
+					if (!this.isSkippingFieldContent()) {
+						segments.push({ text: '\t', format });
+					}
+					break;
+				case 'w:br':
+					if (node.getAttribute('w:type') !== 'page' && !this.isSkippingFieldContent()) {
+						segments.push({ text: '<br>' });
+					}
+					break;
+				case 'w:noBreakHyphen':
+					segments.push({ text: '-', format });
+					break;
+				case 'w:footnoteReference': {
+					const id = node.getAttribute('w:id') ?? '';
+					if (!this.footnoteLabels.has(id)) {
+						this.footnoteLabels.set(id, this.footnoteLabels.size + 1);
+					}
+					segments.push({ text: `[^${this.footnoteLabels.get(id)}]` });
+					break;
+				}
+				case 'w:drawing':
+				case 'w:pict': {
+					const image = await this.convertImage(node);
+					if (image) {
+						segments.push({ text: image });
+					}
+					break;
+				}
+				default:
+					break;
+			}
+		}
+
+		return segments;
+	}
+
+	private getRunFormat(run: Element): RunFormat {
+		const properties = childElement(run, 'w:rPr');
+		const isOn = (name: string) => {
+			const element = childElement(properties, name);
+			return element !== null && !['false', '0', 'none'].includes(element.getAttribute('w:val') ?? '');
+		};
+		const verticalAlign = childElement(properties, 'w:vertAlign')?.getAttribute('w:val');
+		const code = this.isMonospaceRun(run);
+
+		return {
+			// Exported code is bold, which should not come back as **`code`**
+			bold: isOn('w:b') && !code,
+			italic: isOn('w:i'),
+			strike: isOn('w:strike') || isOn('w:dstrike'),
+			underline: isOn('w:u'),
+			highlight: isOn('w:highlight'),
+			code,
+			superScript: verticalAlign === 'superscript',
+			subScript: verticalAlign === 'subscript',
+		};
+	}
+
+	private async convertHyperlink(hyperlink: Element): Promise<InlineSegment[]> {
+		const inner = await this.collectSegments(hyperlink);
+		// Links are underlined and coloured on export; that styling is not part of the text
+		const text = renderSegments(inner.map(segment => segment.format
+			? { ...segment, format: { ...segment.format, underline: false } }
+			: segment)).trim();
+		if (!text) {
+			return [];
+		}
+
+		const anchor = hyperlink.getAttribute('w:anchor');
+		if (anchor) {
+			const heading = this.bookmarkHeadings.get(anchor);
+			if (!heading) {
+				return [{ text }];
+			}
+			return [{ text: text === heading ? `[[#${heading}]]` : `[[#${heading}|${text}]]` }];
+		}
+
+		const target = this.relationships.get(hyperlink.getAttribute('r:id') ?? '')?.target;
+		if (!target) {
+			return [{ text }];
+		}
+
+		// Wikilinks to other notes are exported as obsidian://open links
+		const obsidianFile = target.startsWith('obsidian://open?') ? new URLSearchParams(target.split('?')[1]).get('file') : null;
+		if (obsidianFile) {
+			const defaultText = obsidianFile.replace('#', ' > ');
+			return [{ text: text === obsidianFile || text === defaultText ? `[[${obsidianFile}]]` : `[[${obsidianFile}|${text}]]` }];
+		}
+
+		return [{ text: text === target ? `<${target}>` : `[${text}](${target.replace(/ /g, '%20').replace(/\)/g, '%29')})` }];
+	}
+
+	private async convertImage(drawing: Element): Promise<string | null> {
+		const blip = drawing.getElementsByTagName('a:blip')[0];
+		const imageData = drawing.getElementsByTagName('v:imagedata')[0];
+		const id = blip?.getAttribute('r:embed') ?? imageData?.getAttribute('r:id');
+		const target = id ? this.relationships.get(id) : undefined;
+		if (!target || target.external) {
+			return null;
+		}
+
+		const data = await this.zip.file(`word/${target.target.replace(/^\/?word\//, '')}`)?.async('arraybuffer');
+		if (!data) {
+			return null;
+		}
+
+		this.imageCount++;
+		const extension = target.target.split('.').pop()?.toLowerCase() ?? 'png';
+		const link = await this.saveImage(`${this.documentName} image ${this.imageCount}.${extension}`, data);
+		return `![[${link}]]`;
+	}
+
+	private async convertTable(table: Element): Promise<Block[]> {
+		const rows = childElements(table, 'w:tr');
+		const cellsOf = (row: Element) => flattenContentControls(childElements(row)).filter(cell => cell.nodeName === 'w:tc');
+
+		// Single-cell tables are how callouts and framed embeds are exported
+		if (rows.length === 1 && cellsOf(rows[0]).length === 1) {
+			const blocks: Block[] = [];
+			for (const element of flattenContentControls(childElements(cellsOf(rows[0])[0]))) {
+				blocks.push(...await this.convertBlock(element));
+			}
+			const content = this.joinBlocks(blocks);
+			return content ? [{ kind: 'quote', text: content.split('\n').map(line => line ? `> ${line}` : '>').join('\n') }] : [];
+		}
+
+		const markdownRows: string[][] = [];
+		const alignments: string[] = [];
+		for (const row of rows) {
+			const cells: string[] = [];
+			for (const [index, cell] of cellsOf(row).entries()) {
+				const paragraphs = Array.from(cell.getElementsByTagName('w:p'));
+				const texts: string[] = [];
+				for (const paragraph of paragraphs) {
+					const text = (await this.convertInline(paragraph)).trim();
+					if (text) {
+						texts.push(text);
+					}
+				}
+				cells.push(texts.join('<br>').replace(/\|/g, '\\|'));
+
+				if (markdownRows.length === 1 && alignments[index] === undefined) {
+					const justification = childElement(childElement(paragraphs[0] ?? null, 'w:pPr'), 'w:jc')?.getAttribute('w:val');
+					alignments[index] = justification === 'center' ? ':---:' : justification === 'right' || justification === 'end' ? '---:' : '---';
+				}
+			}
+			markdownRows.push(cells);
+		}
+		if (markdownRows.length === 0) {
+			return [];
+		}
+
+		const columnCount = Math.max(...markdownRows.map(row => row.length));
+		const line = (cells: string[]) => `| ${Array.from({ length: columnCount }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+		const separator = Array.from({ length: columnCount }, (_, i) => alignments[i] ?? '---');
+		return [{
+			kind: 'paragraph',
+			text: [line(markdownRows[0]), `| ${separator.join(' | ')} |`, ...markdownRows.slice(1).map(line)].join('\n'),
+		}];
+	}
+
+	// Definitions for the footnotes referenced in the text, numbered in order of use
+	private async convertFootnotes(): Promise<string[]> {
+		if (this.footnoteLabels.size === 0) {
+			return [];
+		}
+		const footnotes = await this.readXml('word/footnotes.xml');
+		const definitions: string[] = [];
+
+		for (const footnote of Array.from(footnotes?.getElementsByTagName('w:footnote') ?? [])) {
+			const label = this.footnoteLabels.get(footnote.getAttribute('w:id') ?? '');
+			if (label === undefined) {
+				continue;
+			}
+			const paragraphs: string[] = [];
+			for (const paragraph of childElements(footnote, 'w:p')) {
+				const text = (await this.convertInline(paragraph)).trim();
+				if (text) {
+					paragraphs.push(text);
+				}
+			}
+			definitions[label - 1] = `[^${label}]: ${paragraphs.join('\n\n    ')}`;
+		}
+
+		return definitions.filter(definition => definition !== undefined);
+	}
+
+	// Document properties, mapped back the way they are filled from frontmatter on export
+	private async readFrontmatter(): Promise<Record<string, unknown>> {
+		const frontmatter: Record<string, unknown> = {};
+		const core = await this.readXml('docProps/core.xml');
+		const coreValue = (name: string) => core?.getElementsByTagName(name)[0]?.textContent?.trim() ?? '';
+
+		const title = coreValue('dc:title');
+		if (title && title !== this.documentName) {
+			frontmatter.title = title;
+		}
+		// "Un-named" is what the docx library writes when no author is set
+		const author = coreValue('dc:creator');
+		if (author && author !== 'Un-named') {
+			frontmatter.author = author;
+		}
+		const subject = coreValue('dc:subject');
+		if (subject) {
+			frontmatter.subject = subject;
+		}
+		const description = coreValue('dc:description');
+		if (description) {
+			frontmatter.description = description;
+		}
+		const keywords = coreValue('cp:keywords');
+		if (keywords) {
+			frontmatter.tags = keywords.split(/[,;]/).map(tag => tag.trim()).filter(tag => tag.length > 0);
+		}
+
+		const custom = await this.readXml('docProps/custom.xml');
+		for (const property of Array.from(custom?.getElementsByTagName('property') ?? [])) {
+			const name = property.getAttribute('name');
+			const value = property.textContent?.trim();
+			if (name && value) {
+				frontmatter[name.toLowerCase()] = value;
+			}
+		}
+
+		return frontmatter;
+	}
+
+	private joinBlocks(blocks: Block[]): string {
+		let markdown = '';
+		let previous: Block | null = null;
+
+		for (const block of blocks) {
+			if (block.kind === 'code') {
+				if (previous?.kind === 'code') {
+					markdown = markdown.replace(/\n```$/, `\n${block.text}\n\`\`\``);
+				} else {
+					markdown += `${previous ? '\n\n' : ''}\`\`\`\n${block.text}\n\`\`\``;
+				}
+			} else {
+				const sameGroup = previous !== null && previous.kind === block.kind
+					&& (block.kind === 'quote' || (block.kind === 'list' && !startsNewList(previous.text, block.text)));
+				markdown += previous ? (sameGroup ? '\n' : '\n\n') : '';
+				markdown += block.text;
+			}
+			previous = block;
+		}
+
+		return markdown;
+	}
+}
+
+function childElements(element: Element | null, name?: string): Element[] {
+	if (!element) {
+		return [];
+	}
+	return Array.from(element.childNodes)
+		.filter((node): node is Element => node.nodeType === 1 && (!name || node.nodeName === name));
+}
+
+function childElement(element: Element | null, name: string): Element | null {
+	return childElements(element, name)[0] ?? null;
+}
+
+// Content controls (w:sdt), e.g. a table of contents, wrap ordinary block content
+function flattenContentControls(elements: Element[]): Element[] {
+	const flattened: Element[] = [];
+	for (const element of elements) {
+		if (element.nodeName === 'w:sdt') {
+			flattened.push(...flattenContentControls(childElements(childElement(element, 'w:sdtContent'))));
+		} else {
+			flattened.push(element);
+		}
+	}
+	return flattened;
+}
+
+function getOrientation(sectionProperties: Element): 'portrait' | 'landscape' {
+	const pageSize = childElement(sectionProperties, 'w:pgSz');
+	if (pageSize?.getAttribute('w:orient') === 'landscape') {
+		return 'landscape';
+	}
+	const width = parseInt(pageSize?.getAttribute('w:w') ?? '0');
+	const height = parseInt(pageSize?.getAttribute('w:h') ?? '0');
+	return width > height ? 'landscape' : 'portrait';
+}
+
+function plainText(element: Element): string {
+	return Array.from(element.getElementsByTagName('w:t')).map(text => text.textContent ?? '').join('');
+}
+
+// A top-level item of another list type (bullets, numbers, tasks) starts a separate list
+function startsNewList(previous: string, current: string): boolean {
+	const listType = (item: string) => /^\d+\./.test(item) ? 'ordered' : /^- \[[ x]\]/.test(item) ? 'task' : 'bullet';
+	return !current.startsWith(' ') && !previous.startsWith(' ') && listType(previous) !== listType(current);
+}
+
+function escapeMarkdown(text: string): string {
+	return text
+		.replace(/([\\`*[\]])/g, '\\$1')
+		.replace(/(^|\W)_|_(?=\W|$)/g, (match) => match.replace('_', '\\_'))
+		.replace(/==/g, '=\\=');
+}
+
+function sameFormat(a?: RunFormat, b?: RunFormat): boolean {
+	if (!a || !b) {
+		return false;
+	}
+	return (Object.keys(a) as (keyof RunFormat)[]).every(key => a[key] === b[key]);
+}
+
+// Merges runs with the same formatting and wraps them in markdown markers
+function renderSegments(segments: InlineSegment[]): string {
+	const merged: InlineSegment[] = [];
+	for (const segment of segments) {
+		const last = merged[merged.length - 1];
+		if (last && sameFormat(last.format, segment.format)) {
+			last.text += segment.text;
+		} else {
+			merged.push({ ...segment });
+		}
+	}
+
+	return merged.map(segment => {
+		const format = segment.format;
+		if (!format) {
+			return segment.text;
+		}
+		if (format.code) {
+			const fence = segment.text.includes('`') ? '``' : '`';
+			return segment.text.trim() ? `${fence}${segment.text}${fence}` : segment.text;
+		}
+
+		// Markers have to hug the text, so surrounding whitespace stays outside
+		const match = segment.text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+		const [leading, content, trailing] = match ? [match[1], match[2], match[3]] : ['', segment.text, ''];
+		if (!content) {
+			return segment.text;
+		}
+
+		let text = escapeMarkdown(content);
+		if (format.superScript) text = `<sup>${text}</sup>`;
+		if (format.subScript) text = `<sub>${text}</sub>`;
+		if (format.underline) text = `<u>${text}</u>`;
+		if (format.highlight) text = `==${text}==`;
+		if (format.strike) text = `~~${text}~~`;
+		if (format.italic) text = `*${text}*`;
+		if (format.bold) text = `**${text}**`;
+		return `${leading}${text}${trailing}`;
+	}).join('');
+}
@@ -0,0 +1,60 @@
+// Page size, orientation and margins from the settings, in inches, for every
+// export format.
+
+export type PageSize = 'A4' | 'A5' | 'A3' | 'Letter' | 'Legal' | 'Tabloid';
+export type MarginPreset = 'normal' | 'narrow' | 'moderate' | 'wide' | 'custom';
+
+interface ToWordSettings {
+	pageSize: PageSize;
+	orientation: 'portrait' | 'landscape';
+	marginPreset: MarginPreset;
+	marginTop: number;
+	marginRight: number;
+	marginBottom: number;
+	marginLeft: number;
+}
+
+export interface PageMargins {
+	top: number;
+	right: number;
+	bottom: number;
+	left: number;
+}
+
+// Portrait width and height
+export const PAGE_SIZES: Record<PageSize, { width: number; height: number }> = {
+	'A4': { width: 8.27, height: 11.69 },    // 210 x 297 mm
+	'A5': { width: 5.83, height: 8.27 },     // 148 x 210 mm
+	'A3': { width: 11.69, height: 16.54 },   // 297 x 420 mm
+	'Letter': { width: 8.5, height: 11 },
+	'Legal': { width: 8.5, height: 14 },
+	'Tabloid': { width: 11, height: 17 },
+};
+
+// Word's margin presets
+const MARGIN_PRESETS: Record<Exclude<MarginPreset, 'custom'>, PageMargins> = {
+	normal: { top: 1, right: 1, bottom: 1, left: 1 },
+	narrow: { top: 0.5, right: 0.5, bottom: 0.5, left: 0.5 },
+	moderate: { top: 1, right: 0.75, bottom: 1, left: 0.75 },
+	wide: { top: 1, right: 2, bottom: 1, left: 2 },
+};
+
+export function getPageMargins(settings: ToWordSettings): PageMargins {
+	if (settings.marginPreset === 'custom') {
+		return { top: settings.marginTop, right: settings.marginRight, bottom: settings.marginBottom, left: settings.marginLeft };
+	}
+	return MARGIN_PRESETS[settings.marginPreset] || MARGIN_PRESETS.normal;
+}
+
+/**
+ * The page as laid out: width and height swapped for landscape, and the
+ * width left between the margins.
+ */
+export function getPageLayout(settings: ToWordSettings): { width: number; height: number; margins: PageMargins; contentWidth: number } {
+	const size = PAGE_SIZES[settings.pageSize] || PAGE_SIZES.A4;
+	const landscape = settings.orientation === 'landscape';
+	const width = landscape ? size.height : size.width;
+	const height = landscape ? size.width : size.height;
+	const margins = getPageMargins(settings);
+	return { width, height, margins, contentWidth: Math.max(1, width - margins.left - margins.right) };
+}
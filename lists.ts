@@ -0,0 +1,268 @@
+import type MarkdownIt from 'markdown-it';
+import type StateBlock from 'markdown-it/lib/rules_block/state_block';
+
+// Markdown lists read into items the way CommonMark nests them: a line belongs
+// to an item when it is indented to the column the item's text starts at.
+// Ordered lists may also be lettered (a. b. c.) or use roman numerals (i. ii.).
+
+export type ListFormat = 'bullet' | 'decimal' | 'lowerLetter' | 'upperLetter' | 'lowerRoman' | 'upperRoman';
+
+export interface ListMarker {
+	format: ListFormat;
+	/** Number of an ordered item, e.g. 3 for "3.", "c." or "iii." */
+	value: number;
+	/** "." or ")" after an ordered marker, or the bullet character of a bullet */
+	delimiter: string;
+	/** Column of the marker, with tabs expanded */
+	indent: number;
+	/** Column the item's text starts at */
+	contentIndent: number;
+	text: string;
+}
+
+export interface ListItem {
+	marker: ListMarker;
+	/** The item's lines without its indentation; the first is the text after the marker */
+	lines: string[];
+}
+
+export interface List {
+	format: ListFormat;
+	delimiter: string;
+	start: number;
+	items: ListItem[];
+}
+
+const ROMAN_NUMERAL = /^(?=[mdclxvi])m*(c[md]|d?c{0,3})(x[cl]|l?x{0,3})(i[xv]|v?i{0,3})$/;
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+
+/**
+ * Expands the tabs in a line's indentation to the next multiple of four columns.
+ */
+export function expandTabs(line: string): string {
+	const indentation = line.match(/^[ \t]*/)?.[0] ?? '';
+	let width = 0;
+	for (const char of indentation) {
+		width = char === '\t' ? width + 4 - (width % 4) : width + 1;
+	}
+	return ' '.repeat(width) + line.slice(indentation.length);
+}
+
+function romanToNumber(numeral: string): number {
+	let total = 0;
+	for (let i = 0; i < numeral.length; i++) {
+		const value = ROMAN_VALUES[numeral[i]];
+		const next = ROMAN_VALUES[numeral[i + 1]] ?? 0;
+		total += value < next ? -value : value;
+	}
+	return total;
+}
+
+function numberToRoman(value: number): string {
+	const numerals: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+	let roman = '';
+	for (const [amount, numeral] of numerals) {
+		for (; value >= amount; value -= amount) {
+			roman += numeral;
+		}
+	}
+	return roman;
+}
+
+/**
+ * Writes the number of an ordered item in the list's format: 3 is "3", "c"
+ * or "iii". Letters go on as aa, bb, ... after z.
+ */
+export function formatListNumber(value: number, format: Exclude<ListFormat, 'bullet'>): string {
+	switch (format) {
+		case 'decimal':
+			return String(value);
+		case 'lowerLetter':
+		case 'upperLetter': {
+			const letter = String.fromCharCode(97 + ((value - 1) % 26)).repeat(Math.floor((value - 1) / 26) + 1);
+			return format === 'upperLetter' ? letter.toUpperCase() : letter;
+		}
+		case 'lowerRoman':
+			return numberToRoman(value);
+		case 'upperRoman':
+			return numberToRoman(value).toUpperCase();
+	}
+}
+
+/**
+ * Parses the list marker at the start of a line. A single i, v or x is a
+ * letter in a lettered list (`list` is the format of the list so far) and
+ * a roman numeral otherwise.
+ */
+export function parseListMarker(line: string, list?: ListFormat): ListMarker | null {
+	const match = expandTabs(line).match(/^( *)([-*+]|\d{1,9}[.)]|[A-Za-z]+[.)])([ \t]+|$)(.*)$/);
+	if (!match) {
+		return null;
+	}
+	const [, indentation, marker, rawSpacing, text] = match;
+
+	// Tabs after the marker go to the next multiple of four columns as well
+	let column = indentation.length + marker.length;
+	for (const char of rawSpacing) {
+		column = char === '\t' ? column + 4 - (column % 4) : column + 1;
+	}
+	const spacing = ' '.repeat(column - indentation.length - marker.length);
+
+	let format: ListFormat = 'bullet';
+	let value = 1;
+	const symbol = marker.slice(0, -1);
+	if (/^\d/.test(marker)) {
+		format = 'decimal';
+		value = parseInt(symbol, 10);
+	} else if (/^[A-Za-z]/.test(marker)) {
+		const lower = symbol.toLowerCase();
+		const lettered = lower.length === 1 && (list === 'lowerLetter' || list === 'upperLetter' || !/[ivx]/.test(lower));
+		if (lettered) {
+			format = symbol === lower ? 'lowerLetter' : 'upperLetter';
+			value = lower.charCodeAt(0) - 96;
+		} else if (ROMAN_NUMERAL.test(lower) && (symbol === lower || symbol === symbol.toUpperCase())) {
+			format = symbol === lower ? 'lowerRoman' : 'upperRoman';
+			value = romanToNumber(lower);
+		} else {
+			return null;
+		}
+		// As in pandoc, "B. Smith" is only a list item with two spaces after the period
+		if (symbol.length === 1 && symbol !== lower && marker.endsWith('.') && spacing.length < 2) {
+			return null;
+		}
+	}
+
+	// Text indented by five or more spaces starts with an indented code block
+	const gap = spacing.length > 4 || !text ? 1 : spacing.length;
+	return {
+		format,
+		value,
+		delimiter: marker.slice(-1),
+		indent: indentation.length,
+		contentIndent: indentation.length + marker.length + gap,
+		text: spacing.length > 4 ? ' '.repeat(spacing.length - 1) + text : text,
+	};
+}
+
+function continuesList(list: List, marker: ListMarker): boolean {
+	const sameFormat = marker.format === list.format
+		// A lettered list can go on past h. to i.
+		|| (list.format === 'lowerLetter' && marker.format === 'lowerRoman')
+		|| (list.format === 'upperLetter' && marker.format === 'upperRoman');
+	return sameFormat && marker.delimiter === list.delimiter;
+}
+
+// A thematic break (*** or - - -), which ends a list rather than starting an item
+function isThematicBreak(line: string): boolean {
+	return /^ {0,3}([-*_])([ \t]*\1){2,}[ \t]*$/.test(line);
+}
+
+// Lines that start a new block rather than continue an item's paragraph
+function startsBlock(line: string): boolean {
+	return /^\s*(#{1,6}\s|```|~~~|>|\||\$\$)/.test(line) || isThematicBreak(line);
+}
+
+// The marker of an item of the same list level: markers indented four or
+// more columns are text, and thematic breaks are not items
+function parseSiblingMarker(line: string, indent: number, list: List): ListMarker | null {
+	return indent < 4 && !isThematicBreak(line) ? parseListMarker(line, list.format) : null;
+}
+
+/**
+ * Reads the list starting at line `start`, which must be a list item, from
+ * `getLine` (lines up to `end`). The list ends at a line that is not part of
+ * one of its items, or at an item of another kind (a bullet after numbers,
+ * "1)" after "1.", "+" after "-"), which starts a new list.
+ */
+export function readList(getLine: (index: number) => string, start: number, end: number): { list: List; nextIndex: number } {
+	const first = parseListMarker(getLine(start)) as ListMarker;
+	const list: List = { format: first.format, delimiter: first.delimiter, start: first.value, items: [] };
+	let item: ListItem = { marker: first, lines: [first.text] };
+	list.items.push(item);
+	let inCodeBlock = /^(```|~~~)/.test(first.text.trim());
+
+	let i = start + 1;
+	for (; i < end; i++) {
+		const line = expandTabs(getLine(i));
+		const indent = line.length - line.trimStart().length;
+
+		if (line.trim() === '') {
+			// A blank line is part of the list only if the list goes on after it
+			let next = i + 1;
+			while (next < end && getLine(next).trim() === '') {
+				next++;
+			}
+			const nextLine = next < end ? expandTabs(getLine(next)) : '';
+			const nextIndent = nextLine.length - nextLine.trimStart().length;
+			const nextMarker = nextIndent < item.marker.contentIndent ? parseSiblingMarker(nextLine, nextIndent, list) : null;
+			// An item that starts with a blank line ends at a second one
+			const itemEnded = item.lines.length === 1 && item.lines[0] === '';
+			if (!nextLine || (!inCodeBlock && (nextIndent < item.marker.contentIndent || itemEnded) && !(nextMarker && continuesList(list, nextMarker)))) {
+				break;
+			}
+			item.lines.push('');
+			continue;
+		}
+
+		if (indent >= item.marker.contentIndent || inCodeBlock) {
+			const content = line.slice(Math.min(indent, item.marker.contentIndent));
+			if (/^\s*(```|~~~)/.test(content)) {
+				inCodeBlock = !inCodeBlock;
+			}
+			item.lines.push(content);
+			continue;
+		}
+
+		const marker = parseSiblingMarker(line, indent, list);
+		if (marker) {
+			if (!continuesList(list, marker)) {
+				break;
+			}
+			item = { marker, lines: [marker.text] };
+			list.items.push(item);
+			inCodeBlock = /^(```|~~~)/.test(marker.text.trim());
+			continue;
+		}
+
+		// A lazy continuation line of the item's last paragraph, where a list marker is text
+		if (startsBlock(line) || item.lines[item.lines.length - 1].trim() === '') {
+			break;
+		}
+		const text = line.trim();
+		item.lines.push(parseListMarker(text) ? text.replace(/^[0-9A-Za-z]*/, symbol => `${symbol}\\`) : text);
+	}
+
+	return { list, nextIndex: i };
+}
+
+/**
+ * markdown-it plugin that reads lists with readList, in place of markdown-it's
+ * own list rule, as one list token holding the List. Item content is left as
+ * markdown for the caller to parse.
+ */
+export function markdownItLists(md: MarkdownIt) {
+	md.block.ruler.before('list', 'obsidian_list', (state: StateBlock, startLine: number, endLine: number, silent: boolean) => {
+		// Indentation is kept relative to the enclosing block, e.g. inside a blockquote
+		const getLine = (line: number) => ' '.repeat(Math.max(state.sCount[line] - state.blkIndent, 0))
+			+ state.src.slice(state.bMarks[line] + state.tShift[line], state.eMarks[line]);
+		if (state.sCount[startLine] - state.blkIndent >= 4) {
+			return false;
+		}
+		const marker = parseListMarker(getLine(startLine));
+		if (!marker) {
+			return false;
+		}
+		if (silent) {
+			// As in CommonMark, only a bullet or a list starting at 1 can interrupt a paragraph
+			return state.parentType !== 'paragraph' || (marker.text.trim() !== '' && (marker.format === 'bullet' || marker.value === 1));
+		}
+
+		const { list, nextIndex } = readList(getLine, startLine, endLine);
+		const token = state.push('list', '', 0);
+		token.meta = list;
+		token.map = [startLine, nextIndex];
+		state.line = nextIndex;
+		return true;
+	}, { alt: ['paragraph', 'reference', 'blockquote'] });
+	md.block.ruler.disable('list');
+}
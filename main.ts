@@ -1,16 +1,112 @@
-import { App, Notice, Plugin, PluginSettingTab, Setting, TFile } from 'obsidian';
-import { MarkdownToDocxConverter } from './converter';
+import { App, FuzzyMatch, FuzzySuggestModal, getAllTags, getLinkpath, Modal, Notice, Platform, Plugin, PluginSettingTab, Setting, TFile, TFolder, Vault } from 'obsidian';
+import { DocxToMarkdownConverter } from './importer';
+import { createCommandRenderer, createMermaidRenderer, DiagramRegistry, DiagramRenderer } from './diagrams';
+import { createDataviewJsRenderer, createDataviewRenderer, createInlineQueryRenderer } from './dataview';
+import { DocumentModelBuilder, NoteSource, ResourceLoader } from './model';
+import { EXPORT_FORMATS, ExportFormat, writeDocument } from './formats';
+import { FilenameValues, formatFilename, formatNow } from './filenames';
+import { externalFileExists, showFolderDialog, showSaveDialog, writeExternalFile } from './external';
+import { homedir } from 'os';
+import { dirname, isAbsolute, join } from 'path';
 
 interface ToWordSettings {
 	defaultFontFamily: string;
 	defaultFontSize: number;
 	includeMetadata: boolean;
 	preserveFormatting: boolean;
-	outputLocation: 'same-folder' | 'vault-root' | 'custom-folder';
+	exportFormat: ExportFormat;
+	outputLocation: 'same-folder' | 'vault-root' | 'custom-folder' | 'external-folder' | 'save-dialog';
 	customOutputFolder: string;
+	externalOutputFolder: string;
+	filenamePattern: string;
+	existingFiles: 'overwrite' | 'suffix' | 'timestamp' | 'ask';
+	mirrorFolders: boolean;
 	useObsidianAppearance: boolean;
 	includeFilenameAsHeader: boolean;
 	pageSize: 'A4' | 'A5' | 'A3' | 'Letter' | 'Legal' | 'Tabloid';
+	orientation: 'portrait' | 'landscape';
+	marginPreset: 'normal' | 'narrow' | 'moderate' | 'wide' | 'custom';
+	marginTop: number;
+	marginRight: number;
+	marginBottom: number;
+	marginLeft: number;
+	footnoteStyle: 'word' | 'list';
+	internalLinks: 'text' | 'obsidian-uri';
+	embedMaxDepth: number;
+	embedShiftHeadings: boolean;
+	embedFrame: boolean;
+	tableOfContents: boolean;
+	tocMinLevel: number;
+	tocMaxLevel: number;
+	tocStaticEntries: boolean;
+	referenceDocument: string;
+	headerLeft: string;
+	headerCenter: string;
+	headerRight: string;
+	footerLeft: string;
+	footerCenter: string;
+	footerRight: string;
+	differentFirstPage: boolean;
+	differentOddEven: boolean;
+	headerLogo: string;
+	folderExportOrder: 'name' | 'frontmatter' | 'index-note';
+	chapterPageBreaks: boolean;
+	trackChangesAuthor: string;
+	obsidianComments: 'drop' | 'comment' | 'hidden';
+	renderDiagrams: boolean;
+	diagramDpi: number;
+	plantumlCommand: string;
+	dataviewExport: 'results' | 'source' | 'both';
+	tableBorders: 'grid' | 'horizontal' | 'none';
+	tableBandedRows: boolean;
+	tableStyle: string;
+	figureCaptionPosition: 'above' | 'below';
+	tableCaptionPosition: 'above' | 'below';
+}
+
+const BATCH_LOG_NAME = 'Word export log';
+
+/** A named set of export settings */
+interface ExportProfile {
+	/** Stays the same when the profile is renamed, for its command */
+	id: string;
+	name: string;
+	settings: ToWordSettings;
+}
+
+interface ToWordData {
+	activeProfile: string;
+	profiles: ExportProfile[];
+	/** Folder the save dialog last saved to */
+	lastSaveDirectory?: string;
+	autoExportFolders?: string[];
+	autoExports?: Record<string, AutoExportRecord>;
+}
+
+const DEFAULT_PROFILE_ID = 'default';
+// Frontmatter key naming the profile to export a note with
+const PROFILE_KEY = 'word-profile';
+
+// Frontmatter key that has a note exported again whenever it changes
+const AUTO_EXPORT_KEY = 'word-autoexport';
+// How long a note must go unchanged before it is exported again, in milliseconds
+const AUTO_EXPORT_DELAY = 3000;
+
+/** The last automatic export of a note */
+interface AutoExportRecord {
+	/** Hash of the note and settings it was last exported from */
+	hash: string;
+	/** When it was last exported, in milliseconds since 1970 */
+	exportedAt?: number;
+	path?: string;
+	/** Why the latest export failed, if it did */
+	error?: string;
+}
+
+interface BatchExportResult {
+	file: TFile;
+	error?: string;
+	missingResources: string[];
 }
 
 const DEFAULT_SETTINGS: ToWordSettings = {
@@ -18,24 +114,88 @@ const DEFAULT_SETTINGS: ToWordSettings = {
 	defaultFontSize: 11,
 	includeMetadata: false,
 	preserveFormatting: true,
+	exportFormat: 'docx',
 	outputLocation: 'same-folder',
 	customOutputFolder: 'Exports',
+	externalOutputFolder: '',
+	filenamePattern: '{basename}',
+	existingFiles: 'overwrite',
+	mirrorFolders: false,
 	useObsidianAppearance: false,
 	includeFilenameAsHeader: false,
-	pageSize: 'A4'
+	pageSize: 'A4',
+	orientation: 'portrait',
+	marginPreset: 'normal',
+	marginTop: 1,
+	marginRight: 1,
+	marginBottom: 1,
+	marginLeft: 1,
+	footnoteStyle: 'word',
+	internalLinks: 'text',
+	embedMaxDepth: 3,
+	embedShiftHeadings: true,
+	embedFrame: false,
+	tableOfContents: false,
+	tocMinLevel: 1,
+	tocMaxLevel: 3,
+	tocStaticEntries: true,
+	referenceDocument: '',
+	headerLeft: '',
+	headerCenter: '',
+	headerRight: '',
+	footerLeft: '',
+	footerCenter: '',
+	footerRight: '',
+	differentFirstPage: false,
+	differentOddEven: false,
+	headerLogo: '',
+	folderExportOrder: 'name',
+	chapterPageBreaks: true,
+	trackChangesAuthor: 'Obsidian',
+	obsidianComments: 'drop',
+	renderDiagrams: true,
+	diagramDpi: 150,
+	plantumlCommand: '',
+	dataviewExport: 'results',
+	tableBorders: 'grid',
+	tableBandedRows: false,
+	tableStyle: '',
+	figureCaptionPosition: 'below',
+	tableCaptionPosition: 'above'
 }
 
 export default class ToWordPlugin extends Plugin {
+	/** Settings of the active profile, which exports use unless told otherwise */
 	settings: ToWordSettings;
-	converter: MarkdownToDocxConverter;
+	profiles: ExportProfile[];
+	activeProfile: string;
+	/** Folder the save dialog last saved to, where it opens next time */
+	lastSaveDirectory = '';
+	/** Folders whose notes are exported again whenever they change, whatever the profile */
+	autoExportFolders: string[] = [];
+	/** The last automatic export of each note, by path */
+	autoExports: Record<string, AutoExportRecord> = {};
+	private autoExportTimers = new Map<string, number>();
+	/** The automatic export running for each note, which the next one waits for */
+	private runningAutoExports = new Map<string, Promise<void>>();
+	modelBuilder: DocumentModelBuilder;
+	/** Renderers for diagram code blocks; other plugins can register their own languages */
+	diagramRenderers = new DiagramRegistry();
 
 	async onload() {
 		await this.loadSettings();
 
-		this.converter = new MarkdownToDocxConverter(this.settings);
+		const whenDiagramsEnabled = (renderer: DiagramRenderer): DiagramRenderer =>
+			async (source, language, context) => context.settings.renderDiagrams ? await renderer(source, language, context) : null;
+		this.diagramRenderers.register('mermaid', whenDiagramsEnabled(createMermaidRenderer()));
+		this.diagramRenderers.register(['plantuml', 'puml'], whenDiagramsEnabled(createCommandRenderer(settings => settings.plantumlCommand)));
+		this.diagramRenderers.register('dataview', createDataviewRenderer(this.app));
+		this.diagramRenderers.register('dataviewjs', createDataviewJsRenderer(this.app));
+		this.diagramRenderers.registerInline(createInlineQueryRenderer(this.app));
+		this.modelBuilder = new DocumentModelBuilder(this.settings, this.diagramRenderers);
 
 		// Add ribbon icon
-		this.addRibbonIcon('file-text', 'Export to Word', async (evt: MouseEvent) => {
+		this.addRibbonIcon('file-text', 'Export current file', async (evt: MouseEvent) => {
 			const activeFile = this.app.workspace.getActiveFile();
 			if (activeFile) {
 				await this.exportToWord(activeFile);
@@ -60,63 +220,610 @@ export default class ToWordPlugin extends Plugin {
 			}
 		});
 
-		// Add context menu item
+		// Commands that ask for the format instead of using the default one
+		this.addCommand({
+			id: 'export-as-format',
+			name: 'Export current file as...',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile) {
+					if (!checking) {
+						new FormatSuggestModal(this.app, (format) => this.exportToWord(activeFile, format)).open();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		this.addCommand({
+			id: 'export-folder-as-format',
+			name: 'Export folder to single document as...',
+			checkCallback: (checking: boolean) => {
+				const folder = this.app.workspace.getActiveFile()?.parent;
+				if (folder) {
+					if (!checking) {
+						new FormatSuggestModal(this.app, (format) => this.exportFolderToWord(folder, format)).open();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		this.addCommand({
+			id: 'batch-export-folder-as-format',
+			name: 'Export all notes in current folder to separate documents as...',
+			checkCallback: (checking: boolean) => {
+				const folder = this.app.workspace.getActiveFile()?.parent;
+				if (folder) {
+					if (!checking) {
+						new FormatSuggestModal(this.app, (format) => this.batchExportToWord(this.getFolderNotes(folder, this.settings), `Folder: ${folder.path}`, format)).open();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		this.addCommand({
+			id: 'batch-export-tag-as-format',
+			name: 'Export notes with tag to separate documents as...',
+			callback: () => {
+				new TagSuggestModal(this.app, this.getAllNoteTags(), (tag) => {
+					new FormatSuggestModal(this.app, (format) => this.batchExportToWord(this.getNotesWithTag(tag), `Tag: ${tag}`, format)).open();
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'export-with-profile',
+			name: 'Export current file with profile...',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile) {
+					if (!checking) {
+						new ProfileSuggestModal(this.app, this.profiles, (profile) => this.exportToWord(activeFile, undefined, profile)).open();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+		this.profiles.forEach(profile => this.addProfileCommand(profile));
+
+		// Add command to export the current file's folder as one document
+		this.addCommand({
+			id: 'export-folder-to-word',
+			name: 'Export folder to single Word document',
+			checkCallback: (checking: boolean) => {
+				const folder = this.app.workspace.getActiveFile()?.parent;
+				if (folder) {
+					if (!checking) {
+						this.exportFolderToWord(folder);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// Add commands to export several notes, each to its own document
+		this.addCommand({
+			id: 'batch-export-folder-to-word',
+			name: 'Export all notes in current folder to separate Word documents',
+			checkCallback: (checking: boolean) => {
+				const folder = this.app.workspace.getActiveFile()?.parent;
+				if (folder) {
+					if (!checking) {
+						this.batchExportToWord(this.getFolderNotes(folder, this.settings), `Folder: ${folder.path}`);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		this.addCommand({
+			id: 'batch-export-tag-to-word',
+			name: 'Export notes with tag to separate Word documents',
+			callback: () => {
+				new TagSuggestModal(this.app, this.getAllNoteTags(), (tag) => {
+					this.batchExportToWord(this.getNotesWithTag(tag), `Tag: ${tag}`);
+				}).open();
+			}
+		});
+
+		// Add command to list the notes exported whenever they change
+		this.addCommand({
+			id: 'list-auto-exports',
+			name: 'List auto-exported notes',
+			callback: () => {
+				const notes = this.app.vault.getMarkdownFiles()
+					.filter(file => this.isAutoExported(file))
+					.sort((a, b) => a.path.localeCompare(b.path))
+					.map(file => ({ file, record: this.autoExports[file.path] }));
+				new AutoExportListModal(this.app, notes).open();
+			}
+		});
+
+		// Add command to import a Word document from the vault as a note
+		this.addCommand({
+			id: 'import-word-document',
+			name: 'Import Word document',
+			callback: () => {
+				const documents = this.app.vault.getFiles().filter(file => file.extension === 'docx');
+				if (documents.length === 0) {
+					new Notice('No Word documents found in the vault');
+					return;
+				}
+				new DocxSuggestModal(this.app, documents, (file) => this.importWordDocument(file)).open();
+			}
+		});
+
+		// Add context menu items
 		this.registerEvent(
 			this.app.workspace.on('file-menu', (menu, file) => {
+				const formatName = EXPORT_FORMATS[this.settings.exportFormat].name;
 				if (file instanceof TFile && file.extension === 'md') {
 					menu.addItem((item) => {
 						item
-							.setTitle('Export to Word')
+							.setTitle(`Export to ${formatName}`)
 							.setIcon('file-text')
 							.onClick(async () => {
 								await this.exportToWord(file);
 							});
 					});
+				} else if (file instanceof TFile && file.extension === 'docx') {
+					menu.addItem((item) => {
+						item
+							.setTitle('Import as note')
+							.setIcon('file-input')
+							.onClick(async () => {
+								await this.importWordDocument(file);
+							});
+					});
+				} else if (file instanceof TFolder) {
+					menu.addItem((item) => {
+						item
+							.setTitle(`Export folder to single ${formatName} document`)
+							.setIcon('file-text')
+							.onClick(async () => {
+								await this.exportFolderToWord(file);
+							});
+					});
+					menu.addItem((item) => {
+						item
+							.setTitle(`Export notes to separate ${formatName} documents`)
+							.setIcon('files')
+							.onClick(async () => {
+								await this.batchExportToWord(this.getFolderNotes(file, this.settings), `Folder: ${file.path}`);
+							});
+					});
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on('files-menu', (menu, files) => {
+				const notes = files.filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+				if (notes.length > 0) {
+					menu.addItem((item) => {
+						item
+							.setTitle(`Export ${notes.length} notes to ${EXPORT_FORMATS[this.settings.exportFormat].name}`)
+							.setIcon('files')
+							.onClick(async () => {
+								await this.batchExportToWord(notes, 'Selected notes');
+							});
+					});
+				}
+			})
+		);
+
+		// Export opted-in notes again once they have stopped changing
+		this.registerEvent(
+			this.app.vault.on('modify', (file) => {
+				if (file instanceof TFile && file.extension === 'md') {
+					this.scheduleAutoExport(file);
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				if (this.autoExports[oldPath]) {
+					this.autoExports[file.path] = this.autoExports[oldPath];
+					delete this.autoExports[oldPath];
+					void this.savePluginData();
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				if (this.autoExports[file.path]) {
+					delete this.autoExports[file.path];
+					void this.savePluginData();
 				}
 			})
 		);
+		this.register(() => this.autoExportTimers.forEach(timer => window.clearTimeout(timer)));
 
 		// Add settings tab
 		this.addSettingTab(new ToWordSettingTab(this.app, this));
 	}
 
-	async exportToWord(file: TFile) {
+	async exportToWord(file: TFile, format?: ExportFormat, profile?: ExportProfile) {
+		const settings = profile?.settings ?? this.getNoteSettings(file);
+		const formatName = EXPORT_FORMATS[format ?? settings.exportFormat].name;
 		try {
-			new Notice('Exporting to Word...');
-			
-			// Read the markdown content
-			const content = await this.app.vault.read(file);
-			
-			// Get Obsidian's actual font settings if using Obsidian appearance
+			new Notice(`Exporting to ${formatName}...`);
+			const path = await this.convertAndSave(file, [], format, settings);
+			new Notice(path ? `Successfully exported ${file.basename} to ${formatName}!` : `Export of ${file.basename} cancelled`);
+		} catch (error) {
+			console.error(`Error exporting to ${formatName}:`, error);
+			new Notice(`Error exporting to ${formatName}: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Converts a note and saves it next to the other exports. Images and embedded
+	 * notes that could not be found are added to missingResources. Without
+	 * settings, the note's own profile or else the active one is used.
+	 * Returns the path of the export, or null if it was not saved.
+	 */
+	async convertAndSave(file: TFile, missingResources: string[] = [], format?: ExportFormat, settings = this.getNoteSettings(file)): Promise<string | null> {
+		format = format ?? settings.exportFormat;
+		const modelBuilder = this.getModelBuilder(settings);
+
+		// Read the markdown content
+		const content = await this.app.vault.read(file);
+		
+		// Get Obsidian's actual font settings if using Obsidian appearance
+		let obsidianFonts = null;
+		if (settings.useObsidianAppearance) {
+			obsidianFonts = this.getObsidianFontSettings();
+		}
+		
+		// Prepare loader to resolve embedded resources like images
+		const resources = this.createResourceLoader(missingResources);
+
+		// Build the document model and write it in the format
+		const doc = await modelBuilder.build(content, file.basename, resources, this.app.vault.getName(), file.path);
+		const data = await writeDocument(doc, format, settings, {
+			obsidianFonts,
+			loadResource: link => resources.load(link, file.path),
+		});
+		
+		// Save the file
+		return await this.saveExportFile(data, file, EXPORT_FORMATS[format].extension, settings);
+	}
+
+	/**
+	 * Whether a note is exported whenever it changes: it sets the frontmatter
+	 * flag, or is in one of the auto-export folders and does not set it to false.
+	 */
+	isAutoExported(file: TFile): boolean {
+		if (file.extension !== 'md' || this.isBatchLog(file)) {
+			return false;
+		}
+		const flag = this.app.metadataCache.getFileCache(file)?.frontmatter?.[AUTO_EXPORT_KEY];
+		if (typeof flag === 'boolean') {
+			return flag;
+		}
+		return this.autoExportFolders.some(folder => file.path.startsWith(`${folder}/`));
+	}
+
+	// Saving a note changes it many times in a row, so only the last change is exported
+	scheduleAutoExport(file: TFile) {
+		window.clearTimeout(this.autoExportTimers.get(file.path));
+		this.autoExportTimers.set(file.path, window.setTimeout(() => {
+			this.autoExportTimers.delete(file.path);
+			void this.queueAutoExport(file);
+		}, AUTO_EXPORT_DELAY));
+	}
+
+	// An export of the note that is still running finishes first, so two never write the same file
+	private async queueAutoExport(file: TFile) {
+		const next = (this.runningAutoExports.get(file.path) ?? Promise.resolve())
+			.then(() => this.autoExport(file))
+			.catch(error => console.error(`Error exporting ${file.path} automatically:`, error));
+		this.runningAutoExports.set(file.path, next);
+		await next;
+		if (this.runningAutoExports.get(file.path) === next) {
+			this.runningAutoExports.delete(file.path);
+		}
+	}
+
+	/**
+	 * Exports an opted-in note again if it or its settings changed since its
+	 * last automatic export. Failures are logged and shown in the list of
+	 * auto-exported notes rather than in a notice, which would come up on
+	 * every change.
+	 */
+	async autoExport(file: TFile) {
+		if (!this.isAutoExported(file)) {
+			return;
+		}
+
+		// Nothing asks: the export replaces the last one, and goes where the save dialog last saved to
+		const settings: ToWordSettings = { ...this.getNoteSettings(file), existingFiles: 'overwrite' };
+		if (settings.outputLocation === 'save-dialog') {
+			settings.outputLocation = this.lastSaveDirectory ? 'external-folder' : 'same-folder';
+			settings.externalOutputFolder = this.lastSaveDirectory;
+		}
+
+		const previous = this.autoExports[file.path];
+		const hash = await hashText(JSON.stringify(settings) + await this.app.vault.cachedRead(file));
+		if (previous?.hash === hash) {
+			return;
+		}
+
+		try {
+			const path = await this.convertAndSave(file, [], undefined, settings);
+			this.autoExports[file.path] = { hash, exportedAt: Date.now(), path: path ?? undefined };
+		} catch (error) {
+			console.error(`Error exporting ${file.path} automatically:`, error);
+			// No hash, so the next change tries again even if it is undone
+			this.autoExports[file.path] = { ...previous, hash: '', error: error instanceof Error ? error.message : String(error) };
+		}
+		await this.savePluginData();
+	}
+
+	/**
+	 * Exports each note to its own document, carrying on past failures, and
+	 * writes a summary to the export log note.
+	 */
+	async batchExportToWord(files: TFile[], source: string, format?: ExportFormat) {
+		if (files.length === 0) {
+			new Notice('No notes to export');
+			return;
+		}
+
+		// Rather than a save dialog for every note, ask once for the folder to save them in
+		let dialogFolder: string | null = null;
+		if (Platform.isDesktopApp && files.some(file => this.getNoteSettings(file).outputLocation === 'save-dialog')) {
+			dialogFolder = await showFolderDialog(this.lastSaveDirectory || homedir());
+			if (!dialogFolder) {
+				return;
+			}
+			this.lastSaveDirectory = dialogFolder;
+			await this.saveSettings();
+		}
+
+		const formatName = EXPORT_FORMATS[format ?? this.settings.exportFormat].name;
+		const progress = new BatchExportModal(this.app, files.length, formatName);
+		progress.open();
+
+		const results: BatchExportResult[] = [];
+		for (const [index, file] of files.entries()) {
+			if (progress.cancelled) {
+				break;
+			}
+			progress.setProgress(index, file.basename);
+
+			const missingResources: string[] = [];
+			try {
+				let settings = this.getNoteSettings(file);
+				if (dialogFolder && settings.outputLocation === 'save-dialog') {
+					settings = { ...settings, outputLocation: 'external-folder', externalOutputFolder: dialogFolder };
+				}
+				const path = await this.convertAndSave(file, missingResources, format, settings);
+				results.push(path ? { file, missingResources } : { file, missingResources, error: 'Not saved, as a file with the same name exists' });
+			} catch (error) {
+				console.error(`Error exporting ${file.path} to ${formatName}:`, error);
+				results.push({ file, missingResources, error: error instanceof Error ? error.message : String(error) });
+			}
+		}
+		progress.close();
+
+		const failed = results.filter(result => result.error).length;
+		const skipped = files.length - results.length;
+		try {
+			await this.writeBatchLog(source, results, skipped);
+		} catch (error) {
+			console.error('Error writing Word export log:', error);
+		}
+
+		let summary = `Exported ${results.length - failed} of ${files.length} notes to ${formatName}`;
+		if (failed > 0) {
+			summary += `, ${failed} failed`;
+		}
+		if (skipped > 0) {
+			summary += `, ${skipped} skipped`;
+		}
+		new Notice(`${summary}. See "${BATCH_LOG_NAME}" for details.`);
+	}
+
+	async writeBatchLog(source: string, results: BatchExportResult[], skipped: number) {
+		const folder = this.settings.outputLocation === 'custom-folder'
+			? this.settings.customOutputFolder.replace(/^\/+|\/+$/g, '')
+			: '';
+		if (folder && !(await this.app.vault.adapter.exists(folder))) {
+			await this.app.vault.createFolder(folder);
+		}
+		const logPath = folder ? `${folder}/${BATCH_LOG_NAME}.md` : `${BATCH_LOG_NAME}.md`;
+		const link = (file: TFile) => `[[${this.app.metadataCache.fileToLinktext(file, logPath)}|${file.basename}]]`;
+
+		const failures = results.filter(result => result.error);
+		const withMissing = results.filter(result => result.missingResources.length > 0);
+		const lines = [
+			`# ${BATCH_LOG_NAME}`,
+			'',
+			`- Source: ${source}`,
+			`- Finished: ${new Date().toLocaleString()}`,
+			`- Exported: ${results.length - failures.length}`,
+			`- Failed: ${failures.length}`,
+			`- Skipped (cancelled): ${skipped}`,
+		];
+
+		if (failures.length > 0) {
+			lines.push('', '## Failed', '');
+			failures.forEach(result => lines.push(`- ${link(result.file)}: ${result.error}`));
+		}
+		if (withMissing.length > 0) {
+			lines.push('', '## Missing resources', '');
+			withMissing.forEach(result => {
+				const missing = Array.from(new Set(result.missingResources)).map(resource => `\`${resource}\``);
+				lines.push(`- ${link(result.file)}: ${missing.join(', ')}`);
+			});
+		}
+		lines.push('', '## Exported', '');
+		results.filter(result => !result.error).forEach(result => lines.push(`- ${link(result.file)}`));
+
+		// The log is replaced on every batch export
+		const existing = this.app.vault.getAbstractFileByPath(logPath);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, lines.join('\n') + '\n');
+		} else {
+			await this.app.vault.create(logPath, lines.join('\n') + '\n');
+		}
+	}
+
+	// The export log is written next to the exports, so exports of the same folder must leave it out
+	isBatchLog(file: TFile): boolean {
+		return file.extension === 'md' && file.basename === BATCH_LOG_NAME;
+	}
+
+	getAllNoteTags(): string[] {
+		const tags = new Set<string>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const cache = this.app.metadataCache.getFileCache(file);
+			(cache ? getAllTags(cache) ?? [] : []).forEach(tag => tags.add(tag));
+		}
+		return Array.from(tags).sort((a, b) => a.localeCompare(b));
+	}
+
+	// Notes tagged with the tag or one of its nested tags (#project matches #project/alpha)
+	getNotesWithTag(tag: string): TFile[] {
+		const wanted = tag.toLowerCase();
+		return this.app.vault.getMarkdownFiles()
+			.filter(file => !this.isBatchLog(file))
+			.filter(file => {
+				const cache = this.app.metadataCache.getFileCache(file);
+				return (cache ? getAllTags(cache) ?? [] : [])
+					.some(noteTag => noteTag.toLowerCase() === wanted || noteTag.toLowerCase().startsWith(`${wanted}/`));
+			})
+			.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true, sensitivity: 'base' }));
+	}
+
+	async exportFolderToWord(folder: TFolder, format?: ExportFormat, profile?: ExportProfile) {
+		const settings = profile?.settings ?? this.settings;
+		format = format ?? settings.exportFormat;
+		const formatName = EXPORT_FORMATS[format].name;
+		const modelBuilder = this.getModelBuilder(settings);
+		try {
+			const files = this.getFolderNotes(folder, settings);
+			if (files.length === 0) {
+				new Notice('No notes to export in this folder');
+				return;
+			}
+
+			const title = folder.isRoot() ? this.app.vault.getName() : folder.name;
+			new Notice(`Exporting ${files.length} notes to ${formatName}...`);
+
+			const notes: NoteSource[] = [];
+			for (const file of files) {
+				notes.push({ title: file.basename, path: file.path, markdown: await this.app.vault.read(file) });
+			}
+
 			let obsidianFonts = null;
-			if (this.settings.useObsidianAppearance) {
+			if (settings.useObsidianAppearance) {
 				obsidianFonts = this.getObsidianFontSettings();
 			}
-			
-			// Prepare loader to resolve embedded resources like images
-			const resourceLoader = async (link: string): Promise<ArrayBuffer | null> => {
-				const targetFile = this.app.metadataCache.getFirstLinkpathDest(link, file.path);
-				if (!targetFile) {
-					return null;
+
+			const resources = this.createResourceLoader();
+			const doc = await modelBuilder.buildNotes(
+				notes,
+				title,
+				resources,
+				this.app.vault.getName(),
+				settings.chapterPageBreaks,
+			);
+			// The reference document and header logo are found from the first note
+			const sourcePath = notes[0]?.path ?? title;
+			const data = await writeDocument(doc, format, settings, {
+				obsidianFonts,
+				loadResource: link => resources.load(link, sourcePath),
+			});
+			const path = await this.saveExportFile(data, folder, EXPORT_FORMATS[format].extension, settings);
+
+			new Notice(path ? `Successfully exported ${title} to ${formatName}!` : `Export of ${title} cancelled`);
+		} catch (error) {
+			console.error(`Error exporting folder to ${formatName}:`, error);
+			new Notice(`Error exporting to ${formatName}: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Markdown notes in the folder and its subfolders, in the chapter order of the given settings.
+	 */
+	getFolderNotes(folder: TFolder, settings: ToWordSettings): TFile[] {
+		const files: TFile[] = [];
+		Vault.recurseChildren(folder, (child) => {
+			if (child instanceof TFile && child.extension === 'md' && !this.isBatchLog(child)) {
+				files.push(child);
+			}
+		});
+		files.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true, sensitivity: 'base' }));
+
+		if (settings.folderExportOrder === 'frontmatter') {
+			// Notes without a numeric `order` key go last, by name
+			const orderOf = (file: TFile) => {
+				const order = parseFloat(this.app.metadataCache.getFileCache(file)?.frontmatter?.order);
+				return isNaN(order) ? Number.MAX_VALUE : order;
+			};
+			return files.sort((a, b) => orderOf(a) - orderOf(b));
+		}
+
+		if (settings.folderExportOrder === 'index-note') {
+			// The index is a folder note (same name as the folder) or a note called "index"
+			const indexNote = files.find(file => file.parent === folder
+				&& (file.basename === folder.name || file.basename.toLowerCase() === 'index'));
+			if (!indexNote) {
+				new Notice('No index note found, ordering notes by name');
+				return files;
+			}
+
+			const linked: TFile[] = [];
+			for (const link of this.app.metadataCache.getFileCache(indexNote)?.links ?? []) {
+				const target = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(link.link), indexNote.path);
+				if (target && target !== indexNote && files.includes(target) && !linked.includes(target)) {
+					linked.push(target);
 				}
-				try {
-					return await this.app.vault.readBinary(targetFile);
-				} catch (err) {
-					console.error(`Failed to load embedded resource: ${link}`, err);
-					return null;
+			}
+			// Notes the index does not link to follow in name order
+			return [...linked, ...files.filter(file => file !== indexNote && !linked.includes(file))];
+		}
+
+		return files;
+	}
+
+	/**
+	 * Loads the files notes link to from the vault, adding the links that
+	 * could not be found to missingResources.
+	 */
+	createResourceLoader(missingResources: string[] = []): ResourceLoader {
+		return {
+			load: async (link, sourcePath) => {
+				const data = await this.loadResource(link, sourcePath);
+				if (!data) {
+					missingResources.push(link);
 				}
-			};
+				return data;
+			},
+			resolve: (link, sourcePath) => this.app.metadataCache.getFirstLinkpathDest(link, sourcePath)?.path ?? null,
+		};
+	}
 
-			// Convert to DOCX
-			const blob = await this.converter.convert(content, file.basename, obsidianFonts, resourceLoader);
-			
-			// Save the file
-			await this.saveDocxFile(blob, file);
-			
-			new Notice(`Successfully exported ${file.basename} to Word!`);
-		} catch (error) {
-			console.error('Error exporting to Word:', error);
-			new Notice(`Error exporting to Word: ${error.message}`);
+	async loadResource(link: string, sourcePath: string): Promise<ArrayBuffer | null> {
+		const targetFile = this.app.metadataCache.getFirstLinkpathDest(link, sourcePath);
+		if (!targetFile) {
+			return null;
+		}
+		try {
+			return await this.app.vault.readBinary(targetFile);
+		} catch (err) {
+			console.error(`Failed to load embedded resource: ${link}`, err);
+			return null;
 		}
 	}
 
@@ -265,45 +972,499 @@ export default class ToWordPlugin extends Plugin {
 		return { sizes, fonts, colors };
 	}
 
-	async saveDocxFile(blob: Blob, sourceFile: TFile) {
-		// Convert blob to ArrayBuffer
-		const arrayBuffer = await blob.arrayBuffer();
-		
-		const filename = `${sourceFile.basename}.docx`;
-		let outputPath = '';
+	/**
+	 * Saves an export under the name from the filename pattern, in the folder
+	 * from the output location. Returns the path, or null when a file of that
+	 * name exists and the user chose not to replace it, or cancelled the save
+	 * dialog. Exports that cannot be saved outside the vault are saved next
+	 * to the note instead.
+	 */
+	async saveExportFile(arrayBuffer: ArrayBuffer, sourceFile: TFile | TFolder, extension: string, settings = this.settings): Promise<string | null> {
+		// A folder export is named after the folder and saved next to it
+		const basename = sourceFile instanceof TFile
+			? sourceFile.basename
+			: sourceFile.isRoot() ? this.app.vault.getName() : sourceFile.name;
+		const parent = sourceFile.parent && !sourceFile.parent.isRoot() ? sourceFile.parent : null;
+		const frontmatter = sourceFile instanceof TFile ? this.app.metadataCache.getFileCache(sourceFile)?.frontmatter ?? {} : {};
+		const values: FilenameValues = { basename, folder: parent ? parent.name : this.app.vault.getName(), frontmatter };
+		const external = settings.outputLocation === 'external-folder' || settings.outputLocation === 'save-dialog';
+		const saveInVault = (reason: string) => {
+			new Notice(`${reason}. The export is saved next to the note instead.`, 8000);
+			return this.saveExportFile(arrayBuffer, sourceFile, extension, { ...settings, outputLocation: 'same-folder' });
+		};
+		if (external && !Platform.isDesktopApp) {
+			return saveInVault('Saving outside the vault needs the desktop app');
+		}
+
+		if (settings.outputLocation === 'save-dialog') {
+			const name = formatFilename(settings.filenamePattern, values);
+			const formatName = Object.values(EXPORT_FORMATS).find(format => format.extension === extension)?.name ?? extension;
+			const outputPath = await showSaveDialog(join(this.lastSaveDirectory || homedir(), `${name}.${extension}`), extension, formatName);
+			if (!outputPath) {
+				return null;
+			}
+			try {
+				await writeExternalFile(outputPath, arrayBuffer);
+			} catch (error) {
+				console.error(`Error saving ${outputPath}:`, error);
+				return saveInVault(`Could not save to ${outputPath}: ${error.message}`);
+			}
+			this.lastSaveDirectory = dirname(outputPath);
+			await this.saveSettings();
+			return outputPath;
+		}
+
+		let folder = '';
 		
 		// Determine output location
-		if (this.settings.outputLocation === 'same-folder') {
+		if (settings.outputLocation === 'same-folder') {
 			// Save in the same folder as the markdown file
-			const parentPath = sourceFile.parent?.path || '';
-			outputPath = parentPath ? `${parentPath}/${filename}` : filename;
-		} else if (this.settings.outputLocation === 'vault-root') {
-			// Save in the vault root
-			outputPath = filename;
-		} else if (this.settings.outputLocation === 'custom-folder') {
-			// Save in the custom folder
-			const customDir = this.settings.customOutputFolder.replace(/^\/+|\/+$/g, ''); // Trim slashes
+			folder = parent?.path ?? '';
+		} else if (settings.outputLocation === 'custom-folder') {
+			// Save in the custom folder, optionally in the same subfolders as the note
+			const customDir = settings.customOutputFolder.replace(/^\/+|\/+$/g, ''); // Trim slashes
+			folder = [customDir, settings.mirrorFolders ? parent?.path ?? '' : ''].filter(part => part).join('/');
 			
 			// Create the folder if it doesn't exist
-			if (customDir && !(await this.app.vault.adapter.exists(customDir))) {
-				await this.app.vault.createFolder(customDir);
+			if (folder && !(await this.app.vault.adapter.exists(folder))) {
+				await this.app.vault.createFolder(folder);
 			}
-			
-			outputPath = customDir ? `${customDir}/${filename}` : filename;
+		} else if (settings.outputLocation === 'external-folder') {
+			// Save in a folder outside the vault, such as a shared network folder
+			if (!isAbsolute(settings.externalOutputFolder)) {
+				return saveInVault(settings.externalOutputFolder
+					? `The output folder "${settings.externalOutputFolder}" is not a full path`
+					: 'No output folder outside the vault is set');
+			}
+			folder = join(settings.externalOutputFolder, settings.mirrorFolders ? parent?.path ?? '' : '');
 		}
-		
-		// Save the file
-		await this.app.vault.adapter.writeBinary(outputPath, arrayBuffer);
-	}
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-	}
+		const pathFor = (name: string) => external
+			? join(folder, `${name}.${extension}`)
+			: folder ? `${folder}/${name}.${extension}` : `${name}.${extension}`;
+		const exists = (name: string) => external ? externalFileExists(pathFor(name)) : this.app.vault.adapter.exists(pathFor(name));
 
-	async saveSettings() {
-		await this.saveData(this.settings);
-		// Update converter settings
-		this.converter = new MarkdownToDocxConverter(this.settings);
+		// {version} counts up to the first name that is not taken
+		let name = formatFilename(settings.filenamePattern, values);
+		if (/\{\s*version\s*\}/i.test(settings.filenamePattern)) {
+			for (let version = 2; await exists(name); version++) {
+				name = formatFilename(settings.filenamePattern, { ...values, version });
+			}
+		}
+
+		if (await exists(name)) {
+			const policy = settings.existingFiles === 'ask'
+				? await new ExistingFileModal(this.app, pathFor(name)).choose()
+				: settings.existingFiles;
+			if (!policy) {
+				return null;
+			}
+			if (policy === 'suffix') {
+				const base = name;
+				for (let i = 1; await exists(name); i++) {
+					name = `${base} ${i}`;
+				}
+			} else if (policy === 'timestamp') {
+				name = `${name} ${formatNow('YYYY-MM-DD HH-mm-ss')}`;
+			}
+		}
+		
+		// Save the file
+		const outputPath = pathFor(name);
+		if (external) {
+			try {
+				await writeExternalFile(outputPath, arrayBuffer);
+			} catch (error) {
+				console.error(`Error saving ${outputPath}:`, error);
+				return saveInVault(`Could not save to ${outputPath}: ${error.message}`);
+			}
+		} else {
+			await this.app.vault.adapter.writeBinary(outputPath, arrayBuffer);
+		}
+		return outputPath;
+	}
+
+	/**
+	 * Converts a .docx in the vault to a note next to it. Images are saved as
+	 * attachments of the new note.
+	 */
+	async importWordDocument(file: TFile) {
+		try {
+			new Notice('Importing Word document...');
+			const folder = file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : '';
+			let notePath = `${folder}${file.basename}.md`;
+			for (let i = 1; this.app.vault.getAbstractFileByPath(notePath); i++) {
+				notePath = `${folder}${file.basename} ${i}.md`;
+			}
+
+			const importer = new DocxToMarkdownConverter();
+			const markdown = await importer.convert(await this.app.vault.readBinary(file), file.basename, async (name, data) => {
+				const imagePath = await this.app.fileManager.getAvailablePathForAttachment(name, notePath);
+				const image = await this.app.vault.createBinary(imagePath, data);
+				return this.app.metadataCache.fileToLinktext(image, notePath);
+			});
+
+			const note = await this.app.vault.create(notePath, markdown);
+			await this.app.workspace.getLeaf(false).openFile(note);
+			new Notice(`Imported ${file.name} as ${note.basename}`);
+		} catch (error) {
+			console.error('Error importing Word document:', error);
+			new Notice(`Error importing Word document: ${error.message}`);
+		}
+	}
+
+	/**
+	 * The settings to export a note with: the profile named by its word-profile
+	 * frontmatter key, or else the active profile.
+	 */
+	getNoteSettings(file: TFile): ToWordSettings {
+		const name = this.app.metadataCache.getFileCache(file)?.frontmatter?.[PROFILE_KEY];
+		if (typeof name !== 'string' || !name.trim()) {
+			return this.settings;
+		}
+		const profile = this.profiles.find(candidate => candidate.name.toLowerCase() === name.trim().toLowerCase());
+		if (!profile) {
+			console.warn(`Export profile "${name}" of ${file.path} not found, using "${this.getActiveProfile().name}"`);
+			return this.settings;
+		}
+		return profile.settings;
+	}
+
+	// The active profile's document builder is kept between exports; other profiles get their own
+	getModelBuilder(settings: ToWordSettings): DocumentModelBuilder {
+		return settings === this.settings ? this.modelBuilder : new DocumentModelBuilder(settings, this.diagramRenderers);
+	}
+
+	getActiveProfile(): ExportProfile {
+		return this.profiles.find(profile => profile.id === this.activeProfile) ?? this.profiles[0];
+	}
+
+	async setActiveProfile(id: string) {
+		this.activeProfile = id;
+		this.settings = this.getActiveProfile().settings;
+		await this.saveSettings();
+	}
+
+	/**
+	 * Adds a profile with a copy of the active profile's settings and makes it active.
+	 */
+	async createProfile(): Promise<ExportProfile> {
+		let name = 'New profile';
+		for (let i = 2; this.profiles.some(profile => profile.name === name); i++) {
+			name = `New profile ${i}`;
+		}
+		const profile: ExportProfile = { id: `profile-${Date.now().toString(36)}`, name, settings: { ...this.settings } };
+		this.profiles.push(profile);
+		this.addProfileCommand(profile);
+		await this.setActiveProfile(profile.id);
+		return profile;
+	}
+
+	async deleteProfile(id: string) {
+		if (this.profiles.length <= 1) {
+			return;
+		}
+		this.profiles = this.profiles.filter(profile => profile.id !== id);
+		this.removeProfileCommand(id);
+		await this.setActiveProfile(this.activeProfile === id ? this.profiles[0].id : this.activeProfile);
+	}
+
+	async renameProfile(profile: ExportProfile, name: string) {
+		profile.name = name;
+		// The command palette keeps the name a command was added with, so the command is added again
+		this.removeProfileCommand(profile.id);
+		this.addProfileCommand(profile);
+		await this.saveSettings();
+	}
+
+	// removeCommand came in Obsidian 1.7.2; before it, adding a command with the same id replaces it
+	removeProfileCommand(id: string) {
+		if (typeof this.removeCommand === 'function') {
+			this.removeCommand(`export-with-profile-${id}`);
+		}
+	}
+
+	// Without removeCommand, the command of a deleted profile stays registered but is no longer offered
+	addProfileCommand(profile: ExportProfile) {
+		this.addCommand({
+			id: `export-with-profile-${profile.id}`,
+			name: `Export current file with profile "${profile.name}"`,
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				const current = this.profiles.find(candidate => candidate.id === profile.id);
+				if (activeFile && current) {
+					if (!checking) {
+						this.exportToWord(activeFile, undefined, current);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+	}
+
+	async loadSettings() {
+		const data = await this.loadData();
+		if (Array.isArray(data?.profiles) && data.profiles.length > 0) {
+			this.profiles = (data as ToWordData).profiles.map(profile => ({
+				id: profile.id,
+				name: profile.name,
+				settings: Object.assign({}, DEFAULT_SETTINGS, profile.settings),
+			}));
+			this.activeProfile = data.activeProfile;
+		} else {
+			// Settings saved before profiles were one flat object, which becomes the default profile
+			this.profiles = [{ id: DEFAULT_PROFILE_ID, name: 'Default', settings: Object.assign({}, DEFAULT_SETTINGS, data) }];
+			this.activeProfile = DEFAULT_PROFILE_ID;
+		}
+		this.settings = this.getActiveProfile().settings;
+		this.lastSaveDirectory = data?.lastSaveDirectory ?? '';
+		this.autoExportFolders = data?.autoExportFolders ?? [];
+		this.autoExports = data?.autoExports ?? {};
+	}
+
+	async saveSettings() {
+		await this.savePluginData();
+		// Update the document builder's settings
+		this.modelBuilder = new DocumentModelBuilder(this.settings, this.diagramRenderers);
+	}
+
+	// Saves the profiles with the rest of the plugin's data, such as the auto-export records
+	async savePluginData() {
+		const data: ToWordData = {
+			activeProfile: this.activeProfile,
+			profiles: this.profiles,
+			lastSaveDirectory: this.lastSaveDirectory,
+			autoExportFolders: this.autoExportFolders,
+			autoExports: this.autoExports,
+		};
+		await this.saveData(data);
+	}
+}
+
+async function hashText(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+	return Array.from(new Uint8Array(digest), byte => ('0' + byte.toString(16)).slice(-2)).join('');
+}
+
+class BatchExportModal extends Modal {
+	cancelled = false;
+	total: number;
+	statusEl: HTMLElement;
+	progressEl: HTMLProgressElement;
+
+	constructor(app: App, total: number, formatName: string) {
+		super(app);
+		this.total = total;
+		this.titleEl.setText(`Exporting to ${formatName}`);
+		this.statusEl = this.contentEl.createEl('p');
+		this.progressEl = this.contentEl.createEl('progress', { cls: 'export-to-word-progress' });
+		this.progressEl.max = total;
+		new Setting(this.contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+		this.setProgress(0, '');
+	}
+
+	setProgress(done: number, current: string) {
+		this.progressEl.value = done;
+		this.statusEl.setText(current ? `${done + 1} of ${this.total}: ${current}` : `0 of ${this.total}`);
+	}
+
+	onClose() {
+		// Closing the dialog stops the export after the current note
+		this.cancelled = true;
+	}
+}
+
+class TagSuggestModal extends FuzzySuggestModal<string> {
+	tags: string[];
+	onChoose: (tag: string) => void;
+
+	constructor(app: App, tags: string[], onChoose: (tag: string) => void) {
+		super(app);
+		this.tags = tags;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Export notes with tag...');
+	}
+
+	getItems(): string[] {
+		return this.tags;
+	}
+
+	getItemText(tag: string): string {
+		return tag;
+	}
+
+	onChooseItem(tag: string) {
+		this.onChoose(tag);
+	}
+}
+
+class FormatSuggestModal extends FuzzySuggestModal<ExportFormat> {
+	onChoose: (format: ExportFormat) => void;
+
+	constructor(app: App, onChoose: (format: ExportFormat) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Export as...');
+	}
+
+	getItems(): ExportFormat[] {
+		return Object.keys(EXPORT_FORMATS) as ExportFormat[];
+	}
+
+	getItemText(format: ExportFormat): string {
+		return `${EXPORT_FORMATS[format].name} (.${EXPORT_FORMATS[format].extension})`;
+	}
+
+	renderSuggestion(item: FuzzyMatch<ExportFormat>, el: HTMLElement) {
+		super.renderSuggestion(item, el);
+		el.createEl('small', { text: EXPORT_FORMATS[item.item].description, cls: 'export-to-word-format-description' });
+	}
+
+	onChooseItem(format: ExportFormat) {
+		this.onChoose(format);
+	}
+}
+
+class ProfileSuggestModal extends FuzzySuggestModal<ExportProfile> {
+	profiles: ExportProfile[];
+	onChoose: (profile: ExportProfile) => void;
+
+	constructor(app: App, profiles: ExportProfile[], onChoose: (profile: ExportProfile) => void) {
+		super(app);
+		this.profiles = profiles;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Export with profile...');
+	}
+
+	getItems(): ExportProfile[] {
+		return this.profiles;
+	}
+
+	getItemText(profile: ExportProfile): string {
+		return profile.name;
+	}
+
+	onChooseItem(profile: ExportProfile) {
+		this.onChoose(profile);
+	}
+}
+
+/**
+ * Asks what to do when an export would replace a file: replace it, keep
+ * both by numbering the new file, or cancel the export.
+ */
+class ExistingFileModal extends Modal {
+	private resolve: (choice: 'overwrite' | 'suffix' | null) => void = () => {};
+	private choice: 'overwrite' | 'suffix' | null = null;
+
+	constructor(app: App, path: string) {
+		super(app);
+		this.titleEl.setText('File already exists');
+		this.contentEl.createEl('p', { text: `"${path}" already exists.` });
+		new Setting(this.contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Keep both')
+				.onClick(() => this.closeWith('suffix')))
+			.addButton(button => button
+				.setButtonText('Replace')
+				.setWarning()
+				.onClick(() => this.closeWith('overwrite')));
+	}
+
+	choose(): Promise<'overwrite' | 'suffix' | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	private closeWith(choice: 'overwrite' | 'suffix') {
+		this.choice = choice;
+		this.close();
+	}
+
+	onClose() {
+		this.resolve(this.choice);
+	}
+}
+
+class AutoExportListModal extends Modal {
+	constructor(app: App, notes: { file: TFile; record?: AutoExportRecord }[]) {
+		super(app);
+		this.titleEl.setText('Auto-exported notes');
+		if (notes.length === 0) {
+			this.contentEl.createEl('p', { text: `No notes are exported automatically. Add "${AUTO_EXPORT_KEY}: true" to a note's frontmatter, or add its folder in the settings.` });
+			return;
+		}
+
+		const list = this.contentEl.createEl('ul');
+		for (const { file, record } of notes) {
+			const item = list.createEl('li');
+			const link = item.createEl('a', { text: file.path, href: '#' });
+			link.addEventListener('click', (event) => {
+				event.preventDefault();
+				this.close();
+				void this.app.workspace.getLeaf().openFile(file);
+			});
+			let status = record?.exportedAt ? `exported ${new Date(record.exportedAt).toLocaleString()}` : 'not exported yet';
+			if (record?.path) {
+				status += ` to ${record.path}`;
+			}
+			if (record?.error) {
+				status += `; the latest export failed: ${record.error}`;
+			}
+			item.appendText(`: ${status}`);
+		}
+	}
+}
+
+class ConfirmModal extends Modal {
+	constructor(app: App, title: string, message: string, onConfirm: () => void) {
+		super(app);
+		this.titleEl.setText(title);
+		this.contentEl.createEl('p', { text: message });
+		new Setting(this.contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Delete')
+				.setWarning()
+				.onClick(() => {
+					this.close();
+					onConfirm();
+				}));
+	}
+}
+
+class DocxSuggestModal extends FuzzySuggestModal<TFile> {
+	files: TFile[];
+	onChoose: (file: TFile) => void;
+
+	constructor(app: App, files: TFile[], onChoose: (file: TFile) => void) {
+		super(app);
+		this.files = files;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Import Word document...');
+	}
+
+	getItems(): TFile[] {
+		return this.files;
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile) {
+		this.onChoose(file);
 	}
 }
 
@@ -322,6 +1483,64 @@ class ToWordSettingTab extends PluginSettingTab {
 
 		containerEl.createEl('h2', {text: 'Export to Word Settings'});
 
+		new Setting(containerEl)
+			.setName('Auto-export folders')
+			.setDesc(`Notes in these folders, one per line, are exported again whenever they change, as are notes with "${AUTO_EXPORT_KEY}: true" in their frontmatter. A note can opt out with "${AUTO_EXPORT_KEY}: false". This applies to every profile.`)
+			.addTextArea(text => text
+				.setPlaceholder('Published')
+				.setValue(this.plugin.autoExportFolders.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.autoExportFolders = value.split('\n')
+						.map(folder => folder.trim().replace(/^\/+|\/+$/g, ''))
+						.filter(folder => folder);
+					await this.plugin.savePluginData();
+				}));
+
+		const profile = this.plugin.getActiveProfile();
+		new Setting(containerEl)
+			.setName('Profile')
+			.setDesc(`The settings below belong to this profile, which exports use unless a profile command is run or a note names another profile in its "${PROFILE_KEY}" frontmatter key`)
+			.addDropdown(dropdown => {
+				this.plugin.profiles.forEach(candidate => dropdown.addOption(candidate.id, candidate.name));
+				dropdown
+					.setValue(profile.id)
+					.onChange(async (value) => {
+						await this.plugin.setActiveProfile(value);
+						this.display();
+					});
+			})
+			.addExtraButton(button => button
+				.setIcon('plus')
+				.setTooltip('New profile from these settings')
+				.onClick(async () => {
+					await this.plugin.createProfile();
+					this.display();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Delete profile')
+				.setDisabled(this.plugin.profiles.length <= 1)
+				.onClick(() => {
+					if (this.plugin.profiles.length <= 1) {
+						return;
+					}
+					new ConfirmModal(this.app, 'Delete profile', `Delete the profile "${profile.name}" and its settings?`, async () => {
+						await this.plugin.deleteProfile(profile.id);
+						this.display();
+					}).open();
+				}));
+
+		new Setting(containerEl)
+			.setName('Profile name')
+			.setDesc('Also the name of the profile\'s export command')
+			.addText(text => text
+				.setValue(profile.name)
+				.onChange(async (value) => {
+					if (value.trim()) {
+						await this.plugin.renameProfile(profile, value.trim());
+					}
+				}));
+
 		new Setting(containerEl)
 			.setName('Default font family')
 			.setDesc('The default font family for exported documents')
@@ -377,16 +1596,66 @@ class ToWordSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		const formatDesc = (format: ExportFormat) =>
+			`Format of the export commands and menu items; the "Export ... as..." commands ask each time. ${EXPORT_FORMATS[format].description}.`;
+		const formatSetting = new Setting(containerEl)
+			.setName('Export format')
+			.setDesc(formatDesc(this.plugin.settings.exportFormat))
+			.addDropdown(dropdown => {
+				for (const [format, { name, extension }] of Object.entries(EXPORT_FORMATS)) {
+					dropdown.addOption(format, `${name} (.${extension})`);
+				}
+				dropdown
+					.setValue(this.plugin.settings.exportFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.exportFormat = value as ExportFormat;
+						formatSetting.setDesc(formatDesc(this.plugin.settings.exportFormat));
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Filename pattern')
+			.setDesc('Name of the exported file without its extension. Placeholders: {basename}, {folder}, {title}, {author}, {date}, {date:YYYY-MM-DD}, {time}, {version} and frontmatter keys such as {status}')
+			.addText(text => text
+				.setPlaceholder('{basename}')
+				.setValue(this.plugin.settings.filenamePattern)
+				.onChange(async (value) => {
+					this.plugin.settings.filenamePattern = value || '{basename}';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('When the file exists')
+			.setDesc('What to do when an export would replace a file of the same name')
+			.addDropdown(dropdown => dropdown
+				.addOption('overwrite', 'Replace it')
+				.addOption('suffix', 'Add a number (Note 1, Note 2, ...)')
+				.addOption('timestamp', 'Add the date and time')
+				.addOption('ask', 'Ask')
+				.setValue(this.plugin.settings.existingFiles)
+				.onChange(async (value: 'overwrite' | 'suffix' | 'timestamp' | 'ask') => {
+					this.plugin.settings.existingFiles = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Output location')
-			.setDesc('Where to save the exported Word documents')
+			.setDesc('Where to save the exported documents')
 			.addDropdown(dropdown => dropdown
 				.addOption('same-folder', 'Same folder as markdown file')
 				.addOption('vault-root', 'Vault root')
 				.addOption('custom-folder', 'Custom folder')
+				.then(dropdown => {
+					// Folders outside the vault are written with Node's fs
+					if (Platform.isDesktopApp) {
+						dropdown.addOption('external-folder', 'Folder outside the vault');
+						dropdown.addOption('save-dialog', 'Ask where to save');
+					}
+				})
 				.setValue(this.plugin.settings.outputLocation)
 				.onChange(async (value) => {
-					this.plugin.settings.outputLocation = value as 'same-folder' | 'vault-root' | 'custom-folder';
+					this.plugin.settings.outputLocation = value as ToWordSettings['outputLocation'];
 					await this.plugin.saveSettings();
 					this.display(); // Refresh to show/hide custom folder setting
 				}));
@@ -402,6 +1671,49 @@ class ToWordSettingTab extends PluginSettingTab {
 						this.plugin.settings.customOutputFolder = value.replace(/^\/+|\/+$/g, '');
 						await this.plugin.saveSettings();
 					}));
+
+			new Setting(containerEl)
+				.setName('Mirror folders')
+				.setDesc('Keep the vault folder structure under the output folder, so notes with the same name in different folders do not collide')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.mirrorFolders)
+					.onChange(async (value) => {
+						this.plugin.settings.mirrorFolders = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		if (this.plugin.settings.outputLocation === 'external-folder') {
+			new Setting(containerEl)
+				.setName('Output folder outside the vault')
+				.setDesc('Full path of the folder, such as a shared network folder. If it cannot be written to, exports are saved next to the note.')
+				.addText(text => text
+					.setPlaceholder('/Users/me/Documents/Exports')
+					.setValue(this.plugin.settings.externalOutputFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.externalOutputFolder = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addButton(button => button
+					.setButtonText('Choose...')
+					.onClick(async () => {
+						const folder = await showFolderDialog(this.plugin.settings.externalOutputFolder || this.plugin.lastSaveDirectory || homedir());
+						if (folder) {
+							this.plugin.settings.externalOutputFolder = folder;
+							await this.plugin.saveSettings();
+							this.display();
+						}
+					}));
+
+			new Setting(containerEl)
+				.setName('Mirror folders')
+				.setDesc('Keep the vault folder structure under the output folder, so notes with the same name in different folders do not collide')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.mirrorFolders)
+					.onChange(async (value) => {
+						this.plugin.settings.mirrorFolders = value;
+						await this.plugin.saveSettings();
+					}));
 		}
 
 		new Setting(containerEl)
@@ -414,6 +1726,66 @@ class ToWordSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Table of contents')
+			.setDesc('Insert a Word table of contents at the top of the document, or where the note contains [TOC] or [[_TOC_]]')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.tableOfContents)
+				.onChange(async (value) => {
+					this.plugin.settings.tableOfContents = value;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide table of contents settings
+				}));
+
+		if (this.plugin.settings.tableOfContents) {
+			new Setting(containerEl)
+				.setName('Table of contents levels')
+				.setDesc('Range of heading levels to include')
+				.addDropdown(dropdown => {
+					for (let level = 1; level <= 6; level++) {
+						dropdown.addOption(String(level), `From H${level}`);
+					}
+					dropdown
+						.setValue(String(this.plugin.settings.tocMinLevel))
+						.onChange(async (value) => {
+							this.plugin.settings.tocMinLevel = parseInt(value);
+							await this.plugin.saveSettings();
+						});
+				})
+				.addDropdown(dropdown => {
+					for (let level = 1; level <= 6; level++) {
+						dropdown.addOption(String(level), `To H${level}`);
+					}
+					dropdown
+						.setValue(String(this.plugin.settings.tocMaxLevel))
+						.onChange(async (value) => {
+							this.plugin.settings.tocMaxLevel = parseInt(value);
+							await this.plugin.saveSettings();
+						});
+				});
+
+			new Setting(containerEl)
+				.setName('Pre-fill table of contents')
+				.setDesc('Write the entries into the document so they show even in viewers that never update fields')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.tocStaticEntries)
+					.onChange(async (value) => {
+						this.plugin.settings.tocStaticEntries = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Reference document')
+			.setDesc('Path to a .docx in your vault whose styles, numbering, theme fonts, headers/footers and page setup are reused, like a Word template. Leave empty to build the styles from these settings.')
+			.addText(text => text
+				.setPlaceholder('Templates/Letterhead.docx')
+				.setValue(this.plugin.settings.referenceDocument)
+				.onChange(async (value) => {
+					this.plugin.settings.referenceDocument = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Page size')
 			.setDesc('The page size for the exported document')
@@ -429,5 +1801,349 @@ class ToWordSettingTab extends PluginSettingTab {
 					this.plugin.settings.pageSize = value as 'A4' | 'A5' | 'A3' | 'Letter' | 'Legal' | 'Tabloid';
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName('Orientation')
+			.setDesc('Page orientation of the document. Use <!-- landscape --> and <!-- portrait --> in a note to switch for part of it.')
+			.addDropdown(dropdown => dropdown
+				.addOption('portrait', 'Portrait')
+				.addOption('landscape', 'Landscape')
+				.setValue(this.plugin.settings.orientation)
+				.onChange(async (value) => {
+					this.plugin.settings.orientation = value as 'portrait' | 'landscape';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Margins')
+			.setDesc('Page margins, using Word\'s presets or your own')
+			.addDropdown(dropdown => dropdown
+				.addOption('normal', 'Normal (1")')
+				.addOption('narrow', 'Narrow (0.5")')
+				.addOption('moderate', 'Moderate (1" top and bottom, 0.75" sides)')
+				.addOption('wide', 'Wide (1" top and bottom, 2" sides)')
+				.addOption('custom', 'Custom')
+				.setValue(this.plugin.settings.marginPreset)
+				.onChange(async (value) => {
+					this.plugin.settings.marginPreset = value as 'normal' | 'narrow' | 'moderate' | 'wide' | 'custom';
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide custom margin settings
+				}));
+
+		if (this.plugin.settings.marginPreset === 'custom') {
+			const margins: { key: 'marginTop' | 'marginRight' | 'marginBottom' | 'marginLeft'; label: string }[] = [
+				{ key: 'marginTop', label: 'Top' },
+				{ key: 'marginRight', label: 'Right' },
+				{ key: 'marginBottom', label: 'Bottom' },
+				{ key: 'marginLeft', label: 'Left' },
+			];
+			const marginSetting = new Setting(containerEl)
+				.setName('Custom margins')
+				.setDesc('Top, right, bottom and left margins in inches');
+			for (const margin of margins) {
+				marginSetting.addText(text => text
+					.setPlaceholder(margin.label)
+					.setValue(String(this.plugin.settings[margin.key]))
+					.onChange(async (value) => {
+						const inches = parseFloat(value);
+						if (!isNaN(inches) && inches >= 0) {
+							this.plugin.settings[margin.key] = inches;
+							await this.plugin.saveSettings();
+						}
+					}));
+			}
+		}
+
+		new Setting(containerEl)
+			.setName('Header')
+			.setDesc('Left, centre and right header text. Placeholders: {title}, {author}, {date}, {page}, {pages} and frontmatter keys such as {status}.')
+			.addText(text => text
+				.setPlaceholder('Left')
+				.setValue(this.plugin.settings.headerLeft)
+				.onChange(async (value) => {
+					this.plugin.settings.headerLeft = value;
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('Centre')
+				.setValue(this.plugin.settings.headerCenter)
+				.onChange(async (value) => {
+					this.plugin.settings.headerCenter = value;
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('Right')
+				.setValue(this.plugin.settings.headerRight)
+				.onChange(async (value) => {
+					this.plugin.settings.headerRight = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Footer')
+			.setDesc('Left, centre and right footer text, e.g. "Page {page} of {pages}"')
+			.addText(text => text
+				.setPlaceholder('Left')
+				.setValue(this.plugin.settings.footerLeft)
+				.onChange(async (value) => {
+					this.plugin.settings.footerLeft = value;
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('Centre')
+				.setValue(this.plugin.settings.footerCenter)
+				.onChange(async (value) => {
+					this.plugin.settings.footerCenter = value;
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('Right')
+				.setValue(this.plugin.settings.footerRight)
+				.onChange(async (value) => {
+					this.plugin.settings.footerRight = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Header logo')
+			.setDesc('Path to a PNG, JPEG, GIF or BMP image in your vault, shown before the left header text')
+			.addText(text => text
+				.setPlaceholder('Attachments/logo.png')
+				.setValue(this.plugin.settings.headerLogo)
+				.onChange(async (value) => {
+					this.plugin.settings.headerLogo = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Different first page')
+			.setDesc('Leave the header and footer off the first page, e.g. for a title page')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.differentFirstPage)
+				.onChange(async (value) => {
+					this.plugin.settings.differentFirstPage = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Different odd and even pages')
+			.setDesc('Mirror the left and right header and footer text on even pages, for double-sided printing')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.differentOddEven)
+				.onChange(async (value) => {
+					this.plugin.settings.differentOddEven = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Table borders')
+			.setDesc('Borders drawn around and between table cells')
+			.addDropdown(dropdown => dropdown
+				.addOption('grid', 'All cells')
+				.addOption('horizontal', 'Horizontal lines only')
+				.addOption('none', 'None')
+				.setValue(this.plugin.settings.tableBorders)
+				.onChange(async (value) => {
+					this.plugin.settings.tableBorders = value as 'grid' | 'horizontal' | 'none';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Banded table rows')
+			.setDesc('Shade every other table row')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.tableBandedRows)
+				.onChange(async (value) => {
+					this.plugin.settings.tableBandedRows = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Table style')
+			.setDesc('Name of a table style in the reference document, e.g. "Grid Table 4 Accent 1". It replaces the table borders and shading above.')
+			.addText(text => text
+				.setPlaceholder('Grid Table 4 Accent 1')
+				.setValue(this.plugin.settings.tableStyle)
+				.onChange(async (value) => {
+					this.plugin.settings.tableStyle = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Figure captions')
+			.setDesc('Place figure captions above or below the image')
+			.addDropdown(dropdown => dropdown
+				.addOption('above', 'Above')
+				.addOption('below', 'Below')
+				.setValue(this.plugin.settings.figureCaptionPosition)
+				.onChange(async (value) => {
+					this.plugin.settings.figureCaptionPosition = value as 'above' | 'below';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Table captions')
+			.setDesc('Place table captions above or below the table')
+			.addDropdown(dropdown => dropdown
+				.addOption('above', 'Above')
+				.addOption('below', 'Below')
+				.setValue(this.plugin.settings.tableCaptionPosition)
+				.onChange(async (value) => {
+					this.plugin.settings.tableCaptionPosition = value as 'above' | 'below';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Render diagrams')
+			.setDesc('Export ```mermaid and ```plantuml code blocks as images instead of code')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.renderDiagrams)
+				.onChange(async (value) => {
+					this.plugin.settings.renderDiagrams = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Diagram resolution')
+			.setDesc('Resolution of rendered diagrams in DPI. Higher values print sharper but make larger documents.')
+			.addText(text => text
+				.setPlaceholder('150')
+				.setValue(String(this.plugin.settings.diagramDpi))
+				.onChange(async (value) => {
+					const dpi = parseInt(value);
+					if (!isNaN(dpi) && dpi >= 72) {
+						this.plugin.settings.diagramDpi = dpi;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('PlantUML command')
+			.setDesc('Command that reads PlantUML source on stdin and writes SVG to stdout, e.g. "plantuml -tsvg -pipe". Leave empty to export PlantUML blocks as code.')
+			.addText(text => text
+				.setPlaceholder('plantuml -tsvg -pipe')
+				.setValue(this.plugin.settings.plantumlCommand)
+				.onChange(async (value) => {
+					this.plugin.settings.plantumlCommand = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Dataview queries')
+			.setDesc('How ```dataview blocks and inline `= queries` are exported when the Dataview plugin is installed. DataviewJS results are taken from the note\'s reading view when it is open.')
+			.addDropdown(dropdown => dropdown
+				.addOption('results', 'Query results')
+				.addOption('source', 'Query source')
+				.addOption('both', 'Results followed by the source')
+				.setValue(this.plugin.settings.dataviewExport)
+				.onChange(async (value) => {
+					this.plugin.settings.dataviewExport = value as 'results' | 'source' | 'both';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Footnote style')
+			.setDesc('How footnotes are exported')
+			.addDropdown(dropdown => dropdown
+				.addOption('word', 'Word footnotes (bottom of page)')
+				.addOption('list', 'Numbered list at end of document')
+				.setValue(this.plugin.settings.footnoteStyle)
+				.onChange(async (value) => {
+					this.plugin.settings.footnoteStyle = value as 'word' | 'list';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Links to other notes')
+			.setDesc('How [[wikilinks]] to other notes are exported. Links to headings and blocks in the same note always become internal links.')
+			.addDropdown(dropdown => dropdown
+				.addOption('text', 'Plain text')
+				.addOption('obsidian-uri', 'Link that opens the note in Obsidian')
+				.setValue(this.plugin.settings.internalLinks)
+				.onChange(async (value) => {
+					this.plugin.settings.internalLinks = value as 'text' | 'obsidian-uri';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Obsidian comments')
+			.setDesc('How %% comments %% are exported. CriticMarkup {>> comments <<} always become Word comments.')
+			.addDropdown(dropdown => dropdown
+				.addOption('drop', 'Leave out')
+				.addOption('comment', 'Word comment')
+				.addOption('hidden', 'Hidden text')
+				.setValue(this.plugin.settings.obsidianComments)
+				.onChange(async (value) => {
+					this.plugin.settings.obsidianComments = value as 'drop' | 'comment' | 'hidden';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Review author')
+			.setDesc('Author name for Word comments and for CriticMarkup insertions and deletions, which are exported as tracked changes')
+			.addText(text => text
+				.setPlaceholder('Obsidian')
+				.setValue(this.plugin.settings.trackChangesAuthor)
+				.onChange(async (value) => {
+					this.plugin.settings.trackChangesAuthor = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Embedded note depth')
+			.setDesc('How many levels of ![[embedded notes]] to include. Set to 0 to skip embedded notes.')
+			.addText(text => text
+				.setPlaceholder('3')
+				.setValue(String(this.plugin.settings.embedMaxDepth))
+				.onChange(async (value) => {
+					const depth = parseInt(value);
+					if (!isNaN(depth) && depth >= 0) {
+						this.plugin.settings.embedMaxDepth = depth;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Shift embedded headings')
+			.setDesc('Demote headings inside embedded notes by one level')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.embedShiftHeadings)
+				.onChange(async (value) => {
+					this.plugin.settings.embedShiftHeadings = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Frame embedded notes')
+			.setDesc('Draw a border around embedded note content')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.embedFrame)
+				.onChange(async (value) => {
+					this.plugin.settings.embedFrame = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Folder export order')
+			.setDesc('Chapter order when exporting a folder to a single Word document')
+			.addDropdown(dropdown => dropdown
+				.addOption('name', 'By name')
+				.addOption('frontmatter', 'By frontmatter "order" key')
+				.addOption('index-note', 'By links in the index note')
+				.setValue(this.plugin.settings.folderExportOrder)
+				.onChange(async (value) => {
+					this.plugin.settings.folderExportOrder = value as 'name' | 'frontmatter' | 'index-note';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Start chapters on a new page')
+			.setDesc('When exporting a folder, begin each note on a new page')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.chapterPageBreaks)
+				.onChange(async (value) => {
+					this.plugin.settings.chapterPageBreaks = value;
+					await this.plugin.saveSettings();
+				}));
 	}
 }
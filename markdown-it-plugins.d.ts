@@ -1,3 +1,4 @@
 // Type declarations for markdown-it plugins without official TypeScript definitions
 declare module 'markdown-it-emoji';
+declare module 'markdown-it-footnote';
 declare module 'markdown-it-mark';
@@ -0,0 +1,838 @@
+import {
+	BuilderElement,
+	MathComponent,
+	MathFraction,
+	MathFunction,
+	MathIntegral,
+	MathRadical,
+	MathRun,
+	MathSubScript,
+	MathSubSuperScript,
+	MathSum,
+	MathSuperScript,
+	XmlAttributeComponent,
+	XmlComponent,
+} from 'docx';
+import type MarkdownIt from 'markdown-it';
+import type StateBlock from 'markdown-it/lib/rules_block/state_block';
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline';
+
+// Translates the subset of MathJax-flavoured LaTeX that Obsidian notes commonly
+// use into OMML components understood by Word's equation editor.
+
+const SYMBOLS: Record<string, string> = {
+	// Greek lowercase
+	alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+	theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', omicron: 'ο',
+	pi: 'π', varpi: 'ϖ', rho: 'ρ', varrho: 'ϱ', sigma: 'σ', varsigma: 'ς', tau: 'τ', upsilon: 'υ',
+	phi: 'ϕ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+	// Greek uppercase
+	Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Upsilon: 'Υ',
+	Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+	// Operators
+	pm: '±', mp: '∓', times: '×', div: '÷', cdot: '⋅', ast: '∗', star: '⋆', circ: '∘', bullet: '∙',
+	cup: '∪', cap: '∩', setminus: '∖', wedge: '∧', land: '∧', vee: '∨', lor: '∨', oplus: '⊕', otimes: '⊗',
+	neg: '¬', lnot: '¬',
+	// Relations
+	leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡', sim: '∼', simeq: '≃',
+	cong: '≅', propto: '∝', ll: '≪', gg: '≫', in: '∈', notin: '∉', ni: '∋', subset: '⊂', supset: '⊃',
+	subseteq: '⊆', supseteq: '⊇', perp: '⊥', parallel: '∥', mid: '∣',
+	// Arrows
+	to: '→', rightarrow: '→', leftarrow: '←', gets: '←', leftrightarrow: '↔', Rightarrow: '⇒',
+	Leftarrow: '⇐', Leftrightarrow: '⇔', implies: '⟹', iff: '⟺', mapsto: '↦', uparrow: '↑', downarrow: '↓',
+	longrightarrow: '⟶', longleftarrow: '⟵',
+	// Miscellaneous
+	infty: '∞', partial: '∂', nabla: '∇', forall: '∀', exists: '∃', nexists: '∄', emptyset: '∅',
+	varnothing: '∅', ell: 'ℓ', hbar: 'ℏ', Re: 'ℜ', Im: 'ℑ', aleph: 'ℵ', angle: '∠', triangle: '△',
+	prime: '′', degree: '°', ldots: '…', cdots: '⋯', vdots: '⋮', ddots: '⋱', dots: '…',
+	therefore: '∴', because: '∵', langle: '⟨', rangle: '⟩', lvert: '|', rvert: '|', vert: '|',
+	lVert: '‖', rVert: '‖', Vert: '‖', lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉',
+};
+
+const RELATION_SYMBOLS = new Set(['=', '<', '>', '≤', '≥', '≠', '≈', '≡', '∼', '≃', '≅', '∝', '→', '⇒', '⟹', '⇔', '⟺']);
+
+const FUNCTION_NAMES = new Set([
+	'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh', 'coth',
+	'log', 'ln', 'lg', 'exp', 'lim', 'liminf', 'limsup', 'max', 'min', 'sup', 'inf', 'det', 'dim', 'ker',
+	'deg', 'gcd', 'arg', 'Pr',
+]);
+
+const NARY_OPERATORS: Record<string, string> = {
+	prod: '∏', coprod: '∐', iint: '∬', iiint: '∭', oint: '∮', bigcup: '⋃', bigcap: '⋂',
+	bigoplus: '⨁', bigotimes: '⨂', bigvee: '⋁', bigwedge: '⋀',
+};
+
+const ACCENTS: Record<string, string> = {
+	hat: '\u0302', widehat: '\u0302', bar: '\u0305', overline: '\u0305', vec: '\u20D7', dot: '\u0307',
+	ddot: '\u0308', tilde: '\u0303', widetilde: '\u0303',
+};
+
+// Thin, medium, thick and em spaces
+const SPACES: Record<string, string> = {
+	',': '\u2009', ':': '\u205F', '>': '\u205F', ';': '\u2004', ' ': ' ', '!': '', quad: '\u2003', qquad: '\u2003\u2003',
+};
+
+// Delimiters for matrix environments: [begin, end]
+const MATRIX_DELIMITERS: Record<string, [string, string] | null> = {
+	matrix: null,
+	smallmatrix: null,
+	array: null,
+	aligned: null,
+	align: null,
+	'align*': null,
+	gathered: null,
+	pmatrix: ['(', ')'],
+	bmatrix: ['[', ']'],
+	Bmatrix: ['{', '}'],
+	vmatrix: ['|', '|'],
+	Vmatrix: ['‖', '‖'],
+	cases: ['{', ''],
+};
+
+// Sizing and style commands that carry no meaning in OMML
+const IGNORED_COMMANDS = new Set(['displaystyle', 'textstyle', 'scriptstyle', 'limits', 'nolimits']);
+
+const SIZING_COMMANDS = new Set(['big', 'Big', 'bigg', 'Bigg', 'bigl', 'bigr', 'Bigl', 'Bigr', 'biggl', 'biggr', 'Biggl', 'Biggr']);
+
+class MathTextAttributes extends XmlAttributeComponent<{ readonly space: string }> {
+	protected readonly xmlKeys = { space: 'xml:space' };
+}
+
+class MathPreservedText extends XmlComponent {
+	constructor(text: string) {
+		super('m:t');
+		this.root.push(new MathTextAttributes({ space: 'preserve' }));
+		this.root.push(text);
+	}
+}
+
+/**
+ * A math run with an explicit style: 'p' (plain), 'b' (bold), 'i' (italic) or
+ * 'bi', or normal text (\text{...}) which Word renders in the document font.
+ */
+class MathStyledRun extends XmlComponent {
+	constructor(text: string, style: 'p' | 'b' | 'i' | 'bi' | 'normal') {
+		super('m:r');
+		const property = style === 'normal'
+			? new BuilderElement({ name: 'm:nor' })
+			: new BuilderElement<{ val: string }>({ name: 'm:sty', attributes: { val: { key: 'm:val', value: style } } });
+		this.root.push(new BuilderElement({ name: 'm:rPr', children: [property] }));
+		this.root.push(new MathPreservedText(text));
+	}
+}
+
+const valueElement = (name: string, value: string) =>
+	new BuilderElement<{ val: string }>({ name, attributes: { val: { key: 'm:val', value } } });
+
+const createDelimiter = (begin: string, end: string, children: MathComponent[]): MathComponent =>
+	new BuilderElement({
+		name: 'm:d',
+		children: [
+			new BuilderElement({ name: 'm:dPr', children: [valueElement('m:begChr', begin), valueElement('m:endChr', end)] }),
+			new BuilderElement({ name: 'm:e', children }),
+		],
+	});
+
+const createMatrix = (rows: MathComponent[][][]): MathComponent => {
+	const columnCount = Math.max(1, ...rows.map(row => row.length));
+	return new BuilderElement({
+		name: 'm:m',
+		children: [
+			new BuilderElement({
+				name: 'm:mPr',
+				children: [
+					new BuilderElement({
+						name: 'm:mcs',
+						children: [
+							new BuilderElement({
+								name: 'm:mc',
+								children: [
+									new BuilderElement({
+										name: 'm:mcPr',
+										children: [valueElement('m:count', String(columnCount)), valueElement('m:mcJc', 'center')],
+									}),
+								],
+							}),
+						],
+					}),
+				],
+			}),
+			...rows.map(row => new BuilderElement({
+				name: 'm:mr',
+				children: Array.from({ length: columnCount }, (_, index) => new BuilderElement({ name: 'm:e', children: row[index] ?? [] })),
+			})),
+		],
+	});
+};
+
+const createAccent = (accent: string, children: MathComponent[]): MathComponent =>
+	new BuilderElement({
+		name: 'm:acc',
+		children: [
+			new BuilderElement({ name: 'm:accPr', children: [valueElement('m:chr', accent)] }),
+			new BuilderElement({ name: 'm:e', children }),
+		],
+	});
+
+const createNary = (operator: string, children: MathComponent[], subScript?: MathComponent[], superScript?: MathComponent[]): MathComponent => {
+	const properties: XmlComponent[] = [valueElement('m:chr', operator), valueElement('m:limLoc', 'undOvr')];
+	if (!subScript) properties.push(valueElement('m:subHide', '1'));
+	if (!superScript) properties.push(valueElement('m:supHide', '1'));
+	return new BuilderElement({
+		name: 'm:nary',
+		children: [
+			new BuilderElement({ name: 'm:naryPr', children: properties }),
+			new BuilderElement({ name: 'm:sub', children: subScript ?? [] }),
+			new BuilderElement({ name: 'm:sup', children: superScript ?? [] }),
+			new BuilderElement({ name: 'm:e', children }),
+		],
+	});
+};
+
+const toMathAlphabet = (text: string, alphabet: 'mathbb' | 'mathcal'): string => {
+	const exceptions: Record<string, Record<string, string>> = {
+		mathbb: { C: 'ℂ', H: 'ℍ', N: 'ℕ', P: 'ℙ', Q: 'ℚ', R: 'ℝ', Z: 'ℤ' },
+		mathcal: { B: 'ℬ', E: 'ℰ', F: 'ℱ', H: 'ℋ', I: 'ℐ', L: 'ℒ', M: 'ℳ', R: 'ℛ' },
+	};
+	const base = alphabet === 'mathbb' ? 0x1D538 : 0x1D49C;
+	return Array.from(text).map(char => {
+		if (exceptions[alphabet][char]) {
+			return exceptions[alphabet][char];
+		}
+		if (/[A-Z]/.test(char)) {
+			return String.fromCodePoint(base + char.charCodeAt(0) - 65);
+		}
+		return char;
+	}).join('');
+};
+
+class LatexParser {
+	private pos = 0;
+
+	constructor(private readonly src: string) {}
+
+	parse(): MathComponent[] {
+		const rows = this.parseRows();
+		if (this.pos < this.src.length) {
+			throw new Error(`Unexpected "${this.src.slice(this.pos, this.pos + 10)}"`);
+		}
+		// Top-level line breaks or alignment produce an implicit matrix
+		if (rows.length === 1 && rows[0].length === 1) {
+			return rows[0][0];
+		}
+		return [createMatrix(rows)];
+	}
+
+	private parseRows(): MathComponent[][][] {
+		const rows: MathComponent[][][] = [];
+		let row: MathComponent[][] = [];
+		for (;;) {
+			row.push(this.parseSequence());
+			this.skipWhitespace();
+			if (this.peek() === '&') {
+				this.pos++;
+				continue;
+			}
+			if (this.src.startsWith('\\\\', this.pos)) {
+				this.pos += 2;
+				rows.push(row);
+				row = [];
+				continue;
+			}
+			break;
+		}
+		// A trailing \\ leaves an empty final row behind
+		if (!(row.length === 1 && row[0].length === 0 && rows.length > 0)) {
+			rows.push(row);
+		}
+		return rows;
+	}
+
+	private parseSequence(options: { stopAtRelation?: boolean; stopAtBracket?: boolean } = {}): MathComponent[] {
+		const components: MathComponent[] = [];
+		for (;;) {
+			this.skipWhitespace();
+			if (this.atSequenceEnd() || (options.stopAtRelation && this.atRelation()) || (options.stopAtBracket && this.peek() === ']')) {
+				return components;
+			}
+			components.push(...this.parseScriptedAtom());
+		}
+	}
+
+	private atSequenceEnd(): boolean {
+		if (this.pos >= this.src.length) {
+			return true;
+		}
+		const char = this.peek();
+		if (char === '}' || char === '&') {
+			return true;
+		}
+		return this.src.startsWith('\\\\', this.pos)
+			|| /^\\(right|end)(?![a-zA-Z])/.test(this.src.slice(this.pos));
+	}
+
+	private atRelation(): boolean {
+		const char = this.peek();
+		if (RELATION_SYMBOLS.has(char)) {
+			return true;
+		}
+		const command = this.src.slice(this.pos).match(/^\\([a-zA-Z]+)/);
+		return !!command && RELATION_SYMBOLS.has(SYMBOLS[command[1]]);
+	}
+
+	private parseScriptedAtom(): MathComponent[] {
+		const command = this.src.slice(this.pos).match(/^\\([a-zA-Z]+)/)?.[1];
+		if (command === 'sum' || command === 'int' || (command && NARY_OPERATORS[command])) {
+			this.pos += command.length + 1;
+			return [this.parseNary(command)];
+		}
+		if (command && FUNCTION_NAMES.has(command)) {
+			this.pos += command.length + 1;
+			return [this.parseFunction(command)];
+		}
+
+		const base = this.peek() === '^' || this.peek() === '_' ? [] : this.parseAtom();
+		const { subScript, superScript } = this.parseScripts();
+		return this.applyScripts(base, subScript, superScript);
+	}
+
+	private parseScripts(): { subScript?: MathComponent[]; superScript?: MathComponent[] } {
+		let subScript: MathComponent[] | undefined;
+		let superScript: MathComponent[] | undefined;
+		for (;;) {
+			this.skipWhitespace();
+			const char = this.peek();
+			if (char === '_' && !subScript) {
+				this.pos++;
+				subScript = this.parseArgument();
+			} else if (char === '^' && !superScript) {
+				this.pos++;
+				superScript = this.parseArgument();
+			} else if (char === "'" && !superScript) {
+				this.pos++;
+				superScript = [new MathRun('′')];
+			} else {
+				return { subScript, superScript };
+			}
+		}
+	}
+
+	private applyScripts(base: MathComponent[], subScript?: MathComponent[], superScript?: MathComponent[]): MathComponent[] {
+		if (subScript && superScript) {
+			return [new MathSubSuperScript({ children: base, subScript, superScript })];
+		}
+		if (subScript) {
+			return [new MathSubScript({ children: base, subScript })];
+		}
+		if (superScript) {
+			return [new MathSuperScript({ children: base, superScript })];
+		}
+		return base;
+	}
+
+	private parseNary(command: string): MathComponent {
+		const { subScript, superScript } = this.parseScripts();
+		// The operand runs until the next relation or the end of the group
+		const body = this.parseSequence({ stopAtRelation: true });
+		if (command === 'sum') {
+			return new MathSum({ children: body, subScript, superScript });
+		}
+		if (command === 'int') {
+			return new MathIntegral({ children: body, subScript, superScript });
+		}
+		return createNary(NARY_OPERATORS[command], body, subScript, superScript);
+	}
+
+	private parseFunction(name: string): MathComponent {
+		const { subScript, superScript } = this.parseScripts();
+		const functionName = this.applyScripts([new MathStyledRun(name, 'p')], subScript, superScript);
+		this.skipWhitespace();
+		const argument = this.atSequenceEnd() || this.atRelation() ? [] : this.parseScriptedAtom();
+		return new MathFunction({ name: functionName, children: argument });
+	}
+
+	private parseArgument(): MathComponent[] {
+		this.skipWhitespace();
+		const char = this.peek();
+		if (!char) {
+			throw new Error('Missing argument');
+		}
+		if (char === '{' || char === '\\') {
+			return this.parseAtom();
+		}
+		this.pos++;
+		return [new MathRun(char === '-' ? '−' : char)];
+	}
+
+	private parseAtom(): MathComponent[] {
+		const char = this.peek();
+		if (char === '{') {
+			this.pos++;
+			const group = this.parseSequence();
+			this.expect('}');
+			return group;
+		}
+		if (char === '\\') {
+			return this.parseCommand();
+		}
+		if (/[0-9.]/.test(char)) {
+			const number = this.src.slice(this.pos).match(/^[0-9]*\.?[0-9]+|^[0-9]+/)?.[0] ?? char;
+			this.pos += number.length;
+			return [new MathRun(number)];
+		}
+		if (char === '}' || char === '^' || char === '_') {
+			throw new Error(`Unexpected "${char}"`);
+		}
+		this.pos++;
+		if (char === '-') return [new MathRun('−')];
+		if (char === '~') return [new MathStyledRun('\u00A0', 'p')];
+		if (char === "'") return [new MathRun('′')];
+		return [new MathRun(char)];
+	}
+
+	private parseCommand(): MathComponent[] {
+		this.expect('\\');
+		const nameMatch = this.src.slice(this.pos).match(/^([a-zA-Z]+\*?|.)/);
+		if (!nameMatch) {
+			throw new Error('Dangling backslash');
+		}
+		const name = nameMatch[1];
+		this.pos += name.length;
+
+		if (SPACES[name] !== undefined) {
+			return SPACES[name] ? [new MathStyledRun(SPACES[name], 'p')] : [];
+		}
+		if (/^[{}%$#_&|]$/.test(name)) {
+			return [new MathRun(name === '|' ? '‖' : name)];
+		}
+		if (IGNORED_COMMANDS.has(name)) {
+			return [];
+		}
+		if (SIZING_COMMANDS.has(name)) {
+			return [new MathRun(this.parseDelimiter())];
+		}
+		if (SYMBOLS[name]) {
+			return [new MathRun(SYMBOLS[name])];
+		}
+		if (ACCENTS[name]) {
+			return [createAccent(ACCENTS[name], this.parseArgument())];
+		}
+
+		switch (name) {
+			case 'frac':
+			case 'dfrac':
+			case 'tfrac':
+			case 'cfrac': {
+				const numerator = this.parseArgument();
+				const denominator = this.parseArgument();
+				return [new MathFraction({ numerator, denominator })];
+			}
+			case 'sqrt': {
+				this.skipWhitespace();
+				let degree: MathComponent[] | undefined;
+				if (this.peek() === '[') {
+					this.pos++;
+					degree = this.parseSequence({ stopAtBracket: true });
+					this.expect(']');
+				}
+				return [new MathRadical({ children: this.parseArgument(), degree })];
+			}
+			case 'text':
+			case 'textrm':
+			case 'mbox':
+				return [new MathStyledRun(this.readRawGroup(), 'normal')];
+			case 'mathrm':
+			case 'operatorname':
+				return [new MathStyledRun(this.readRawGroup(), 'p')];
+			case 'textbf':
+			case 'mathbf':
+			case 'boldsymbol':
+				return [new MathStyledRun(this.readRawGroup(), 'b')];
+			case 'textit':
+			case 'mathit':
+				return [new MathStyledRun(this.readRawGroup(), 'i')];
+			case 'mathbb':
+			case 'mathcal':
+				return [new MathRun(toMathAlphabet(this.readRawGroup(), name))];
+			case 'left': {
+				const begin = this.parseDelimiter();
+				const content = this.parseSequence();
+				if (!/^\\right(?![a-zA-Z])/.test(this.src.slice(this.pos))) {
+					throw new Error('Missing \\right');
+				}
+				this.pos += '\\right'.length;
+				const end = this.parseDelimiter();
+				return [createDelimiter(begin, end, content)];
+			}
+			case 'begin':
+				return [this.parseEnvironment(this.readRawGroup())];
+			default:
+				throw new Error(`Unsupported command \\${name}`);
+		}
+	}
+
+	private parseDelimiter(): string {
+		this.skipWhitespace();
+		if (this.peek() === '\\') {
+			const match = this.src.slice(this.pos + 1).match(/^([a-zA-Z]+|.)/);
+			if (!match) {
+				throw new Error('Missing delimiter');
+			}
+			this.pos += match[1].length + 1;
+			if (match[1] === '{' || match[1] === '}') return match[1];
+			if (match[1] === '|') return '‖';
+			const symbol = SYMBOLS[match[1]];
+			if (!symbol) {
+				throw new Error(`Unsupported delimiter \\${match[1]}`);
+			}
+			return symbol;
+		}
+		const char = this.peek();
+		if (!char) {
+			throw new Error('Missing delimiter');
+		}
+		this.pos++;
+		return char === '.' ? '' : char;
+	}
+
+	private parseEnvironment(environment: string): MathComponent {
+		if (!(environment in MATRIX_DELIMITERS)) {
+			throw new Error(`Unsupported environment ${environment}`);
+		}
+		if (environment === 'array') {
+			// Column specification is not needed for rendering
+			this.readRawGroup();
+		}
+		const rows = this.parseRows();
+		if (!this.src.startsWith('\\end', this.pos)) {
+			throw new Error(`Missing \\end{${environment}}`);
+		}
+		this.pos += '\\end'.length;
+		if (this.readRawGroup() !== environment) {
+			throw new Error(`Mismatched \\end for ${environment}`);
+		}
+
+		const matrix = createMatrix(rows);
+		const delimiters = MATRIX_DELIMITERS[environment];
+		return delimiters ? createDelimiter(delimiters[0], delimiters[1], [matrix]) : matrix;
+	}
+
+	private readRawGroup(): string {
+		this.skipWhitespace();
+		if (this.peek() !== '{') {
+			const char = this.peek();
+			if (!char) {
+				throw new Error('Missing argument');
+			}
+			this.pos++;
+			return char;
+		}
+		let depth = 0;
+		const start = this.pos + 1;
+		for (; this.pos < this.src.length; this.pos++) {
+			const char = this.src[this.pos];
+			if (char === '\\') {
+				this.pos++;
+			} else if (char === '{') {
+				depth++;
+			} else if (char === '}') {
+				depth--;
+				if (depth === 0) {
+					this.pos++;
+					return this.src.slice(start, this.pos - 1).replace(/\\([{}%$#_&])/g, '$1');
+				}
+			}
+		}
+		throw new Error('Unbalanced braces');
+	}
+
+	private skipWhitespace() {
+		while (this.pos < this.src.length && /\s/.test(this.src[this.pos])) {
+			this.pos++;
+		}
+	}
+
+	private peek(): string {
+		return this.src[this.pos] ?? '';
+	}
+
+	private expect(char: string) {
+		if (this.src[this.pos] !== char) {
+			throw new Error(`Expected "${char}"`);
+		}
+		this.pos++;
+	}
+}
+
+/**
+ * Converts a LaTeX expression into OMML math components.
+ * Returns null when the expression uses syntax outside the supported subset,
+ * so the caller can fall back to showing the source.
+ */
+export function latexToMathComponents(latex: string): MathComponent[] | null {
+	try {
+		const components = new LatexParser(latex.trim()).parse();
+		return components.length > 0 ? components : null;
+	} catch (error) {
+		console.debug(`Could not convert LaTeX to an equation: ${latex}`, error);
+		return null;
+	}
+}
+
+// Word's symbols back to the LaTeX commands above, the first name for each
+const SYMBOL_COMMANDS: Record<string, string> = {};
+for (const [name, symbol] of Object.entries({ ...SYMBOLS, ...NARY_OPERATORS, sum: '∑', int: '∫' })) {
+	if (/[^ -~]/.test(symbol) && !(symbol in SYMBOL_COMMANDS)) {
+		SYMBOL_COMMANDS[symbol] = name;
+	}
+}
+// Word writes a minus sign and spaces as characters
+const MATH_CHARACTERS: Record<string, string> = { '\u2212': '-', '\u2009': '\\,', '\u205F': '\\:', '\u2004': '\\;', '\u2003': '\\quad' };
+const ACCENT_COMMANDS: Record<string, string> = { '\u0302': 'hat', '\u0305': 'bar', '\u20D7': 'vec', '\u0307': 'dot', '\u0308': 'ddot', '\u0303': 'tilde' };
+
+function mathChildren(element: Element | null, name?: string): Element[] {
+	return element
+		? Array.from(element.childNodes).filter((node): node is Element => node.nodeType === 1 && (!name || node.nodeName === name))
+		: [];
+}
+
+function mathChild(element: Element | null, name: string): Element | null {
+	return mathChildren(element, name)[0] ?? null;
+}
+
+// The m:val of a property such as m:chr in an element's properties, e.g. m:naryPr
+function mathProperty(element: Element, properties: string, name: string): string | null {
+	return mathChild(mathChild(element, properties), name)?.getAttribute('m:val') ?? null;
+}
+
+// Commands need a space before a following letter: \alpha x, not \alphax
+function joinLatex(parts: string[]): string {
+	return parts.reduce((latex, part) => latex + (/\\[A-Za-z]+$/.test(latex) && /^[A-Za-z]/.test(part) ? ' ' : '') + part, '');
+}
+
+// Scripts and arguments need braces unless they are one character or one command
+function group(latex: string): string {
+	return /^([A-Za-z0-9]|\\[A-Za-z]+)$/.test(latex) ? latex : `{${latex}}`;
+}
+
+function mathTextToLatex(text: string, normal: boolean): string {
+	if (normal) {
+		return `\\text{${text.replace(/([{}])/g, '\\$1')}}`;
+	}
+	return joinLatex(Array.from(text).map(char => {
+		if (SYMBOL_COMMANDS[char]) {
+			return `\\${SYMBOL_COMMANDS[char]}`;
+		}
+		if (MATH_CHARACTERS[char]) {
+			return MATH_CHARACTERS[char];
+		}
+		if ('{}#%&_$'.includes(char)) {
+			return `\\${char}`;
+		}
+		return char === '\\' ? '\\backslash' : char;
+	}));
+}
+
+// Function names such as lim and sin are upright text in Word and commands in LaTeX
+function functionNameToLatex(latex: string): string | null {
+	const name = latex.replace(/^\\text\{(.*)\}$/, '$1');
+	return FUNCTION_NAMES.has(name) ? `\\${name}` : null;
+}
+
+// The base of a subscript or superscript, which may be a function such as lim
+function scriptBase(element: Element): string {
+	const base = argumentToLatex(mathChild(element, 'm:e'));
+	return functionNameToLatex(base) ?? group(base);
+}
+
+function delimiterToLatex(char: string, side: 'left' | 'right'): string {
+	if (!char) {
+		return `\\${side}.`;
+	}
+	const latex = char === '{' || char === '}' ? `\\${char}` : SYMBOL_COMMANDS[char] ? `\\${SYMBOL_COMMANDS[char]}` : char;
+	return `\\${side}${latex}`;
+}
+
+// The contents of an argument such as m:e, m:num or m:sup
+function argumentToLatex(element: Element | null): string {
+	return joinLatex(mathChildren(element).map(ommlElementToLatex));
+}
+
+function ommlElementToLatex(element: Element): string {
+	switch (element.nodeName) {
+		case 'm:r': {
+			const text = mathChildren(element, 'm:t').map(node => node.textContent ?? '').join('');
+			return mathTextToLatex(text, !!mathChild(mathChild(element, 'm:rPr'), 'm:nor'));
+		}
+		case 'm:f': {
+			const numerator = argumentToLatex(mathChild(element, 'm:num'));
+			const denominator = argumentToLatex(mathChild(element, 'm:den'));
+			return mathProperty(element, 'm:fPr', 'm:type') === 'lin'
+				? `${group(numerator)}/${group(denominator)}`
+				: `\\frac{${numerator}}{${denominator}}`;
+		}
+		case 'm:sSup':
+			return `${scriptBase(element)}^${group(argumentToLatex(mathChild(element, 'm:sup')))}`;
+		case 'm:sSub':
+			return `${scriptBase(element)}_${group(argumentToLatex(mathChild(element, 'm:sub')))}`;
+		case 'm:sSubSup':
+			return `${scriptBase(element)}_${group(argumentToLatex(mathChild(element, 'm:sub')))}^${group(argumentToLatex(mathChild(element, 'm:sup')))}`;
+		case 'm:sPre':
+			return `{}_${group(argumentToLatex(mathChild(element, 'm:sub')))}^${group(argumentToLatex(mathChild(element, 'm:sup')))}${argumentToLatex(mathChild(element, 'm:e'))}`;
+		case 'm:rad': {
+			const degree = argumentToLatex(mathChild(element, 'm:deg'));
+			const radicand = argumentToLatex(mathChild(element, 'm:e'));
+			return degree && mathProperty(element, 'm:radPr', 'm:degHide') !== '1' ? `\\sqrt[${degree}]{${radicand}}` : `\\sqrt{${radicand}}`;
+		}
+		case 'm:nary': {
+			// Word leaves out the character of an integral, its default
+			const operator = mathProperty(element, 'm:naryPr', 'm:chr') ?? '∫';
+			let latex = SYMBOL_COMMANDS[operator] ? `\\${SYMBOL_COMMANDS[operator]}` : operator;
+			const subScript = argumentToLatex(mathChild(element, 'm:sub'));
+			const superScript = argumentToLatex(mathChild(element, 'm:sup'));
+			if (subScript && mathProperty(element, 'm:naryPr', 'm:subHide') !== '1') {
+				latex += `_${group(subScript)}`;
+			}
+			if (superScript && mathProperty(element, 'm:naryPr', 'm:supHide') !== '1') {
+				latex += `^${group(superScript)}`;
+			}
+			return `${latex} ${argumentToLatex(mathChild(element, 'm:e'))}`;
+		}
+		case 'm:d': {
+			const begin = mathProperty(element, 'm:dPr', 'm:begChr') ?? '(';
+			const end = mathProperty(element, 'm:dPr', 'm:endChr') ?? ')';
+			const separator = mathProperty(element, 'm:dPr', 'm:sepChr') ?? '|';
+			const content = mathChildren(element, 'm:e').map(argumentToLatex).join(separator === '|' ? ' \\mid ' : separator);
+			return `${delimiterToLatex(begin, 'left')}${content}${delimiterToLatex(end, 'right')}`;
+		}
+		case 'm:acc': {
+			const accent = mathProperty(element, 'm:accPr', 'm:chr') ?? '\u0302';
+			return `\\${ACCENT_COMMANDS[accent] ?? 'hat'}{${argumentToLatex(mathChild(element, 'm:e'))}}`;
+		}
+		case 'm:bar': {
+			const command = mathProperty(element, 'm:barPr', 'm:pos') === 'top' ? 'overline' : 'underline';
+			return `\\${command}{${argumentToLatex(mathChild(element, 'm:e'))}}`;
+		}
+		case 'm:func': {
+			const name = argumentToLatex(mathChild(element, 'm:fName'));
+			const plainName = name.replace(/^\\text\{(.*)\}$/, '$1');
+			const latex = functionNameToLatex(name) ?? (/^[A-Za-z]+$/.test(plainName) ? `\\operatorname{${plainName}}` : name);
+			return joinLatex([latex, argumentToLatex(mathChild(element, 'm:e'))]);
+		}
+		case 'm:limLow':
+		case 'm:limUpp': {
+			const base = argumentToLatex(mathChild(element, 'm:e'));
+			const limit = argumentToLatex(mathChild(element, 'm:lim'));
+			// lim, max and the like take their limit as a subscript
+			const functionName = functionNameToLatex(base);
+			if (element.nodeName === 'm:limLow' && functionName) {
+				return `${functionName}_${group(limit)}`;
+			}
+			return element.nodeName === 'm:limLow' ? `\\underset{${limit}}{${base}}` : `\\overset{${limit}}{${base}}`;
+		}
+		case 'm:m': {
+			const rows = mathChildren(element, 'm:mr').map(row => mathChildren(row, 'm:e').map(argumentToLatex).join(' & '));
+			return `\\begin{matrix}${rows.join(' \\\\ ')}\\end{matrix}`;
+		}
+		case 'm:eqArr': {
+			const rows = mathChildren(element, 'm:e').map(argumentToLatex);
+			return `\\begin{aligned}${rows.join(' \\\\ ')}\\end{aligned}`;
+		}
+		case 'm:oMath':
+		case 'm:e':
+		case 'm:box':
+		case 'm:borderBox':
+		case 'm:groupChr':
+		case 'm:phant':
+			return argumentToLatex(element.nodeName === 'm:oMath' || element.nodeName === 'm:e' ? element : mathChild(element, 'm:e'));
+		// Properties, and anything unknown, carry no content of their own
+		default:
+			return element.nodeName.endsWith('Pr') ? '' : argumentToLatex(element);
+	}
+}
+
+/**
+ * Converts an OMML equation (m:oMath or m:oMathPara) from a Word document
+ * back into LaTeX. The equations of a display paragraph are separated by \\.
+ */
+export function ommlToLatex(math: Element): string {
+	if (math.nodeName === 'm:oMathPara') {
+		return mathChildren(math, 'm:oMath').map(ommlElementToLatex).join(' \\\\ ');
+	}
+	return ommlElementToLatex(math);
+}
+
+/**
+ * markdown-it plugin that turns $...$ (and single-line $$...$$) into math_inline tokens.
+ * Follows Obsidian/Pandoc rules so prices like "$5 and $10" are left alone.
+ * A line starting with $$ opens a math_block that runs to the line ending with $$.
+ */
+export function markdownItMath(md: MarkdownIt) {
+	md.block.ruler.before('fence', 'math_block', (state: StateBlock, startLine: number, endLine: number, silent: boolean) => {
+		const getLine = (line: number) => state.src.slice(state.bMarks[line] + state.tShift[line], state.eMarks[line]).trim();
+		const firstLine = getLine(startLine);
+		if (state.sCount[startLine] - state.blkIndent >= 4 || !firstLine.startsWith('$$')) {
+			return false;
+		}
+		if (silent) {
+			return true;
+		}
+
+		const collected: string[] = [];
+		let line = startLine;
+		if (firstLine.length > 2 && firstLine.endsWith('$$')) {
+			collected.push(firstLine.slice(2, -2));
+		} else {
+			collected.push(firstLine.slice(2));
+			for (line++; line < endLine && !getLine(line).endsWith('$$'); line++) {
+				collected.push(getLine(line));
+			}
+			if (line < endLine) {
+				collected.push(getLine(line).slice(0, -2));
+			}
+		}
+
+		const nextLine = Math.min(line + 1, endLine);
+		const token = state.push('math_block', 'math', 0);
+		token.content = collected.join('\n').trim();
+		token.markup = '$$';
+		token.map = [startLine, nextLine];
+		state.line = nextLine;
+		return true;
+	}, { alt: ['paragraph', 'reference', 'blockquote', 'list'] });
+
+	md.inline.ruler.after('escape', 'math_inline', (state: StateInline, silent: boolean) => {
+		const start = state.pos;
+		if (state.src.charCodeAt(start) !== 0x24 /* $ */) {
+			return false;
+		}
+
+		const isDisplay = state.src.charCodeAt(start + 1) === 0x24;
+		const delimiter = isDisplay ? '$$' : '$';
+		const contentStart = start + delimiter.length;
+		if (!isDisplay && /\s/.test(state.src.charAt(contentStart))) {
+			return false;
+		}
+
+		let end = state.src.indexOf(delimiter, contentStart);
+		while (end !== -1) {
+			const escaped = state.src.charAt(end - 1) === '\\';
+			const valid = isDisplay || (!/\s/.test(state.src.charAt(end - 1)) && !/[0-9]/.test(state.src.charAt(end + 1)));
+			if (!escaped && valid && end > contentStart) {
+				break;
+			}
+			end = state.src.indexOf(delimiter, end + 1);
+		}
+		if (end === -1) {
+			return false;
+		}
+
+		if (!silent) {
+			const token = state.push('math_inline', 'math', 0);
+			token.content = state.src.slice(contentStart, end);
+			token.markup = delimiter;
+		}
+		state.pos = end + delimiter.length;
+		return true;
+	});
+}
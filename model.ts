@@ -0,0 +1,1539 @@
+import MarkdownIt from 'markdown-it';
+import type Token from 'markdown-it/lib/token';
+import { full as markdownItEmoji } from 'markdown-it-emoji';
+import markdownItMark from 'markdown-it-mark';
+import markdownItFootnote from 'markdown-it-footnote';
+import { markdownItMath } from './math';
+import { isMarkdownEmbed, markdownItWikilinks, normalizeHeadingKey, parseWikilink, WikilinkParts } from './wikilinks';
+import { markdownItCriticMarkup } from './criticmarkup';
+import { expandTabs, List, ListFormat, markdownItLists } from './lists';
+import { Caption, CaptionKind, markdownItCrossReferences, parseCaptionLine, splitCaptionLabel } from './captions';
+import type { DiagramRegistry } from './diagrams';
+import {
+	getImageSize,
+	getImageType,
+	ImageType,
+	loadImageData,
+	MAX_IMAGE_WIDTH,
+	parseEmbeddedImageLink,
+	parseStandardImageTarget,
+} from './images';
+import {
+	extractBlockSection,
+	extractFootnotes,
+	extractFrontmatter,
+	extractHeadingSection,
+	getDocumentProperties,
+	getMetadataEntries,
+} from './notes';
+
+// The document built from a note, or from several notes as chapters, that
+// every export format is written from. It holds what every format can show:
+// headings, paragraphs of styled runs, lists, tables, images and footnotes.
+// Word-only features (sections, the table of contents, comments, anchors for
+// bookmarks) are nodes and fields the other formats skip or show as best
+// they can; tracked changes are shown accepted there.
+
+export interface NoteSource {
+	title: string;
+	path: string;
+	markdown: string;
+}
+
+// Finds the images, notes and other files a note links to
+export interface ResourceLoader {
+	/** Reads the file a link in the note at sourcePath points at */
+	load(link: string, sourcePath: string): Promise<ArrayBuffer | null>;
+	/** The vault path of the file a link in the note at sourcePath points at */
+	resolve(link: string, sourcePath: string): string | null;
+}
+
+export interface InlineStyle {
+	bold?: boolean;
+	italic?: boolean;
+	underline?: boolean;
+	strike?: boolean;
+	code?: boolean;
+	highlight?: boolean;
+	superscript?: boolean;
+	subscript?: boolean;
+	/** Hex RGB, e.g. "808080" */
+	color?: string;
+	/** A CriticMarkup change */
+	revision?: 'insert' | 'delete';
+}
+
+export type Inline =
+	/** `anchor` is the id of a heading, block or caption in the document */
+	| { type: 'text'; text: string; style: InlineStyle; link?: string; anchor?: string }
+	| { type: 'break' }
+	/** Reference to `ExportDocument.footnotes[index]` */
+	| { type: 'footnote'; index: number }
+	| { type: 'math'; latex: string }
+	| { type: 'image'; image: ImageData }
+	/** @fig:label or @tbl:label, shown as written when no caption has the label */
+	| { type: 'reference'; label: string; text: string; style: InlineStyle }
+	/** A comment on the inlines in `content`; `obsidian` is set for %% comments %% */
+	| { type: 'comment'; text: string; content: Inline[]; obsidian?: boolean };
+
+export interface ImageData {
+	data: ArrayBuffer;
+	type: ImageType;
+	/** Size on the page in pixels at 96 DPI */
+	width: number;
+	height: number;
+	alt: string;
+}
+
+export interface ListItemNode {
+	blocks: Block[];
+	/** Set for task list items */
+	checked?: boolean;
+}
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export interface BlockCaption {
+	kind: CaptionKind;
+	number: number;
+	content: Inline[];
+	/** Set on the first caption with a label, for references to point at */
+	id?: string;
+}
+
+export type Block =
+	/** `id` is the anchor links to the heading point at */
+	| { type: 'heading'; level: number; content: Inline[]; id?: string; pageBreakBefore?: boolean }
+	| { type: 'paragraph'; content: Inline[]; id?: string }
+	| { type: 'code'; lines: string[]; language?: string }
+	| { type: 'math'; latex: string }
+	| { type: 'quote'; blocks: Block[] }
+	/** > [!kind] Title */
+	| { type: 'callout'; kind: string; title: Inline[]; foldable: boolean; blocks: Block[] }
+	| { type: 'list'; format: ListFormat; delimiter: string; start: number; items: ListItemNode[] }
+	/** The first row is the header row */
+	| { type: 'table'; alignments: TableAlignment[]; rows: Inline[][][]; caption?: BlockCaption }
+	/** `image` is null when the file could not be loaded */
+	| { type: 'image'; image: ImageData | null; alt: string; caption?: BlockCaption }
+	| { type: 'definition'; term: Inline[]; definition: Inline[] }
+	/** <details>, shown expanded */
+	| { type: 'details'; summary: Inline[]; blocks: Block[] }
+	/** ![[Note]], which Word can frame */
+	| { type: 'embed'; title: string; blocks: Block[] }
+	/** The frontmatter properties */
+	| { type: 'metadata'; entries: { key: string; value: Inline[] }[] }
+	| { type: 'rule' }
+	| { type: 'pagebreak' }
+	/** Word only: starts a section with the given page orientation */
+	| { type: 'section'; orientation: 'portrait' | 'landscape' }
+	/** The table of contents */
+	| { type: 'toc' }
+	/** Word only: a block ID on a line of its own */
+	| { type: 'anchor'; id: string }
+	/** Word only: a %% comment %% on lines of its own */
+	| { type: 'comment'; text: string }
+	/** Word only: a blank line between blocks */
+	| { type: 'blank' };
+
+export interface Footnote {
+	paragraphs: Inline[][];
+}
+
+export interface DocumentProperties {
+	title: string;
+	author?: string;
+	subject?: string;
+	description?: string;
+	keywords?: string;
+}
+
+export interface CaptionTarget {
+	kind: CaptionKind;
+	number: number;
+	id: string;
+}
+
+export interface ExportDocument {
+	properties: DocumentProperties;
+	/** For the placeholders of Word headers and footers */
+	frontmatter: Record<string, unknown>;
+	blocks: Block[];
+	footnotes: Footnote[];
+	/** The captions @fig:label and @tbl:label references point at */
+	labels: Record<string, CaptionTarget>;
+}
+
+interface ToWordSettings {
+	includeMetadata: boolean;
+	preserveFormatting: boolean;
+	includeFilenameAsHeader: boolean;
+	internalLinks: 'text' | 'obsidian-uri';
+	embedMaxDepth: number;
+	embedShiftHeadings: boolean;
+	tableOfContents: boolean;
+	renderDiagrams: boolean;
+	diagramDpi: number;
+	plantumlCommand: string;
+	dataviewExport: 'results' | 'source' | 'both';
+}
+
+// The blocks of one piece of markdown, with the captions found for them
+interface BlockContext {
+	/** The markdown's lines, which token maps refer to */
+	lines: string[];
+	/** Captions by the line of their image or the first line of their table */
+	captions: Map<number, { kind: CaptionKind; caption: Caption }>;
+	/** Caption lines, which are exported with their figure or table instead */
+	captionLines: Set<number>;
+}
+
+interface ConvertedBlock {
+	blocks: Block[];
+	/** Index of the token after the block */
+	nextIndex: number;
+}
+
+// Converts the block starting at tokens[index], one converter per token type
+type BlockConverter = (tokens: Token[], index: number, context: BlockContext) => ConvertedBlock | Promise<ConvertedBlock>;
+
+// Where the text of a link points
+interface LinkTarget {
+	link?: string;
+	anchor?: string;
+}
+
+const HTML_TAG_STYLES: Record<string, InlineStyle> = {
+	b: { bold: true },
+	strong: { bold: true },
+	i: { italic: true },
+	em: { italic: true },
+	u: { underline: true },
+	ins: { underline: true },
+	s: { strike: true },
+	del: { strike: true },
+	strike: { strike: true },
+	mark: { highlight: true },
+	sup: { superscript: true },
+	sub: { subscript: true },
+	code: { code: true },
+	kbd: { code: true },
+};
+
+const HTML_BLOCK_TAGS = [
+	'address',
+	'article',
+	'aside',
+	'blockquote',
+	'div',
+	'figcaption',
+	'figure',
+	'footer',
+	'header',
+	'li',
+	'main',
+	'nav',
+	'p',
+	'section',
+	'summary',
+];
+
+function findClosingToken(tokens: Token[], index: number): number {
+	if (tokens[index].nesting !== 1) {
+		return index;
+	}
+	let depth = 0;
+	for (let i = index; i < tokens.length; i++) {
+		depth += tokens[i].nesting;
+		if (depth === 0) {
+			return i;
+		}
+	}
+	return tokens.length - 1;
+}
+
+function parseLayoutMarker(line: string): 'landscape' | 'portrait' | 'pagebreak' | null {
+	const match = line.match(/^(?:<!--\s*([\w-]+)\s*-->|%%\s*([\w-]+)\s*%%|\\(newpage|pagebreak))$/i);
+	const name = (match?.[1] ?? match?.[2] ?? match?.[3])?.toLowerCase().replace('-', '');
+	if (name === 'pagebreak' || name === 'newpage') {
+		return 'pagebreak';
+	}
+	return name === 'landscape' || name === 'portrait' ? name : null;
+}
+
+/**
+ * Splits a table row into cells. Escaped pipes and pipes inside inline code
+ * or [[wikilinks]] belong to the cell.
+ */
+function splitTableRow(row: string): string[] {
+	const cells: string[] = [];
+	let cell = '';
+	let codeFence = '';
+	for (let i = 0; i < row.length; i++) {
+		const char = row[i];
+		if (char === '\\' && row[i + 1] === '|') {
+			cell += '|';
+			i++;
+		} else if (char === '`') {
+			const fence = row.slice(i).match(/^`+/)?.[0] ?? '`';
+			codeFence = codeFence === fence ? '' : codeFence || fence;
+			cell += fence;
+			i += fence.length - 1;
+		} else if (char === '[' && row[i + 1] === '[' && !codeFence && row.indexOf(']]', i) !== -1) {
+			const end = row.indexOf(']]', i) + 2;
+			cell += row.slice(i, end);
+			i = end - 1;
+		} else if (char === '|' && !codeFence) {
+			cells.push(cell.trim());
+			cell = '';
+		} else {
+			cell += char;
+		}
+	}
+	cells.push(cell.trim());
+	// The leading and trailing pipes are optional
+	if (cells.length > 1 && cells[0] === '' && row.trimStart().startsWith('|')) {
+		cells.shift();
+	}
+	if (cells.length > 1 && cells[cells.length - 1] === '') {
+		cells.pop();
+	}
+	return cells;
+}
+
+// A caption is on the line next to its figure or table, or one blank line away
+function findCaptionLine(lines: string[], index: number, step: 1 | -1, kind: CaptionKind): { caption: Caption; index: number } | null {
+	for (let j = index; j >= 0 && j < lines.length && Math.abs(j - index) <= 1; j += step) {
+		const caption = parseCaptionLine(lines[j], kind);
+		if (caption) {
+			return { caption, index: j };
+		}
+		if (lines[j].trim() !== '') {
+			return null;
+		}
+	}
+	return null;
+}
+
+/**
+ * The caption line above or below the table on lines start to end.
+ * Captions at or before `after` already belong to an earlier table.
+ */
+function findTableCaption(lines: string[], start: number, end: number, after: number): { caption: Caption; index: number } | null {
+	const above = findCaptionLine(lines, start - 1, -1, 'table');
+	if (above && above.index > after) {
+		return above;
+	}
+	// A caption right below the table is read as one more row of it
+	const lastRow = lines[end - 1];
+	const caption = lastRow.includes('|') ? null : parseCaptionLine(lastRow.trim(), 'table');
+	if (caption && end - start > 2) {
+		return { caption, index: end - 1 };
+	}
+	return findCaptionLine(lines, end, 1, 'table');
+}
+
+/**
+ * The caption of an image on a line of its own: a caption line below it,
+ * or else the image's title or alt text.
+ */
+function getFigureCaption(lines: string[], index: number): { caption: Caption; index?: number } | null {
+	const { text: image, label } = splitCaptionLabel(lines[index].trim());
+	const standardImage = image.match(/^!\[([^\]]*)\]\((.+)\)$/);
+	const wikiImage = image.match(/^!\[\[([^\]]+)\]\]$/);
+	let description: string | undefined;
+	if (standardImage) {
+		description = parseStandardImageTarget(standardImage[2]).title || standardImage[1];
+	} else if (wikiImage && !isMarkdownEmbed(wikiImage[1])) {
+		description = parseEmbeddedImageLink(wikiImage[1]).alt;
+	} else {
+		return null;
+	}
+
+	const captionLine = findCaptionLine(lines, index + 1, 1, 'figure');
+	if (captionLine) {
+		return { caption: { ...captionLine.caption, label: captionLine.caption.label ?? label }, index: captionLine.index };
+	}
+	const text = description?.trim() ?? '';
+	return text || label ? { caption: { text, label } } : null;
+}
+
+/**
+ * The text of inlines without their formatting, with tracked deletions left out.
+ */
+export function getInlineText(inlines: Inline[]): string {
+	return inlines.map(inline => {
+		switch (inline.type) {
+			case 'text':
+				return inline.style.revision === 'delete' ? '' : inline.text;
+			case 'break':
+				return ' ';
+			case 'math':
+				return inline.latex;
+			case 'reference':
+				return inline.text;
+			case 'comment':
+				return getInlineText(inline.content);
+			default:
+				return '';
+		}
+	}).join('');
+}
+
+/**
+ * The headings of the document in order, for a table of contents.
+ */
+export function getHeadings(blocks: Block[]): { level: number; text: string; id?: string }[] {
+	return blocks.flatMap(block => {
+		switch (block.type) {
+			case 'heading':
+				return [{ level: block.level, text: getInlineText(block.content).trim(), id: block.id }];
+			case 'quote':
+			case 'callout':
+			case 'details':
+			case 'embed':
+				return getHeadings(block.blocks);
+			case 'list':
+				return block.items.flatMap(item => getHeadings(item.blocks));
+			default:
+				return [];
+		}
+	});
+}
+
+/**
+ * Builds an ExportDocument from a note, or from several notes as chapters.
+ * Links to headings, blocks and captions within the document become anchors,
+ * and figures and tables are numbered in the order they appear.
+ */
+export class DocumentModelBuilder {
+	private settings: ToWordSettings;
+	private diagramRenderers?: DiagramRegistry;
+	private md: MarkdownIt;
+	private resources?: ResourceLoader;
+	private resourceLoader?: (link: string) => Promise<ArrayBuffer | null>;
+	private vaultName?: string;
+	private filename = '';
+	private sourcePath = '';
+	private headingLevelOffset = 0;
+	private embedStack: string[] = [];
+	private renderedBlockCounts: Map<string, number> = new Map();
+	private footnoteDefinitions: Map<string, string> = new Map();
+	private footnoteIndexes: Map<string, number> = new Map();
+	private footnotes: Footnote[] = [];
+	// [label]: url definitions for reference links, which markdown-it keeps in its env
+	private linkReferences: Record<string, unknown> = {};
+	// Off within footnotes and properties, which cannot have footnotes
+	private allowFootnotes = true;
+	private headingBookmarks: Map<string, string> = new Map();
+	private blockBookmarks: Map<string, string> = new Map();
+	private placedBookmarks: Set<string> = new Set();
+	private bookmarkNames: Set<string> = new Set();
+	private chapterNames: Set<string> = new Set();
+	private tocInserted = false;
+	private captionCounts: Record<CaptionKind, number> = { figure: 0, table: 0 };
+	private labels: Record<string, CaptionTarget> = {};
+	private runningBuild: Promise<unknown> = Promise.resolve();
+
+	private blockConverters: Record<string, BlockConverter> = {
+		heading_open: (tokens, index) => this.convertHeading(tokens, index),
+		paragraph_open: (tokens, index, context) => this.convertParagraph(tokens, index, context),
+		blockquote_open: (tokens, index, context) => this.convertQuote(tokens, index, context),
+		list: async (tokens, index) => ({ blocks: [await this.convertList(tokens[index].meta as List)], nextIndex: index + 1 }),
+		table_open: (tokens, index, context) => this.convertTable(tokens, index, context),
+		fence: (tokens, index) => this.convertCode(tokens, index),
+		code_block: (tokens, index) => this.convertCode(tokens, index),
+		math_block: (tokens, index) => ({ blocks: tokens[index].content ? [{ type: 'math', latex: tokens[index].content }] : [], nextIndex: index + 1 }),
+		comment_block: (tokens, index) => this.convertCommentBlock(tokens, index),
+		html_block: (tokens, index, context) => this.convertHtmlBlock(tokens, index, context),
+		hr: (tokens, index) => ({ blocks: [{ type: 'rule' }], nextIndex: index + 1 }),
+	};
+
+	constructor(settings: ToWordSettings, diagramRenderers?: DiagramRegistry) {
+		this.settings = settings;
+		this.diagramRenderers = diagramRenderers;
+		this.md = new MarkdownIt({ html: true, linkify: false, typographer: false, breaks: false });
+		this.md.use(markdownItEmoji);
+		this.md.use(markdownItMark);
+		this.md.use(markdownItFootnote);
+		this.md.use(markdownItMath);
+		this.md.use(markdownItWikilinks);
+		this.md.use(markdownItCriticMarkup);
+		this.md.use(markdownItCrossReferences);
+		this.md.use(markdownItLists);
+	}
+
+	async build(
+		markdown: string,
+		title: string,
+		resources?: ResourceLoader,
+		vaultName?: string,
+		sourcePath?: string,
+	): Promise<ExportDocument> {
+		return await this.enqueue(() => this.buildNote(markdown, title, resources, vaultName, sourcePath));
+	}
+
+	/**
+	 * Builds one document from several notes, one chapter per note in the given order.
+	 * Each note's title becomes a level 1 heading and its own headings move down a level.
+	 * Footnotes are numbered across the whole document, and links between the notes
+	 * point at the chapter or heading.
+	 */
+	async buildNotes(
+		notes: NoteSource[],
+		title: string,
+		resources?: ResourceLoader,
+		vaultName?: string,
+		chapterPageBreaks = false,
+	): Promise<ExportDocument> {
+		return await this.enqueue(() => this.buildChapters(notes, title, resources, vaultName, chapterPageBreaks));
+	}
+
+	// A build keeps its state in the builder across awaits, so builds run one at a time
+	private async enqueue(build: () => Promise<ExportDocument>): Promise<ExportDocument> {
+		const next = this.runningBuild.then(build);
+		this.runningBuild = next.catch(() => undefined);
+		return await next;
+	}
+
+	private async buildNote(
+		markdown: string,
+		title: string,
+		resources: ResourceLoader | undefined,
+		vaultName: string | undefined,
+		sourcePath: string | undefined,
+	): Promise<ExportDocument> {
+		this.begin(resources, vaultName);
+		this.filename = title;
+		this.useSourcePath(sourcePath ?? title);
+		this.embedStack = [title.toLowerCase()];
+
+		const { content: body, frontmatter } = extractFrontmatter(markdown);
+		const blocks = await this.parseBlocks(await this.renderInlineCode(this.prepareNote(body, title)));
+
+		// Without a [TOC] marker the table of contents goes at the top
+		if (this.settings.tableOfContents && !this.tocInserted) {
+			blocks.unshift({ type: 'toc' });
+		}
+		if (this.settings.includeMetadata) {
+			blocks.unshift(...await this.createMetadata(frontmatter));
+		}
+		if (this.settings.includeFilenameAsHeader) {
+			blocks.unshift({ type: 'blank' }, { type: 'heading', level: 1, content: [this.createText(title)] });
+		}
+
+		return this.finish(frontmatter, title, blocks);
+	}
+
+	private async buildChapters(
+		notes: NoteSource[],
+		title: string,
+		resources: ResourceLoader | undefined,
+		vaultName: string | undefined,
+		chapterPageBreaks: boolean,
+	): Promise<ExportDocument> {
+		this.begin(resources, vaultName);
+		this.headingLevelOffset = 1;
+		notes.forEach(note => this.chapterNames.add(note.title.toLowerCase()));
+
+		// Scan every chapter first, so links can point at headings in notes
+		// that come later in the document
+		const chapters = notes.map(note => {
+			const { content: body, frontmatter } = extractFrontmatter(note.markdown);
+			const id = this.createBookmarkName('c', note.title);
+			this.headingBookmarks.set(this.bookmarkKey('', note.title), id);
+			this.placedBookmarks.add(id);
+			const { content, definitions } = extractFootnotes(body);
+			this.collectBookmarks(content, note.title);
+			return { note, frontmatter, content, definitions, id };
+		});
+
+		const blocks: Block[] = [];
+		for (const [index, chapter] of chapters.entries()) {
+			const { note } = chapter;
+			this.filename = note.title;
+			this.useSourcePath(note.path);
+			this.embedStack = [note.title.toLowerCase()];
+			this.renderedBlockCounts = new Map();
+			// Footnote labels only need to be unique within a note
+			this.footnoteDefinitions = new Map(chapter.definitions);
+			this.footnoteIndexes = new Map();
+
+			blocks.push({
+				type: 'heading',
+				level: 1,
+				content: [this.createText(note.title)],
+				id: chapter.id,
+				pageBreakBefore: chapterPageBreaks && index > 0,
+			});
+			if (this.settings.includeMetadata) {
+				blocks.push(...await this.createMetadata(chapter.frontmatter));
+			}
+			blocks.push(...await this.parseBlocks(await this.renderInlineCode(chapter.content)));
+		}
+		this.headingLevelOffset = 0;
+
+		if (this.settings.tableOfContents && !this.tocInserted) {
+			blocks.unshift({ type: 'toc' });
+		}
+		return this.finish({}, title, blocks);
+	}
+
+	// Links are resolved from the note at path: the note being exported, or a note embedded in it
+	private useSourcePath(path: string) {
+		const resources = this.resources;
+		this.sourcePath = path;
+		this.resourceLoader = resources ? (link: string) => resources.load(link, path) : undefined;
+	}
+
+	private begin(resources: ResourceLoader | undefined, vaultName: string | undefined) {
+		this.resources = resources;
+		this.vaultName = vaultName;
+		this.headingLevelOffset = 0;
+		this.renderedBlockCounts = new Map();
+		this.footnoteDefinitions = new Map();
+		this.footnoteIndexes = new Map();
+		this.footnotes = [];
+		this.linkReferences = {};
+		this.headingBookmarks = new Map();
+		this.blockBookmarks = new Map();
+		this.placedBookmarks = new Set();
+		this.bookmarkNames = new Set();
+		this.chapterNames = new Set();
+		this.tocInserted = false;
+		this.captionCounts = { figure: 0, table: 0 };
+		this.labels = {};
+	}
+
+	private finish(frontmatter: Record<string, unknown>, title: string, blocks: Block[]): ExportDocument {
+		this.resources = undefined;
+		this.resourceLoader = undefined;
+		const properties = getDocumentProperties(frontmatter, title);
+		return {
+			properties: {
+				title: properties.title,
+				author: properties.creator,
+				subject: properties.subject,
+				description: properties.description,
+				keywords: properties.keywords,
+			},
+			frontmatter,
+			blocks,
+			footnotes: this.footnotes,
+			labels: this.labels,
+		};
+	}
+
+	/**
+	 * Pulls the footnote definitions out of a note and registers its headings
+	 * and block IDs, returning the markdown left to parse.
+	 */
+	private prepareNote(markdown: string, title: string): string {
+		const { content, definitions } = extractFootnotes(markdown);
+		definitions.forEach((definition, label) => this.footnoteDefinitions.set(label, definition));
+		this.collectBookmarks(content, title);
+		return content;
+	}
+
+	private async renderInlineCode(markdown: string): Promise<string> {
+		return this.diagramRenderers ? await this.diagramRenderers.renderInlineCode(markdown, this.sourcePath, this.settings) : markdown;
+	}
+
+	/**
+	 * Scans the note for headings and block IDs up front, so links can point
+	 * at anchors that appear later in the document.
+	 */
+	private collectBookmarks(markdown: string, note: string) {
+		const tokens = this.md.parse(markdown, {});
+		const codeLines = new Set<number>();
+		for (let i = 0; i < tokens.length; i = findClosingToken(tokens, i) + 1) {
+			const token = tokens[i];
+			const [start, end] = token.map ?? [0, 0];
+			if (token.type === 'fence' || token.type === 'code_block') {
+				for (let line = start; line < end; line++) {
+					codeLines.add(line);
+				}
+			}
+			if (token.type !== 'heading_open') {
+				continue;
+			}
+			const headingKey = normalizeHeadingKey(tokens[i + 1].content);
+			const key = this.bookmarkKey(headingKey, note);
+			if (!this.headingBookmarks.has(key)) {
+				this.headingBookmarks.set(key, this.createBookmarkName('h', headingKey));
+			}
+		}
+
+		markdown.split('\n').forEach((line, index) => {
+			const blockMatch = codeLines.has(index) ? null : line.match(/(?:^|\s)\^([A-Za-z0-9-]+)\s*$/);
+			const blockKey = blockMatch ? this.bookmarkKey(`^${blockMatch[1]}`, note) : '';
+			if (blockMatch && !this.blockBookmarks.has(blockKey)) {
+				this.blockBookmarks.set(blockKey, this.createBookmarkName('b', blockMatch[1]));
+			}
+		});
+	}
+
+	// Headings and block IDs are looked up per note, so chapters can share heading names
+	private bookmarkKey(subpath: string, note: string = this.filename): string {
+		return `${note.toLowerCase()}#${subpath}`;
+	}
+
+	private createBookmarkName(prefix: string, text: string): string {
+		const slug = text.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+		// Word limits bookmark names to 40 characters
+		const base = `${prefix}_${slug}`.slice(0, 36);
+		let name = base;
+		let counter = 1;
+		while (this.bookmarkNames.has(name)) {
+			name = `${base}_${counter++}`;
+		}
+		this.bookmarkNames.add(name);
+		return name;
+	}
+
+	// An anchor goes on the first heading or block it belongs to
+	private placeBookmark(id: string | undefined): string | undefined {
+		if (id === undefined || this.placedBookmarks.has(id)) {
+			return undefined;
+		}
+		this.placedBookmarks.add(id);
+		return id;
+	}
+
+	/**
+	 * Converts markdown block by block. Blank lines between blocks are kept,
+	 * except in list items.
+	 */
+	private async parseBlocks(markdown: string, keepBlankLines = true): Promise<Block[]> {
+		// Line endings as markdown-it reads them, so token maps match the lines
+		const source = markdown.replace(/\r\n?/g, '\n');
+		const env: { references?: Record<string, unknown> } = {};
+		const tokens = this.md.parse(source, env);
+		// Inlines are parsed block by block, so link definitions are kept for all of them; the first one wins
+		this.linkReferences = { ...env.references, ...this.linkReferences };
+		const context = this.createBlockContext(tokens, source.split('\n'));
+		const blocks: Block[] = [];
+		let line = 0;
+		const addBlankLines = (end: number) => {
+			for (; line < end; line++) {
+				if (keepBlankLines && context.lines[line].trim() === '') {
+					blocks.push({ type: 'blank' });
+				}
+			}
+		};
+
+		let i = 0;
+		while (i < tokens.length) {
+			addBlankLines(tokens[i].map?.[0] ?? line);
+			const { blocks: converted, nextIndex } = await this.convertBlock(tokens, i, context);
+			blocks.push(...converted);
+			for (; i < nextIndex; i++) {
+				line = Math.max(line, tokens[i].map?.[1] ?? line);
+			}
+		}
+		addBlankLines(context.lines.length);
+		return blocks;
+	}
+
+	/**
+	 * Converts the block starting at tokens[index] with the converter for its
+	 * token type. Blocks without one, such as link reference definitions, are
+	 * left out.
+	 */
+	private async convertBlock(tokens: Token[], index: number, context: BlockContext): Promise<ConvertedBlock> {
+		const converter = this.blockConverters[tokens[index].type];
+		if (!converter) {
+			return { blocks: [], nextIndex: findClosingToken(tokens, index) + 1 };
+		}
+		return await converter(tokens, index, context);
+	}
+
+	/**
+	 * Pairs the figures and tables among the top-level blocks with their
+	 * caption lines.
+	 */
+	private createBlockContext(tokens: Token[], lines: string[]): BlockContext {
+		const context: BlockContext = { lines, captions: new Map(), captionLines: new Set() };
+		let lastCaptionLine = -1;
+		for (let i = 0; i < tokens.length; i = findClosingToken(tokens, i) + 1) {
+			const [start, end] = tokens[i].map ?? [0, 0];
+			if (tokens[i].type === 'table_open') {
+				const table = findTableCaption(lines, start, end, lastCaptionLine);
+				if (table) {
+					context.captions.set(start, { kind: 'table', caption: table.caption });
+					context.captionLines.add(table.index);
+					lastCaptionLine = table.index;
+				}
+			} else if (tokens[i].type === 'paragraph_open') {
+				for (let line = start; line < end; line++) {
+					const figure = context.captionLines.has(line) ? null : getFigureCaption(lines, line);
+					if (figure) {
+						context.captions.set(line, { kind: 'figure', caption: figure.caption });
+						if (figure.index !== undefined) {
+							context.captionLines.add(figure.index);
+						}
+					}
+				}
+			}
+		}
+		return context;
+	}
+
+	private async convertHeading(tokens: Token[], index: number): Promise<ConvertedBlock> {
+		// Setext headings (underlined with = or -) have the same tokens as # headings
+		const level = Math.min(parseInt(tokens[index].tag.slice(1), 10) + this.headingLevelOffset, 6);
+		const text = tokens[index + 1].content;
+		const id = this.placeBookmark(this.headingBookmarks.get(this.bookmarkKey(normalizeHeadingKey(text))));
+		return {
+			blocks: [{ type: 'heading', level, content: await this.parseInline(text), id }],
+			nextIndex: findClosingToken(tokens, index) + 1,
+		};
+	}
+
+	/**
+	 * Converts a paragraph, its lines joined by line breaks. Images, embeds
+	 * and markers on lines of their own are taken out of it, and so are
+	 * definition list entries (a term followed by ": definition").
+	 */
+	private async convertParagraph(tokens: Token[], index: number, context: BlockContext): Promise<ConvertedBlock> {
+		const [start, end] = tokens[index].map ?? [0, 0];
+		const blocks: Block[] = [];
+		let text: string[] = [];
+		const flush = async () => {
+			if (text.length > 0) {
+				blocks.push(await this.createParagraph(text.join('\n').trim()));
+				text = [];
+			}
+		};
+
+		for (let line = start; line < end; line++) {
+			const trimmedLine = context.lines[line].trim();
+			if (context.captionLines.has(line)) {
+				await flush();
+				continue;
+			}
+
+			const definition = line + 1 < end ? context.lines[line + 1].match(/^:\s+(.+)$/) : null;
+			if (definition) {
+				await flush();
+				blocks.push({ type: 'definition', term: await this.parseInline(trimmedLine), definition: await this.parseInline(definition[1]) });
+				line++;
+				continue;
+			}
+
+			const standalone = await this.convertStandaloneLine(trimmedLine, context.captions.get(line)?.caption);
+			if (standalone) {
+				await flush();
+				blocks.push(...standalone);
+				continue;
+			}
+			text.push(trimmedLine);
+		}
+		await flush();
+
+		return { blocks, nextIndex: findClosingToken(tokens, index) + 1 };
+	}
+
+	// A trailing block ID (^block-id) is the paragraph's anchor rather than text
+	private async createParagraph(text: string): Promise<Block> {
+		const blockMatch = text.match(/\s\^([A-Za-z0-9-]+)\s*$/);
+		if (!blockMatch) {
+			return { type: 'paragraph', content: await this.parseInline(text) };
+		}
+		const id = this.placeBookmark(this.blockBookmarks.get(this.bookmarkKey(`^${blockMatch[1]}`)));
+		return { type: 'paragraph', content: await this.parseInline(text.slice(0, blockMatch.index)), id };
+	}
+
+	/**
+	 * Converts a line that stands as a block of its own within a paragraph:
+	 * an image, an embedded note, a [TOC] or page layout marker or a block ID.
+	 */
+	private async convertStandaloneLine(line: string, caption?: Caption): Promise<Block[] | null> {
+		// Images may be followed by a {#fig:label} for cross-references
+		const imageLine = splitCaptionLabel(line).text;
+
+		const standardImage = imageLine.match(/^!\[([^\]]*)\]\((.+)\)$/);
+		if (standardImage) {
+			const parsed = parseStandardImageTarget(standardImage[2]);
+			const data = parsed.target ? await loadImageData(parsed.target, this.resourceLoader) : null;
+			return [await this.createImage(data, standardImage[1] || standardImage[2], parsed.widthOverride, caption)];
+		}
+
+		const wikiEmbed = imageLine.match(/^!\[\[([^\]]+)\]\]$/);
+		if (wikiEmbed && isMarkdownEmbed(wikiEmbed[1])) {
+			return await this.convertEmbeddedNote(wikiEmbed[1]);
+		}
+		if (wikiEmbed) {
+			const parsed = parseEmbeddedImageLink(wikiEmbed[1]);
+			const data = parsed.target && this.resourceLoader ? await this.resourceLoader(parsed.target).catch(() => null) : null;
+			return [await this.createImage(data, parsed.alt ?? parsed.target, parsed.widthOverride, caption)];
+		}
+
+		// Table of contents markers ([TOC] or [[_TOC_]]) in the exported note itself
+		if (/^\[(TOC|\[_TOC_\])\]$/i.test(line)) {
+			if (this.settings.tableOfContents && !this.tocInserted && this.embedStack.length === 1) {
+				this.tocInserted = true;
+				return [{ type: 'toc' }];
+			}
+			return [];
+		}
+
+		// Page layout markers written as \newpage or \pagebreak
+		const layoutMarker = parseLayoutMarker(line);
+		if (layoutMarker) {
+			return [this.createLayoutBreak(layoutMarker)];
+		}
+
+		// Block IDs on their own line (^block-id) refer to the block above
+		const blockId = line.match(/^\^([A-Za-z0-9-]+)$/);
+		if (blockId) {
+			const id = this.placeBookmark(this.blockBookmarks.get(this.bookmarkKey(`^${blockId[1]}`)));
+			return id ? [{ type: 'anchor', id }] : [];
+		}
+
+		return null;
+	}
+
+	private createLayoutBreak(marker: 'landscape' | 'portrait' | 'pagebreak'): Block {
+		return marker === 'pagebreak' ? { type: 'pagebreak' } : { type: 'section', orientation: marker };
+	}
+
+	private async createImage(data: ArrayBuffer | null, alt: string, widthOverride?: number, caption?: Caption): Promise<Block> {
+		const type = data ? getImageType(data) : null;
+		const image = data && type ? { data, type, alt, ...await getImageSize(data, widthOverride) } : null;
+		return { type: 'image', image, alt, caption: await this.createCaption('figure', caption) };
+	}
+
+	/**
+	 * Numbers a figure or table caption. References to a label point at the
+	 * first caption with it.
+	 */
+	private async createCaption(kind: CaptionKind, caption?: Caption): Promise<BlockCaption | undefined> {
+		if (!caption) {
+			return undefined;
+		}
+		const number = ++this.captionCounts[kind];
+		let id: string | undefined;
+		if (caption.label && !this.labels[caption.label]) {
+			// Word hides bookmarks starting with an underscore, like its own cross-reference targets
+			id = this.createBookmarkName('_Ref', caption.label);
+			this.labels[caption.label] = { kind, number, id };
+		}
+		return { kind, number, content: await this.parseInline(caption.text), id };
+	}
+
+	private createNotice(text: string): Block {
+		return { type: 'paragraph', content: [this.createText(text, { italic: true, color: '808080' })] };
+	}
+
+	/**
+	 * Converts a blockquote by parsing its content one quote level down, so
+	 * nested quotes and the blocks inside them keep their structure.
+	 */
+	private async convertQuote(tokens: Token[], index: number, context: BlockContext): Promise<ConvertedBlock> {
+		const [start, end] = tokens[index].map ?? [0, 0];
+		// A line without > only continues the quote's last paragraph, so === there is text, not a heading underline
+		const content = context.lines.slice(start, end).map(line => {
+			const marker = line.match(/^\s*>/)?.[0];
+			if (marker === undefined) {
+				return line.replace(/^(\s*)=/, '$1\\=');
+			}
+			// Tabs after the > are expanded from the column they are in
+			return expandTabs(' '.repeat(marker.length) + line.slice(marker.length)).slice(marker.length).replace(/^ /, '');
+		});
+		const nextIndex = findClosingToken(tokens, index) + 1;
+
+		// Callouts (> [!type] Title) may be foldable with + or -
+		const callout = content[0]?.match(/^\s*\[!([^\]]+)\]([+-])?\s*(.*)$/);
+		if (callout) {
+			const kind = callout[1].trim().toLowerCase();
+			const title = callout[3].trim() || kind.charAt(0).toUpperCase() + kind.slice(1);
+			const inner = content.slice(1).join('\n').replace(/^\s*\n|\n\s*$/g, '');
+			return {
+				blocks: [{
+					type: 'callout',
+					kind,
+					title: await this.parseInline(title),
+					foldable: callout[2] !== undefined,
+					blocks: inner.trim() ? await this.parseBlocks(inner) : [],
+				}],
+				nextIndex,
+			};
+		}
+
+		return { blocks: [{ type: 'quote', blocks: await this.parseBlocks(content.join('\n')) }], nextIndex };
+	}
+
+	private async convertList(list: List): Promise<Block> {
+		const items: ListItemNode[] = [];
+		for (const item of list.items) {
+			const task = item.lines[0].match(/^\[([ xX])\]\s+/);
+			const lines = task ? [item.lines[0].slice(task[0].length), ...item.lines.slice(1)] : item.lines;
+			items.push({ blocks: await this.parseBlocks(lines.join('\n'), false), checked: task ? task[1] !== ' ' : undefined });
+		}
+		return { type: 'list', format: list.format, delimiter: list.delimiter, start: list.start, items };
+	}
+
+	/**
+	 * Converts a table from its lines rather than its tokens, as pipes in
+	 * [[wikilinks]] and inline code do not separate cells. Rows with too many
+	 * cells are cut short and rows with too few padded.
+	 */
+	private async convertTable(tokens: Token[], index: number, context: BlockContext): Promise<ConvertedBlock> {
+		const [start, end] = tokens[index].map ?? [0, 0];
+		const alignments = splitTableRow(context.lines[start + 1].trim()).map((cell): TableAlignment => {
+			if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+			if (cell.endsWith(':')) return 'right';
+			return cell.startsWith(':') ? 'left' : null;
+		});
+
+		const rows: Inline[][][] = [];
+		let columnCount = 0;
+		for (let line = start; line < end; line++) {
+			// Skip the alignment row, and a caption written as the table's last line
+			if (line === start + 1 || context.captionLines.has(line)) {
+				continue;
+			}
+			const cells = splitTableRow(context.lines[line].trim());
+			columnCount = columnCount || cells.length;
+			const row: Inline[][] = [];
+			for (let column = 0; column < columnCount; column++) {
+				row.push(await this.parseInline(cells[column] ?? ''));
+			}
+			rows.push(row);
+		}
+
+		return {
+			blocks: [{ type: 'table', alignments, rows, caption: await this.createCaption('table', context.captions.get(start)?.caption) }],
+			nextIndex: findClosingToken(tokens, index) + 1,
+		};
+	}
+
+	/**
+	 * Converts a code block, or a diagram block to an image and a query block
+	 * to its results.
+	 */
+	private async convertCode(tokens: Token[], index: number): Promise<ConvertedBlock> {
+		const token = tokens[index];
+		const language = token.info.trim().split(/\s+/)[0].toLowerCase() || undefined;
+		const lines = token.content ? token.content.replace(/\n$/, '').split('\n') : [];
+		const code: Block = { type: 'code', lines, language };
+		const renderer = language ? this.diagramRenderers?.get(language) : undefined;
+		if (!language || !renderer) {
+			return { blocks: [code], nextIndex: index + 1 };
+		}
+
+		const count = this.renderedBlockCounts.get(language) ?? 0;
+		this.renderedBlockCounts.set(language, count + 1);
+		try {
+			const rendered = await renderer(lines.join('\n'), language, { sourcePath: this.sourcePath, index: count, settings: this.settings });
+			if (rendered && 'markdown' in rendered) {
+				const blocks = await this.parseBlocks(rendered.markdown);
+				return { blocks: rendered.keepSource ? [...blocks, code] : blocks, nextIndex: index + 1 };
+			}
+			if (rendered) {
+				return { blocks: [await this.createImage(rendered.data, language, rendered.width && Math.min(rendered.width, MAX_IMAGE_WIDTH))], nextIndex: index + 1 };
+			}
+		} catch (error) {
+			console.warn(`Could not render ${language} block:`, error);
+		}
+		return { blocks: [code], nextIndex: index + 1 };
+	}
+
+	private convertCommentBlock(tokens: Token[], index: number): ConvertedBlock {
+		const text = tokens[index].content;
+		// Page layout markers (%%landscape%%, %%pagebreak%%, ...)
+		const layoutMarker = parseLayoutMarker(`%%${text}%%`);
+		if (layoutMarker) {
+			return { blocks: [this.createLayoutBreak(layoutMarker)], nextIndex: index + 1 };
+		}
+		return { blocks: text ? [{ type: 'comment', text }] : [], nextIndex: index + 1 };
+	}
+
+	private async convertHtmlBlock(tokens: Token[], index: number, context: BlockContext): Promise<ConvertedBlock> {
+		const token = tokens[index];
+		const html = token.content.trim();
+
+		// Page layout markers (<!-- pagebreak -->, <!-- landscape -->, ...)
+		const layoutMarker = parseLayoutMarker(html);
+		if (layoutMarker) {
+			return { blocks: [this.createLayoutBreak(layoutMarker)], nextIndex: index + 1 };
+		}
+
+		// Collapsible <details> blocks may span blank lines and so several blocks
+		if (/^<details/i.test(html)) {
+			const { block, nextLine } = await this.convertDetails(context.lines, token.map?.[0] ?? 0);
+			let nextIndex = index + 1;
+			while (nextIndex < tokens.length && (tokens[nextIndex].map?.[0] ?? nextLine) < nextLine) {
+				nextIndex = findClosingToken(tokens, nextIndex) + 1;
+			}
+			return { blocks: [block], nextIndex };
+		}
+
+		// Comments, processing instructions and stray closing tags have nothing to show
+		if (/^<(!|\?|\/)/.test(html)) {
+			return { blocks: [], nextIndex: index + 1 };
+		}
+
+		const doc = new DOMParser().parseFromString(`<wrapper>${html}</wrapper>`, 'text/html');
+		const blocks: Block[] = [];
+		for (const node of Array.from(doc.body.childNodes)) {
+			blocks.push(...await this.convertHtmlNode(node));
+		}
+		const fallback = (doc.body.textContent ?? '').trim();
+		if (blocks.length === 0 && fallback) {
+			blocks.push({ type: 'paragraph', content: await this.createTextWithFootnotes(fallback, {}) });
+		}
+		return { blocks, nextIndex: index + 1 };
+	}
+
+	private async convertDetails(lines: string[], start: number): Promise<{ block: Block; nextLine: number }> {
+		let depth = 0;
+		const collected: string[] = [];
+		let i = start;
+		for (; i < lines.length; i++) {
+			const trimmed = lines[i].trim();
+			if (/^<details/i.test(trimmed)) {
+				depth++;
+			}
+			if (/^<\/details>/i.test(trimmed)) {
+				depth--;
+			}
+			collected.push(lines[i]);
+			if (depth === 0) {
+				break;
+			}
+		}
+
+		const html = collected.join('\n');
+		const summary = html.match(/<summary[^>]*>([\s\S]*?)<\/summary>/i);
+		const content = html
+			.replace(/<details[^>]*>/i, '')
+			.replace(/<\/details>/i, '')
+			.replace(summary ? summary[0] : '', '')
+			.trim();
+		return {
+			block: {
+				type: 'details',
+				summary: await this.parseInline(summary ? summary[1].trim() : 'Details'),
+				blocks: content ? await this.parseBlocks(content) : [],
+			},
+			nextLine: i + 1,
+		};
+	}
+
+	private async convertHtmlNode(node: ChildNode): Promise<Block[]> {
+		if (node.nodeType === Node.TEXT_NODE) {
+			const text = (node.textContent ?? '').trim();
+			return text ? [{ type: 'paragraph', content: await this.createTextWithFootnotes(text, {}) }] : [];
+		}
+		if (node.nodeType !== Node.ELEMENT_NODE) {
+			return [];
+		}
+
+		const element = node as HTMLElement;
+		const tag = element.tagName.toLowerCase();
+		if (tag === 'br') {
+			return [{ type: 'blank' }];
+		}
+		if (tag === 'hr') {
+			return [{ type: 'rule' }];
+		}
+		if (tag === 'ul' || tag === 'ol') {
+			const items: ListItemNode[] = [];
+			for (const item of Array.from(element.children)) {
+				if (item.tagName.toLowerCase() === 'li') {
+					items.push({ blocks: [{ type: 'paragraph', content: await this.convertHtmlInline(item.childNodes, {}) }] });
+				}
+			}
+			return [{
+				type: 'list',
+				format: tag === 'ol' ? 'decimal' : 'bullet',
+				delimiter: '.',
+				start: parseInt(element.getAttribute('start') ?? '', 10) || 1,
+				items,
+			}];
+		}
+		if (HTML_BLOCK_TAGS.includes(tag)) {
+			const blocks: Block[] = [];
+			for (const child of Array.from(element.childNodes)) {
+				blocks.push(...await this.convertHtmlNode(child));
+			}
+			if (blocks.length > 0) {
+				return blocks;
+			}
+		}
+
+		const content = await this.convertHtmlInline(element.childNodes, {});
+		if (content.length > 0) {
+			return [{ type: 'paragraph', content }];
+		}
+		const text = (element.textContent ?? '').trim();
+		return text ? [{ type: 'paragraph', content: await this.createTextWithFootnotes(text, {}) }] : [];
+	}
+
+	private async convertHtmlInline(nodes: NodeListOf<ChildNode>, style: InlineStyle, target: LinkTarget = {}): Promise<Inline[]> {
+		const inlines: Inline[] = [];
+		for (const node of Array.from(nodes)) {
+			if (node.nodeType === Node.TEXT_NODE) {
+				inlines.push(...await this.createTextWithFootnotes(node.textContent ?? '', style, target));
+				continue;
+			}
+			if (node.nodeType !== Node.ELEMENT_NODE) {
+				continue;
+			}
+			const element = node as HTMLElement;
+			const tag = element.tagName.toLowerCase();
+			if (tag === 'br') {
+				inlines.push({ type: 'break' });
+			} else if (tag === 'a') {
+				const href = element.getAttribute('href');
+				inlines.push(...await this.convertHtmlInline(element.childNodes, style, href ? { link: href } : target));
+			} else {
+				inlines.push(...await this.convertHtmlInline(element.childNodes, { ...style, ...HTML_TAG_STYLES[tag] }, target));
+			}
+		}
+		return inlines;
+	}
+
+	/**
+	 * Transcludes ![[Note]], ![[Note#Heading]] or ![[Note#^block]], guarding
+	 * against circular embeds and embeds nested too deep.
+	 */
+	private async convertEmbeddedNote(rawLink: string): Promise<Block[]> {
+		const link = parseWikilink(rawLink);
+		const target = link.target || this.filename;
+		const noteName = (target.split('/').pop() ?? target).replace(/\.md$/i, '').toLowerCase();
+		const label = rawLink.split('|')[0].trim();
+
+		// Whole-note embeds are tracked by name, section embeds by name and section,
+		// so a note can embed sections of itself
+		const key = link.heading || link.blockId ? `${noteName}#${(link.heading ?? link.blockId ?? '').toLowerCase()}` : noteName;
+		if (this.embedStack.includes(key)) {
+			return [this.createNotice(`[Embedded note skipped: ${label} (circular embed)]`)];
+		}
+		if (this.embedStack.length > this.settings.embedMaxDepth) {
+			return [this.createNotice(`[Embedded note skipped: ${label} (maximum embed depth reached)]`)];
+		}
+
+		const data = this.resourceLoader ? await this.resourceLoader(target).catch(() => null) : null;
+		if (!data) {
+			return [this.createNotice(`[Note not found: ${label}]`)];
+		}
+
+		const { content: body } = extractFrontmatter(new TextDecoder('utf-8').decode(data));
+		let section = body;
+		if (link.heading) {
+			section = extractHeadingSection(body, link.heading) ?? '';
+		} else if (link.blockId) {
+			section = extractBlockSection(body, link.blockId) ?? '';
+		}
+		if (!section.trim()) {
+			return [this.createNotice(`[Section not found: ${label}]`)];
+		}
+
+		const { content, definitions } = extractFootnotes(section);
+		definitions.forEach((definition, footnoteLabel) => {
+			if (!this.footnoteDefinitions.has(footnoteLabel)) {
+				this.footnoteDefinitions.set(footnoteLabel, definition);
+			}
+		});
+
+		// Links in the embedded note are resolved from where it is, and its
+		// headings and block IDs are its own
+		const parentPath = this.sourcePath;
+		const parentName = this.filename;
+		const headingShift = this.settings.embedShiftHeadings ? 1 : 0;
+		this.embedStack.push(key);
+		this.headingLevelOffset += headingShift;
+		this.filename = (target.split('/').pop() ?? target).replace(/\.md$/i, '');
+		this.useSourcePath(this.resources?.resolve(target, parentPath) ?? parentPath);
+		this.collectBookmarks(content, this.filename);
+		try {
+			return [{ type: 'embed', title: link.alias ?? label, blocks: await this.parseBlocks(content.replace(/^\s*\n|\n\s*$/g, '')) }];
+		} finally {
+			this.filename = parentName;
+			this.useSourcePath(parentPath);
+			this.headingLevelOffset -= headingShift;
+			this.embedStack.pop();
+		}
+	}
+
+	private async createMetadata(frontmatter: Record<string, unknown>): Promise<Block[]> {
+		const entries = getMetadataEntries(frontmatter);
+		if (entries.length === 0) {
+			return [];
+		}
+		const metadata: { key: string; value: Inline[] }[] = [];
+		this.allowFootnotes = false;
+		try {
+			for (const [key, value] of entries) {
+				metadata.push({ key, value: await this.parseInline(value) });
+			}
+		} finally {
+			this.allowFootnotes = true;
+		}
+		return [{ type: 'metadata', entries: metadata }];
+	}
+
+	private createText(text: string, style: InlineStyle = {}, target: LinkTarget = {}): Inline {
+		return { type: 'text', text, style, ...target };
+	}
+
+	private async parseInline(text: string): Promise<Inline[]> {
+		if (!this.settings.preserveFormatting) {
+			// The markdown is kept as written, apart from footnote references
+			const inlines: Inline[] = [];
+			for (const [index, line] of text.split('\n').entries()) {
+				if (index > 0) {
+					inlines.push({ type: 'break' });
+				}
+				inlines.push(...await this.createTextWithFootnotes(line, {}));
+			}
+			return inlines;
+		}
+		const env: Record<string, unknown> = { references: this.linkReferences };
+		return await this.convertInline(this.md.parseInline(text, env)[0]?.children ?? [], {}, env);
+	}
+
+	private async convertInline(tokens: Token[], baseStyle: InlineStyle, env: Record<string, unknown>, target: LinkTarget = {}): Promise<Inline[]> {
+		const inlines: Inline[] = [];
+		// Inline HTML tags open and close as tokens of their own
+		const htmlStyles: InlineStyle[] = [baseStyle];
+		let htmlLink: string | undefined;
+		// Where the CriticMarkup just before the current token starts, so a comment can cover it
+		let annotationStart: number | null = null;
+
+		for (let i = 0; i < tokens.length; i++) {
+			const token = tokens[i];
+			const style = htmlStyles[htmlStyles.length - 1];
+			const linkTarget = htmlLink ? { link: htmlLink } : target;
+			const previousAnnotation: number | null = annotationStart;
+			annotationStart = null;
+			switch (token.type) {
+				case 'text':
+					inlines.push(...await this.createTextWithFootnotes(token.content, style, linkTarget));
+					break;
+				case 'softbreak':
+				case 'hardbreak':
+					inlines.push({ type: 'break' });
+					break;
+				case 'code_inline':
+					inlines.push(this.createText(token.content, { ...style, code: true }, linkTarget));
+					break;
+				case 'emoji':
+					inlines.push(this.createText(token.content, style, linkTarget));
+					break;
+				case 'math_inline':
+					inlines.push({ type: 'math', latex: token.content });
+					break;
+				case 'cross_reference':
+					inlines.push({ type: 'reference', label: token.meta.label, text: token.content, style });
+					break;
+				case 'wikilink':
+					inlines.push(this.createWikilink(token.meta as WikilinkParts, style, linkTarget));
+					break;
+				case 'wikilink_embed':
+					inlines.push(await this.createInlineEmbed(token.content, style));
+					break;
+				case 'image': {
+					// ![alt|100](image.png) sets the width
+					const width = token.content.match(/\|\s*(\d+)\s*$/);
+					const alt = width ? token.content.slice(0, width.index).trim() : token.content;
+					const data = await loadImageData(this.decodeLink(token.attrGet('src') ?? ''), this.resourceLoader);
+					inlines.push(await this.createInlineImage(data, alt, width ? parseInt(width[1], 10) : undefined, style));
+					break;
+				}
+				case 'footnote_ref': {
+					// Inline footnotes (^[text]); [^label] references are found in the text
+					const list = (env.footnotes as { list?: { tokens?: Token[] }[] } | undefined)?.list;
+					const footnote = list?.[token.meta?.id];
+					if (footnote?.tokens && this.allowFootnotes) {
+						const index = this.footnotes.length;
+						this.footnotes.push({ paragraphs: [] });
+						this.allowFootnotes = false;
+						try {
+							this.footnotes[index].paragraphs = [await this.convertInline(footnote.tokens, {}, env)];
+						} finally {
+							this.allowFootnotes = true;
+						}
+						inlines.push({ type: 'footnote', index });
+					}
+					break;
+				}
+				case 'link_open': {
+					const closeIndex = findClosingToken(tokens, i);
+					const href = token.attrGet('href') ?? '';
+					inlines.push(...await this.convertInline(tokens.slice(i + 1, closeIndex), style, env, this.resolveLink(href)));
+					i = closeIndex;
+					break;
+				}
+				case 'strong_open':
+				case 'em_open':
+				case 's_open':
+				case 'mark_open': {
+					const closeIndex = findClosingToken(tokens, i);
+					const nextStyle: InlineStyle = { ...style };
+					if (token.type === 'strong_open') nextStyle.bold = true;
+					if (token.type === 'em_open') nextStyle.italic = true;
+					if (token.type === 's_open') nextStyle.strike = true;
+					if (token.type === 'mark_open') nextStyle.highlight = true;
+					inlines.push(...await this.convertInline(tokens.slice(i + 1, closeIndex), nextStyle, env, linkTarget));
+					i = closeIndex;
+					break;
+				}
+				case 'critic_insert_open':
+				case 'critic_delete_open':
+				case 'critic_highlight_open': {
+					const closeIndex = findClosingToken(tokens, i);
+					const nextStyle: InlineStyle = { ...style };
+					if (token.type === 'critic_insert_open') nextStyle.revision = 'insert';
+					if (token.type === 'critic_delete_open') nextStyle.revision = 'delete';
+					if (token.type === 'critic_highlight_open') nextStyle.highlight = true;
+					// A substitution is a deletion directly followed by an insertion
+					annotationStart = previousAnnotation ?? inlines.length;
+					inlines.push(...await this.convertInline(tokens.slice(i + 1, closeIndex), nextStyle, env, linkTarget));
+					i = closeIndex;
+					break;
+				}
+				case 'critic_comment':
+				case 'obsidian_comment': {
+					// Comments cover the markup they follow, or else the inline before them
+					if (token.content) {
+						const obsidian = token.type === 'obsidian_comment';
+						const start = !obsidian && previousAnnotation !== null ? previousAnnotation : Math.max(inlines.length - 1, 0);
+						const content = inlines.splice(start);
+						inlines.push({ type: 'comment', text: token.content, content, obsidian: obsidian || undefined });
+					}
+					break;
+				}
+				case 'html_inline': {
+					const tag = token.content.match(/^<(\/)?([a-z]+)\b[^>]*?>$/i);
+					const name = tag?.[2].toLowerCase();
+					if (name === 'br') {
+						inlines.push({ type: 'break' });
+					} else if (name === 'a') {
+						htmlLink = tag?.[1] ? undefined : token.content.match(/\bhref\s*=\s*["']([^"']*)["']/i)?.[1] || undefined;
+					} else if (name && HTML_TAG_STYLES[name]) {
+						if (!tag?.[1]) {
+							htmlStyles.push({ ...style, ...HTML_TAG_STYLES[name] });
+						} else if (htmlStyles.length > 1) {
+							htmlStyles.pop();
+						}
+					}
+					break;
+				}
+				default:
+					if (token.children && token.children.length > 0) {
+						inlines.push(...await this.convertInline(token.children, style, env, linkTarget));
+					}
+					break;
+			}
+		}
+		return inlines;
+	}
+
+	// [text](#Heading) points at the heading in the note
+	private resolveLink(href: string): LinkTarget {
+		if (!href.startsWith('#')) {
+			return href ? { link: href } : {};
+		}
+		const anchor = this.headingBookmarks.get(this.bookmarkKey(normalizeHeadingKey(this.decodeLink(href.slice(1)))));
+		return anchor ? { anchor } : {};
+	}
+
+	// markdown-it percent-encodes link targets
+	private decodeLink(link: string): string {
+		try {
+			return decodeURI(link);
+		} catch {
+			return link;
+		}
+	}
+
+	private createWikilink(link: WikilinkParts, style: InlineStyle, target: LinkTarget): Inline {
+		const subpath = link.blockId ? `^${link.blockId}` : link.heading;
+		const displayText = link.alias
+			?? (link.target && subpath ? `${link.target} > ${subpath}` : link.target || subpath || '');
+		// Within a link, a wikilink is part of the link's text
+		if (target.link || target.anchor) {
+			return this.createText(displayText, style, target);
+		}
+
+		const targetName = link.target ? link.target.split('/').pop()?.replace(/\.md$/i, '') ?? '' : this.filename;
+		if (targetName.toLowerCase() === this.filename.toLowerCase() || this.chapterNames.has(targetName.toLowerCase())) {
+			// Links to another chapter without a subpath point at its chapter heading
+			const anchor = link.blockId
+				? this.blockBookmarks.get(this.bookmarkKey(`^${link.blockId}`, targetName))
+				: this.headingBookmarks.get(this.bookmarkKey(link.heading ? normalizeHeadingKey(link.heading) : '', targetName));
+			return this.createText(displayText, style, anchor ? { anchor } : {});
+		}
+
+		if (this.settings.internalLinks === 'obsidian-uri' && this.vaultName) {
+			const file = subpath ? `${link.target}#${subpath}` : link.target;
+			const uri = `obsidian://open?vault=${encodeURIComponent(this.vaultName)}&file=${encodeURIComponent(file)}`;
+			return this.createText(displayText, style, { link: uri });
+		}
+		return this.createText(displayText, style);
+	}
+
+	// An image within a line of text; notes embedded there are shown by name
+	private async createInlineEmbed(rawLink: string, style: InlineStyle): Promise<Inline> {
+		if (isMarkdownEmbed(rawLink)) {
+			return this.createText(parseWikilink(rawLink).alias ?? rawLink.split('|')[0].trim(), style);
+		}
+		const parsed = parseEmbeddedImageLink(rawLink);
+		const data = parsed.target && this.resourceLoader ? await this.resourceLoader(parsed.target).catch(() => null) : null;
+		return await this.createInlineImage(data, parsed.alt ?? parsed.target, parsed.widthOverride, style);
+	}
+
+	private async createInlineImage(data: ArrayBuffer | null, alt: string, widthOverride: number | undefined, style: InlineStyle): Promise<Inline> {
+		const type = data ? getImageType(data) : null;
+		if (!data || !type) {
+			return this.createText(`[Image not found: ${alt}]`, style);
+		}
+		return { type: 'image', image: { data, type, alt, ...await getImageSize(data, widthOverride) } };
+	}
+
+	// Text with [^label] references to footnotes defined in the note
+	private async createTextWithFootnotes(text: string, style: InlineStyle, target: LinkTarget = {}): Promise<Inline[]> {
+		const inlines: Inline[] = [];
+		const regex = /\[\^([^\]]+)\]/g;
+		let lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = regex.exec(text)) !== null) {
+			if (!this.allowFootnotes || !this.footnoteDefinitions.has(match[1])) {
+				continue;
+			}
+			if (match.index > lastIndex) {
+				inlines.push(this.createText(text.slice(lastIndex, match.index), style, target));
+			}
+			inlines.push({ type: 'footnote', index: await this.getFootnoteIndex(match[1]) });
+			lastIndex = match.index + match[0].length;
+		}
+		if (lastIndex < text.length) {
+			inlines.push(this.createText(text.slice(lastIndex), style, target));
+		}
+		return inlines;
+	}
+
+	// Footnotes are numbered in the order of their first reference
+	private async getFootnoteIndex(label: string): Promise<number> {
+		let index = this.footnoteIndexes.get(label);
+		if (index === undefined) {
+			index = this.footnotes.length;
+			this.footnoteIndexes.set(label, index);
+			const footnote: Footnote = { paragraphs: [] };
+			this.footnotes.push(footnote);
+			const definition = this.footnoteDefinitions.get(label) ?? '';
+			this.allowFootnotes = false;
+			try {
+				for (const part of definition.split(/\n{2,}/)) {
+					footnote.paragraphs.push(await this.parseInline(part.trim()));
+				}
+			} finally {
+				this.allowFootnotes = true;
+			}
+		}
+		return index;
+	}
+}
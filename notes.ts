@@ -0,0 +1,203 @@
+import { parseYaml } from 'obsidian';
+import { normalizeHeadingKey } from './wikilinks';
+
+// The parts of a note around its body text: the YAML frontmatter, which also
+// gives the document's properties, and the footnote definitions.
+
+export const FRONTMATTER_PROPERTY_KEYS = ['title', 'author', 'authors', 'creator', 'description', 'summary', 'subject', 'tags', 'tag', 'keywords'];
+export const FRONTMATTER_DATE_KEYS = ['date', 'created', 'modified', 'updated'];
+// Obsidian-internal keys that carry no meaning in a Word document
+export const FRONTMATTER_IGNORED_KEYS = ['cssclass', 'cssclasses', 'position', 'publish', 'word-profile', 'word-autoexport'];
+
+export function extractFrontmatter(markdown: string): { content: string; frontmatter: Record<string, unknown> } {
+	const match = markdown.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+	if (!match) {
+		return { content: markdown, frontmatter: {} };
+	}
+
+	let frontmatter: Record<string, unknown> = {};
+	try {
+		const parsed = parseYaml(match[1]);
+		if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+			frontmatter = parsed as Record<string, unknown>;
+		}
+	} catch (error) {
+		console.warn('Failed to parse frontmatter, exporting without it', error);
+	}
+
+	return { content: markdown.slice(match[0].length), frontmatter };
+}
+
+export function formatFrontmatterValue(value: unknown): string {
+	if (value === null || value === undefined) {
+		return '';
+	}
+	if (Array.isArray(value)) {
+		return value.map(item => formatFrontmatterValue(item)).filter(item => item.length > 0).join(', ');
+	}
+	if (value instanceof Date) {
+		return value.toISOString().split('T')[0];
+	}
+	if (typeof value === 'object') {
+		return JSON.stringify(value);
+	}
+	return String(value).trim();
+}
+
+export function getDocumentProperties(frontmatter: Record<string, unknown>, fallbackTitle: string) {
+	const pick = (...keys: string[]): string | undefined => {
+		for (const key of keys) {
+			const value = formatFrontmatterValue(frontmatter[key]);
+			if (value) {
+				return value;
+			}
+		}
+		return undefined;
+	};
+
+	const tags = [frontmatter.tags, frontmatter.tag, frontmatter.keywords]
+		.flatMap(value => Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [])
+		.map(tag => String(tag).trim().replace(/^#/, ''))
+		.filter(tag => tag.length > 0);
+
+	const customProperties = FRONTMATTER_DATE_KEYS
+		.map(key => ({ name: key.charAt(0).toUpperCase() + key.slice(1), value: formatFrontmatterValue(frontmatter[key]) }))
+		.filter(property => property.value.length > 0);
+
+	const creator = pick('author', 'authors', 'creator');
+
+	return {
+		title: pick('title') || fallbackTitle,
+		creator,
+		lastModifiedBy: creator,
+		subject: pick('subject'),
+		description: pick('description', 'summary'),
+		keywords: tags.length > 0 ? Array.from(new Set(tags)).join(', ') : undefined,
+		customProperties,
+	};
+}
+
+/**
+ * The frontmatter keys and values that are not document properties, for the
+ * properties table at the top of an export.
+ */
+export function getMetadataEntries(frontmatter: Record<string, unknown>): [string, string][] {
+	return Object.entries(frontmatter)
+		.filter(([key]) => !FRONTMATTER_PROPERTY_KEYS.includes(key) && !FRONTMATTER_DATE_KEYS.includes(key) && !FRONTMATTER_IGNORED_KEYS.includes(key))
+		.map(([key, value]): [string, string] => [key, formatFrontmatterValue(value)])
+		.filter(([, value]) => value.length > 0);
+}
+
+export function extractFootnotes(markdown: string): { content: string; definitions: Map<string, string> } {
+	const lines = markdown.split('\n');
+	const filteredLines: string[] = [];
+	const definitions = new Map<string, string>();
+	let inCodeBlock = false;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		// Code samples are kept as written
+		if (/^\s*(```|~~~)/.test(line)) {
+			inCodeBlock = !inCodeBlock;
+		}
+		const match = inCodeBlock ? null : line.match(/^\[\^([^\]]+)\]:\s*(.*)$/);
+		if (match) {
+			const label = match[1].trim();
+			const definitionParagraphs: string[][] = [[]];
+			if (match[2]) {
+				definitionParagraphs[0].push(match[2].trim());
+			}
+
+			// Indented lines continue the definition; a blank line followed by
+			// an indented line starts a new paragraph within the same footnote
+			let j = i + 1;
+			while (j < lines.length) {
+				if (/^\s{2,}.+/.test(lines[j])) {
+					definitionParagraphs[definitionParagraphs.length - 1].push(lines[j].trim());
+					j++;
+					continue;
+				}
+				let k = j;
+				while (k < lines.length && lines[k].trim() === '') {
+					k++;
+				}
+				if (k > j && k < lines.length && /^\s{2,}.+/.test(lines[k])) {
+					definitionParagraphs.push([]);
+					j = k;
+					continue;
+				}
+				break;
+			}
+
+			definitions.set(label, definitionParagraphs
+				.map(parts => parts.join(' ').trim())
+				.filter(part => part.length > 0)
+				.join('\n\n'));
+			i = j - 1;
+		} else {
+			filteredLines.push(line);
+		}
+	}
+
+	return { content: filteredLines.join('\n'), definitions };
+}
+
+/**
+ * The part of a note under the given heading, up to the next heading of the
+ * same or a higher level.
+ */
+export function extractHeadingSection(markdown: string, heading: string): string | null {
+	const lines = markdown.split('\n');
+	const key = normalizeHeadingKey(heading);
+	let inCodeBlock = false;
+	let startIndex = -1;
+	let startLevel = 0;
+
+	for (let i = 0; i < lines.length; i++) {
+		if (/^\s*(```|~~~)/.test(lines[i])) {
+			inCodeBlock = !inCodeBlock;
+			continue;
+		}
+		if (inCodeBlock) {
+			continue;
+		}
+		const headingMatch = lines[i].match(/^(#{1,6})\s+(.+)$/);
+		if (!headingMatch) {
+			continue;
+		}
+		const level = headingMatch[1].length;
+		if (startIndex === -1) {
+			if (normalizeHeadingKey(headingMatch[2]) === key) {
+				startIndex = i;
+				startLevel = level;
+			}
+		} else if (level <= startLevel) {
+			return lines.slice(startIndex, i).join('\n');
+		}
+	}
+
+	return startIndex === -1 ? null : lines.slice(startIndex).join('\n');
+}
+
+/**
+ * The block of a note marked with ^blockId.
+ */
+export function extractBlockSection(markdown: string, blockId: string): string | null {
+	const lines = markdown.split('\n');
+	const marker = new RegExp(`(^|\\s)\\^${blockId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`);
+	const index = lines.findIndex(line => marker.test(line));
+	if (index === -1) {
+		return null;
+	}
+
+	// A block ID on its own line refers to the block above it
+	if (lines[index].trim().startsWith('^')) {
+		let start = index;
+		while (start > 0 && lines[start - 1].trim() !== '') {
+			start--;
+		}
+		return lines.slice(start, index).join('\n');
+	}
+
+	return lines[index].replace(marker, '');
+}
@@ -0,0 +1,404 @@
+import JSZip from 'jszip';
+import type { Block, BlockCaption, ExportDocument, ImageData, Inline, InlineStyle } from './model';
+import type { ListFormat } from './lists';
+import { CAPTION_NAMES } from './captions';
+import { getPageLayout, MarginPreset, PageSize } from './layout';
+
+// Writes an ExportDocument as an OpenDocument text file (.odt), the format
+// of LibreOffice Writer: content, styles and metadata as XML in a zip, with
+// the images under Pictures/.
+
+interface ToWordSettings {
+	defaultFontFamily: string;
+	defaultFontSize: number;
+	pageSize: PageSize;
+	orientation: 'portrait' | 'landscape';
+	marginPreset: MarginPreset;
+	marginTop: number;
+	marginRight: number;
+	marginBottom: number;
+	marginLeft: number;
+	figureCaptionPosition: 'above' | 'below';
+	tableCaptionPosition: 'above' | 'below';
+}
+
+const MIME_TYPE = 'application/vnd.oasis.opendocument.text';
+
+const NAMESPACES = [
+	'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+	'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+	'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+	'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+	'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"',
+	'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+	'xmlns:xlink="http://www.w3.org/1999/xlink"',
+	'xmlns:dc="http://purl.org/dc/elements/1.1/"',
+	'xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0"',
+	'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+].join(' ');
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	gif: 'image/gif',
+	bmp: 'image/bmp',
+};
+
+const NUMBER_FORMATS: Record<Exclude<ListFormat, 'bullet'>, string> = {
+	decimal: '1',
+	lowerLetter: 'a',
+	upperLetter: 'A',
+	lowerRoman: 'i',
+	upperRoman: 'I',
+};
+
+// Heading sizes relative to the body text
+const HEADING_SCALES = [2, 1.6, 1.35, 1.15, 1.05, 1];
+
+const PIXELS_PER_INCH = 96;
+
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+/**
+ * Escapes text for a text:p, where runs of spaces and tabs must be written
+ * as elements to survive.
+ */
+function writeText(text: string): string {
+	return escapeXml(text)
+		.replace(/\t/g, '<text:tab/>')
+		.replace(/ {2,}/g, spaces => ` <text:s text:c="${spaces.length - 1}"/>`)
+		.replace(/^ /, '<text:s/>');
+}
+
+class OdtWriter {
+	private settings: ToWordSettings;
+	private doc: ExportDocument;
+	private textStyles: Map<string, string> = new Map();
+	private automaticStyles: string[] = [];
+	private listStyleCount = 0;
+	private tableCount = 0;
+	private images: { path: string; image: ImageData }[] = [];
+
+	constructor(doc: ExportDocument, settings: ToWordSettings) {
+		this.doc = doc;
+		this.settings = settings;
+	}
+
+	async write(): Promise<Blob> {
+		const body = this.writeBlocks(this.doc.blocks, 'Text_20_body');
+		const zip = new JSZip();
+		// The mimetype must come first and be stored uncompressed
+		zip.file('mimetype', MIME_TYPE, { compression: 'STORE' });
+		zip.file('META-INF/manifest.xml', this.writeManifest());
+		zip.file('content.xml', this.writeContent(body));
+		zip.file('styles.xml', this.writeStyles());
+		zip.file('meta.xml', this.writeMeta());
+		for (const { path, image } of this.images) {
+			zip.file(path, image.data);
+		}
+		return await zip.generateAsync({ type: 'blob', mimeType: MIME_TYPE, compression: 'DEFLATE' });
+	}
+
+	private writeBlocks(blocks: Block[], paragraphStyle: string): string {
+		return blocks.map(block => this.writeBlock(block, paragraphStyle)).join('');
+	}
+
+	private writeBlock(block: Block, paragraphStyle: string): string {
+		switch (block.type) {
+			case 'heading':
+				return `<text:h text:style-name="Heading_20_${block.level}" text:outline-level="${block.level}">${this.writeInlines(block.content)}</text:h>`;
+			case 'paragraph':
+				return `<text:p text:style-name="${paragraphStyle}">${this.writeInlines(block.content)}</text:p>`;
+			case 'code':
+				return block.lines.map(line => `<text:p text:style-name="Preformatted_20_Text">${writeText(line)}</text:p>`).join('');
+			case 'math':
+				return block.latex.split('\n').map(line => `<text:p text:style-name="Preformatted_20_Text">${writeText(line)}</text:p>`).join('');
+			case 'quote':
+				return this.writeBlocks(block.blocks, 'Quotations');
+			case 'callout':
+				return `<text:p text:style-name="Quotations">${this.writeBold(block.title)}</text:p>${this.writeBlocks(block.blocks, 'Quotations')}`;
+			case 'list': {
+				const styleName = this.addListStyle(block.format, block.delimiter, block.start);
+				const items = block.items.map(item => {
+					const checkbox = item.checked === undefined ? '' : item.checked ? '☑ ' : '☐ ';
+					const [first, ...rest] = item.blocks;
+					const lead = first?.type === 'paragraph'
+						? `<text:p text:style-name="List_20_Contents">${checkbox}${this.writeInlines(first.content)}</text:p>`
+						: `<text:p text:style-name="List_20_Contents">${checkbox}</text:p>${first ? this.writeBlock(first, 'List_20_Contents') : ''}`;
+					return `<text:list-item>${lead}${this.writeBlocks(rest, 'List_20_Contents')}</text:list-item>`;
+				}).join('');
+				return `<text:list text:style-name="${styleName}">${items}</text:list>`;
+			}
+			case 'table':
+				return this.withCaption(this.writeTable(block.rows, block.alignments), block.caption);
+			case 'image': {
+				const image = block.image ? this.writeImage(block.image) : writeText(`[Image not found: ${block.alt}]`);
+				return this.withCaption(`<text:p text:style-name="Image">${image}</text:p>`, block.caption);
+			}
+			case 'definition':
+				return `<text:p text:style-name="${paragraphStyle}">${this.writeBold(block.term)}: ${this.writeInlines(block.definition)}</text:p>`;
+			case 'details':
+				return `<text:p text:style-name="${paragraphStyle}">${this.writeBold(block.summary)}</text:p>${this.writeBlocks(block.blocks, paragraphStyle)}`;
+			case 'embed':
+				return this.writeBlocks(block.blocks, paragraphStyle);
+			case 'metadata': {
+				const text = (value: string): Inline[] => [{ type: 'text', text: value, style: {} }];
+				return this.writeTable([[text('Property'), text('Value')], ...block.entries.map(entry => [text(entry.key), entry.value])], []);
+			}
+			case 'rule':
+				return '<text:p text:style-name="Horizontal_20_Line"/>';
+			case 'pagebreak':
+				return '<text:p text:style-name="Page_20_Break"/>';
+			case 'toc':
+			case 'section':
+			case 'anchor':
+			case 'comment':
+			case 'blank':
+				return '';
+		}
+	}
+
+	// "Figure 2: text" above or below the figure or table
+	private withCaption(xml: string, caption: BlockCaption | undefined): string {
+		if (!caption) {
+			return xml;
+		}
+		const name = writeText(`${CAPTION_NAMES[caption.kind]} ${caption.number}`);
+		const text = caption.content.length > 0 ? `${name}: ${this.writeInlines(caption.content)}` : name;
+		const paragraph = `<text:p text:style-name="${caption.kind === 'figure' ? 'Figure' : 'Table'}">${text}</text:p>`;
+		const position = caption.kind === 'figure' ? this.settings.figureCaptionPosition : this.settings.tableCaptionPosition;
+		return position === 'above' ? paragraph + xml : xml + paragraph;
+	}
+
+	private writeBold(inlines: Inline[]): string {
+		return `<text:span text:style-name="${this.getTextStyle({ bold: true })}">${this.writeInlines(inlines)}</text:span>`;
+	}
+
+	private writeTable(rows: Inline[][][], alignments: (string | null)[]): string {
+		const columns = Math.max(1, ...rows.map(row => row.length));
+		const name = `Table${++this.tableCount}`;
+		const cell = (content: Inline[] | undefined, column: number, header: boolean) => {
+			const align = alignments[column];
+			const style = align === 'center' || align === 'right'
+				? `${header ? 'Heading' : 'Contents'}_${align}`
+				: header ? 'Table_20_Heading' : 'Table_20_Contents';
+			return `<table:table-cell table:style-name="TableCell" office:value-type="string"><text:p text:style-name="${style}">${this.writeInlines(content ?? [])}</text:p></table:table-cell>`;
+		};
+		const row = (cells: Inline[][], header: boolean) =>
+			`<table:table-row>${Array.from({ length: columns }, (_, column) => cell(cells[column], column, header)).join('')}</table:table-row>`;
+
+		const [header, ...body] = rows;
+		return `<table:table table:name="${name}" table:style-name="Table">`
+			+ `<table:table-column table:number-columns-repeated="${columns}"/>`
+			+ (header ? `<table:table-header-rows>${row(header, true)}</table:table-header-rows>` : '')
+			+ body.map(cells => row(cells, false)).join('')
+			+ '</table:table>';
+	}
+
+	private writeImage(image: ImageData): string {
+		const path = `Pictures/image${this.images.length + 1}.${image.type}`;
+		this.images.push({ path, image });
+		const width = (image.width / PIXELS_PER_INCH).toFixed(3);
+		const height = (image.height / PIXELS_PER_INCH).toFixed(3);
+		return `<draw:frame draw:name="Image${this.images.length}" text:anchor-type="as-char" svg:width="${width}in" svg:height="${height}in">`
+			+ `<draw:image xlink:href="${path}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/>`
+			+ `<svg:desc>${escapeXml(image.alt)}</svg:desc></draw:frame>`;
+	}
+
+	private writeInlines(inlines: Inline[], inFootnote = false): string {
+		return inlines.map(inline => {
+			switch (inline.type) {
+				case 'break':
+					return '<text:line-break/>';
+				case 'footnote': {
+					// Footnotes cannot hold footnotes of their own
+					const footnote = this.doc.footnotes[inline.index];
+					if (inFootnote || !footnote) {
+						return '';
+					}
+					const number = inline.index + 1;
+					const paragraphs = footnote.paragraphs
+						.map(paragraph => `<text:p text:style-name="Footnote">${this.writeInlines(paragraph, true)}</text:p>`)
+						.join('');
+					return `<text:note text:id="ftn${number}" text:note-class="footnote"><text:note-citation>${number}</text:note-citation>`
+						+ `<text:note-body>${paragraphs}</text:note-body></text:note>`;
+				}
+				case 'text': {
+					// Tracked changes are shown accepted
+					if (inline.style.revision === 'delete') {
+						return '';
+					}
+					const styleName = this.getTextStyle(inline.style);
+					const text = styleName
+						? `<text:span text:style-name="${styleName}">${writeText(inline.text)}</text:span>`
+						: writeText(inline.text);
+					return inline.link
+						? `<text:a xlink:type="simple" xlink:href="${escapeXml(inline.link)}" text:style-name="Internet_20_link">${text}</text:a>`
+						: text;
+				}
+				case 'math':
+					return `<text:span text:style-name="${this.getTextStyle({ code: true })}">${writeText(inline.latex)}</text:span>`;
+				case 'image':
+					return this.writeImage(inline.image);
+				case 'reference': {
+					const target = this.doc.labels[inline.label];
+					const text = writeText(target ? `${CAPTION_NAMES[target.kind]} ${target.number}` : inline.text);
+					const styleName = this.getTextStyle(inline.style);
+					return styleName ? `<text:span text:style-name="${styleName}">${text}</text:span>` : text;
+				}
+				case 'comment':
+					return this.writeInlines(inline.content, inFootnote);
+			}
+		}).join('');
+	}
+
+	// Each combination of styles becomes one automatic text style
+	private getTextStyle(style: InlineStyle): string | null {
+		const properties = [
+			style.bold ? 'fo:font-weight="bold"' : '',
+			style.italic ? 'fo:font-style="italic"' : '',
+			style.underline ? 'style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"' : '',
+			style.strike ? 'style:text-line-through-style="solid"' : '',
+			style.highlight ? 'fo:background-color="#ffff00"' : '',
+			style.superscript ? 'style:text-position="super 58%"' : '',
+			style.subscript ? 'style:text-position="sub 58%"' : '',
+			style.code ? 'style:font-name="Courier New"' : '',
+			style.color ? `fo:color="#${style.color.toLowerCase()}"` : '',
+		].filter(property => property).join(' ');
+		if (!properties) {
+			return null;
+		}
+
+		let name = this.textStyles.get(properties);
+		if (!name) {
+			name = `T${this.textStyles.size + 1}`;
+			this.textStyles.set(properties, name);
+			this.automaticStyles.push(`<style:style style:name="${name}" style:family="text"><style:text-properties ${properties}/></style:style>`);
+		}
+		return name;
+	}
+
+	// A list style per list, for its format and start number, with every level
+	// the same so nested lists indent one step further
+	private addListStyle(format: ListFormat, delimiter: string, start: number): string {
+		const name = `L${++this.listStyleCount}`;
+		const levels = Array.from({ length: 10 }, (_, index) => {
+			const level = index + 1;
+			const indent = (0.25 * (level + 1)).toFixed(2);
+			const properties = '<style:list-level-properties text:list-level-position-and-space-mode="label-alignment">'
+				+ `<style:list-level-label-alignment text:label-followed-by="listtab" text:list-tab-stop-position="${indent}in" fo:text-indent="-0.25in" fo:margin-left="${indent}in"/>`
+				+ '</style:list-level-properties>';
+			if (format === 'bullet') {
+				return `<text:list-level-style-bullet text:level="${level}" text:bullet-char="•">${properties}</text:list-level-style-bullet>`;
+			}
+			return `<text:list-level-style-number text:level="${level}" style:num-format="${NUMBER_FORMATS[format]}" style:num-suffix="${escapeXml(delimiter)}" text:start-value="${start}">${properties}</text:list-level-style-number>`;
+		}).join('');
+		this.automaticStyles.push(`<text:list-style style:name="${name}">${levels}</text:list-style>`);
+		return name;
+	}
+
+	private writeContent(body: string): string {
+		return '<?xml version="1.0" encoding="UTF-8"?>'
+			+ `<office:document-content ${NAMESPACES} office:version="1.3">`
+			+ `<office:font-face-decls>${this.writeFontFaces()}</office:font-face-decls>`
+			+ `<office:automatic-styles>${this.automaticStyles.join('')}</office:automatic-styles>`
+			+ `<office:body><office:text>${body}</office:text></office:body>`
+			+ '</office:document-content>';
+	}
+
+	private writeFontFaces(): string {
+		const font = escapeXml(this.settings.defaultFontFamily);
+		return `<style:font-face style:name="${font}" svg:font-family="&apos;${font}&apos;"/>`
+			+ '<style:font-face style:name="Courier New" svg:font-family="&apos;Courier New&apos;" style:font-family-generic="modern" style:font-pitch="fixed"/>';
+	}
+
+	private writeStyles(): string {
+		const page = getPageLayout(this.settings);
+		const size = this.settings.defaultFontSize;
+		const font = escapeXml(this.settings.defaultFontFamily);
+		const paragraph = (name: string, displayName: string, paragraphProperties: string, textProperties = '', parent = 'Standard') =>
+			`<style:style style:name="${name}" style:display-name="${displayName}" style:family="paragraph" style:parent-style-name="${parent}">`
+			+ (paragraphProperties ? `<style:paragraph-properties ${paragraphProperties}/>` : '')
+			+ (textProperties ? `<style:text-properties ${textProperties}/>` : '')
+			+ '</style:style>';
+		const headings = HEADING_SCALES.map((scale, index) =>
+			`<style:style style:name="Heading_20_${index + 1}" style:display-name="Heading ${index + 1}" style:family="paragraph" style:parent-style-name="Standard" style:next-style-name="Text_20_body" style:default-outline-level="${index + 1}">`
+			+ '<style:paragraph-properties fo:margin-top="0.17in" fo:margin-bottom="0.08in" fo:keep-with-next="always"/>'
+			+ `<style:text-properties fo:font-size="${Math.round(size * scale)}pt" fo:font-weight="bold"/></style:style>`).join('');
+		const aligned = ['center', 'right'].map(align =>
+			paragraph(`Heading_${align}`, `Table Heading ${align}`, `fo:text-align="${align}"`, '', 'Table_20_Heading')
+			+ paragraph(`Contents_${align}`, `Table Contents ${align}`, `fo:text-align="${align}"`, '', 'Table_20_Contents')).join('');
+
+		return '<?xml version="1.0" encoding="UTF-8"?>'
+			+ `<office:document-styles ${NAMESPACES} office:version="1.3">`
+			+ `<office:font-face-decls>${this.writeFontFaces()}</office:font-face-decls>`
+			+ '<office:styles>'
+			+ `<style:default-style style:family="paragraph"><style:text-properties style:font-name="${font}" fo:font-size="${size}pt"/></style:default-style>`
+			+ '<style:style style:name="Standard" style:family="paragraph" style:class="text"/>'
+			+ paragraph('Text_20_body', 'Text body', 'fo:margin-top="0in" fo:margin-bottom="0.08in" fo:line-height="115%"')
+			+ headings
+			+ paragraph('List_20_Contents', 'List Contents', 'fo:margin-bottom="0.04in"', '', 'Text_20_body')
+			+ paragraph('Quotations', 'Quotations', 'fo:margin-left="0.4in" fo:margin-bottom="0.08in" fo:padding-left="0.1in" fo:border-left="1.5pt solid #cccccc"', 'fo:color="#333333"')
+			+ paragraph('Preformatted_20_Text', 'Preformatted Text', 'fo:margin-left="0.25in" fo:background-color="#f5f5f5"', `style:font-name="Courier New" fo:font-size="${size - 1}pt"`)
+			+ paragraph('Table_20_Contents', 'Table Contents', '')
+			+ paragraph('Table_20_Heading', 'Table Heading', '', 'fo:font-weight="bold"', 'Table_20_Contents')
+			+ aligned
+			+ paragraph('Image', 'Image', 'fo:text-align="center" fo:margin-bottom="0.08in"')
+			+ paragraph('Caption', 'Caption', 'fo:margin-top="0.04in" fo:margin-bottom="0.08in"', 'fo:font-style="italic"')
+			+ paragraph('Figure', 'Figure', 'fo:text-align="center"', '', 'Caption')
+			+ paragraph('Table', 'Table', '', '', 'Caption')
+			+ paragraph('Horizontal_20_Line', 'Horizontal Line', 'fo:margin-bottom="0.1in" fo:border-bottom="0.75pt solid #bfbfbf" fo:padding="0in"', 'fo:font-size="6pt"')
+			+ paragraph('Page_20_Break', 'Page Break', 'fo:break-before="page"')
+			+ paragraph('Footnote', 'Footnote', 'fo:margin-left="0.2in" fo:text-indent="-0.2in"', `fo:font-size="${Math.max(size - 2, 6)}pt"`)
+			+ '<style:style style:name="Internet_20_link" style:display-name="Internet link" style:family="text">'
+			+ '<style:text-properties fo:color="#0563c1" style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"/></style:style>'
+			+ '<style:style style:name="Table" style:family="table"><style:table-properties style:width="' + page.contentWidth.toFixed(2) + 'in" table:align="margins"/></style:style>'
+			+ '<style:style style:name="TableCell" style:family="table-cell"><style:table-cell-properties fo:padding="0.04in" fo:border="0.5pt solid #bfbfbf"/></style:style>'
+			+ '</office:styles>'
+			+ '<office:automatic-styles>'
+			+ `<style:page-layout style:name="pm1"><style:page-layout-properties fo:page-width="${page.width}in" fo:page-height="${page.height}in" style:print-orientation="${this.settings.orientation}"`
+			+ ` fo:margin-top="${page.margins.top}in" fo:margin-right="${page.margins.right}in" fo:margin-bottom="${page.margins.bottom}in" fo:margin-left="${page.margins.left}in"/></style:page-layout>`
+			+ '</office:automatic-styles>'
+			+ '<office:master-styles><style:master-page style:name="Standard" style:page-layout-name="pm1"/></office:master-styles>'
+			+ '</office:document-styles>';
+	}
+
+	private writeMeta(): string {
+		const { properties } = this.doc;
+		const keywords = (properties.keywords ?? '').split(',').map(keyword => keyword.trim()).filter(keyword => keyword);
+		return '<?xml version="1.0" encoding="UTF-8"?>'
+			+ `<office:document-meta ${NAMESPACES} office:version="1.3"><office:meta>`
+			+ `<meta:generator>Obsidian To Word</meta:generator>`
+			+ `<dc:title>${escapeXml(properties.title)}</dc:title>`
+			+ (properties.author ? `<meta:initial-creator>${escapeXml(properties.author)}</meta:initial-creator><dc:creator>${escapeXml(properties.author)}</dc:creator>` : '')
+			+ (properties.subject ? `<dc:subject>${escapeXml(properties.subject)}</dc:subject>` : '')
+			+ (properties.description ? `<dc:description>${escapeXml(properties.description)}</dc:description>` : '')
+			+ keywords.map(keyword => `<meta:keyword>${escapeXml(keyword)}</meta:keyword>`).join('')
+			+ '</office:meta></office:document-meta>';
+	}
+
+	private writeManifest(): string {
+		const entry = (path: string, type: string) => `<manifest:file-entry manifest:full-path="${path}" manifest:media-type="${type}"/>`;
+		return '<?xml version="1.0" encoding="UTF-8"?>'
+			+ '<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.3">'
+			+ `<manifest:file-entry manifest:full-path="/" manifest:version="1.3" manifest:media-type="${MIME_TYPE}"/>`
+			+ entry('content.xml', 'text/xml')
+			+ entry('styles.xml', 'text/xml')
+			+ entry('meta.xml', 'text/xml')
+			+ this.images.map(({ path, image }) => entry(path, IMAGE_MIME_TYPES[image.type])).join('')
+			+ '</manifest:manifest>';
+	}
+}
+
+/**
+ * Writes the document as an .odt file.
+ */
+export async function writeOdt(doc: ExportDocument, settings: ToWordSettings): Promise<Blob> {
+	return await new OdtWriter(doc, settings).write();
+}
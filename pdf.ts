@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getPageLayout, MarginPreset, PageSize } from './layout';
+
+// PDF export prints the HTML export in a hidden Electron window, so it needs
+// the desktop app. The page size and margins come from the HTML's @page rule.
+
+interface ToWordSettings {
+	pageSize: PageSize;
+	orientation: 'portrait' | 'landscape';
+	marginPreset: MarginPreset;
+	marginTop: number;
+	marginRight: number;
+	marginBottom: number;
+	marginLeft: number;
+}
+
+// The parts of Electron's BrowserWindow used here
+interface PrintWindow {
+	loadFile(path: string): Promise<void>;
+	webContents: { printToPDF(options: Record<string, unknown>): Promise<Uint8Array> };
+	destroy(): void;
+}
+
+type BrowserWindowConstructor = new (options: Record<string, unknown>) => PrintWindow;
+
+function getBrowserWindow(): BrowserWindowConstructor | null {
+	try {
+		// eslint-disable-next-line @typescript-eslint/no-var-requires
+		const electron = require('electron');
+		return electron.remote?.BrowserWindow ?? electron.BrowserWindow ?? null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Prints an HTML document to PDF. The HTML is loaded from a temporary file,
+ * as data URLs are too small for documents with images.
+ */
+export async function printHtmlToPdf(html: string, settings: ToWordSettings): Promise<ArrayBuffer> {
+	const BrowserWindow = getBrowserWindow();
+	if (!BrowserWindow) {
+		throw new Error('PDF export is only available in the Obsidian desktop app');
+	}
+
+	const path = join(tmpdir(), `obsidian-to-word-${Date.now()}.html`);
+	await fs.writeFile(path, html, 'utf8');
+	const window = new BrowserWindow({ show: false, webPreferences: { javascript: false } });
+	try {
+		await window.loadFile(path);
+		const { margins } = getPageLayout(settings);
+		const pdf = await window.webContents.printToPDF({
+			printBackground: true,
+			preferCSSPageSize: true,
+			margins: { top: margins.top, right: margins.right, bottom: margins.bottom, left: margins.left },
+		});
+		return pdf.buffer.slice(pdf.byteOffset, pdf.byteOffset + pdf.byteLength) as ArrayBuffer;
+	} finally {
+		window.destroy();
+		await fs.unlink(path).catch(() => undefined);
+	}
+}
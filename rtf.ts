@@ -0,0 +1,302 @@
+import type { Block, BlockCaption, ExportDocument, ImageData, Inline, InlineStyle } from './model';
+import { formatListNumber } from './lists';
+import { CAPTION_NAMES } from './captions';
+import { getPageLayout, MarginPreset, PageSize } from './layout';
+
+// Writes an ExportDocument as RTF, which every word processor opens. Lists
+// are written with their numbers as text, and footnotes as RTF footnotes.
+
+interface ToWordSettings {
+	defaultFontFamily: string;
+	defaultFontSize: number;
+	pageSize: PageSize;
+	orientation: 'portrait' | 'landscape';
+	marginPreset: MarginPreset;
+	marginTop: number;
+	marginRight: number;
+	marginBottom: number;
+	marginLeft: number;
+	figureCaptionPosition: 'above' | 'below';
+	tableCaptionPosition: 'above' | 'below';
+}
+
+// Heading sizes relative to the body text
+const HEADING_SCALES = [2, 1.6, 1.35, 1.15, 1.05, 1];
+
+// Colour table indexes: 1 black, 2 yellow (highlight), 3 blue (links), 4 grey (borders);
+// text colours are added after them
+const COLORS = ['000000', 'FFFF00', '0563C1', 'BFBFBF'];
+
+const TWIPS_PER_INCH = 1440;
+const TWIPS_PER_PIXEL = 15;
+const INDENT = 360;
+
+/**
+ * Escapes text for RTF: control characters are escaped, and anything outside
+ * ASCII is written as \u with the UTF-16 code unit and a "?" fallback.
+ */
+function escapeRtf(text: string): string {
+	let escaped = '';
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		const code = text.charCodeAt(i);
+		if (char === '\\' || char === '{' || char === '}') {
+			escaped += `\\${char}`;
+		} else if (char === '\t') {
+			escaped += '\\tab ';
+		} else if (char === '\n') {
+			escaped += '\\line ';
+		} else if (code > 127) {
+			// Signed 16-bit, as RTF readers expect
+			escaped += `\\u${code > 32767 ? code - 65536 : code}?`;
+		} else {
+			escaped += char;
+		}
+	}
+	return escaped;
+}
+
+function toHex(data: ArrayBuffer): string {
+	const bytes = new Uint8Array(data);
+	const lines: string[] = [];
+	for (let i = 0; i < bytes.length; i += 64) {
+		lines.push(Array.from(bytes.subarray(i, i + 64), byte => byte.toString(16).padStart(2, '0')).join(''));
+	}
+	return lines.join('\n');
+}
+
+class RtfWriter {
+	private settings: ToWordSettings;
+	private doc: ExportDocument;
+	private bodySize: number;
+	private colors: string[] = [...COLORS];
+
+	constructor(doc: ExportDocument, settings: ToWordSettings) {
+		this.doc = doc;
+		this.settings = settings;
+		// Half-points
+		this.bodySize = Math.round(settings.defaultFontSize * 2);
+	}
+
+	write(): string {
+		const page = getPageLayout(this.settings);
+		const twips = (inches: number) => Math.round(inches * TWIPS_PER_INCH);
+		const { properties } = this.doc;
+		const info = [
+			`{\\title ${escapeRtf(properties.title)}}`,
+			properties.author ? `{\\author ${escapeRtf(properties.author)}}` : '',
+			properties.subject ? `{\\subject ${escapeRtf(properties.subject)}}` : '',
+			properties.keywords ? `{\\keywords ${escapeRtf(properties.keywords)}}` : '',
+			properties.description ? `{\\doccomm ${escapeRtf(properties.description)}}` : '',
+		].join('');
+		const styles = HEADING_SCALES
+			.map((scale, index) => `{\\s${index + 1}\\keepn\\sb240\\sa120\\b\\fs${Math.round(this.bodySize * scale)} heading ${index + 1};}`)
+			.join('');
+
+		// The body is written first, as it adds the text colours to the colour table
+		const body = this.writeBlocks(this.doc.blocks, 0);
+		const colorTable = this.colors
+			.map(color => `\\red${parseInt(color.slice(0, 2), 16)}\\green${parseInt(color.slice(2, 4), 16)}\\blue${parseInt(color.slice(4, 6), 16)};`)
+			.join('');
+
+		return [
+			'{\\rtf1\\ansi\\ansicpg1252\\uc1\\deff0',
+			`{\\fonttbl{\\f0\\fswiss ${escapeRtf(this.settings.defaultFontFamily)};}{\\f1\\fmodern Courier New;}}`,
+			`{\\colortbl;${colorTable}}`,
+			`{\\stylesheet{\\s0\\f0\\fs${this.bodySize} Normal;}${styles}}`,
+			`{\\info${info}}`,
+			`\\paperw${twips(page.width)}\\paperh${twips(page.height)}\\margl${twips(page.margins.left)}\\margr${twips(page.margins.right)}`
+				+ `\\margt${twips(page.margins.top)}\\margb${twips(page.margins.bottom)}${this.settings.orientation === 'landscape' ? '\\landscape' : ''}`,
+			`\\fet0\\ftnbj\\ftnrstcont\\f0\\fs${this.bodySize}`,
+			body,
+			'}',
+		].join('\n');
+	}
+
+	private writeBlocks(blocks: Block[], indent: number): string {
+		return blocks.map(block => this.writeBlock(block, indent)).filter(rtf => rtf).join('\n');
+	}
+
+	private paragraph(content: string, formatting = '', indent = 0): string {
+		return `{\\pard\\plain\\f0\\fs${this.bodySize}\\sa120${indent ? `\\li${indent}` : ''}${formatting} ${content}\\par}`;
+	}
+
+	private writeBlock(block: Block, indent: number): string {
+		switch (block.type) {
+			case 'heading': {
+				const size = Math.round(this.bodySize * HEADING_SCALES[block.level - 1]);
+				return `{\\pard\\plain\\s${block.level}\\outlinelevel${block.level - 1}\\keepn\\sb240\\sa120${indent ? `\\li${indent}` : ''}\\f0\\b\\fs${size} ${this.writeInlines(block.content)}\\par}`;
+			}
+			case 'paragraph':
+				return this.paragraph(this.writeInlines(block.content), '', indent);
+			case 'code':
+				return this.writeCode(block.lines, indent);
+			case 'math':
+				return this.writeCode(block.latex.split('\n'), indent);
+			case 'quote':
+				return this.writeBlocks(block.blocks, indent + INDENT * 2);
+			case 'callout':
+				return [this.paragraph(`{\\b ${this.writeInlines(block.title)}}`, '', indent + INDENT * 2), this.writeBlocks(block.blocks, indent + INDENT * 2)]
+					.filter(rtf => rtf).join('\n');
+			case 'list':
+				return block.items.map((item, index) => {
+					const marker = block.format === 'bullet'
+						? '\\u8226?'
+						: `${formatListNumber(block.start + index, block.format)}${block.delimiter}`;
+					const checkbox = item.checked === undefined ? '' : item.checked ? '\\u9745? ' : '\\u9744? ';
+					const itemIndent = indent + INDENT;
+					// The marker hangs in front of the item's first paragraph
+					const [first, ...rest] = item.blocks;
+					const lead = first?.type === 'paragraph'
+						? this.paragraph(`${marker}\\tab ${checkbox}${this.writeInlines(first.content)}`, `\\fi-${INDENT}\\tx${itemIndent}`, itemIndent)
+						: this.paragraph(`${marker}\\tab ${checkbox}`, `\\fi-${INDENT}\\tx${itemIndent}`, itemIndent) + (first ? `\n${this.writeBlock(first, itemIndent)}` : '');
+					return rest.length > 0 ? `${lead}\n${this.writeBlocks(rest, itemIndent)}` : lead;
+				}).join('\n');
+			case 'table':
+				return this.withCaption(this.writeTable(block.rows, block.alignments, indent), block.caption, indent);
+			case 'image': {
+				const image = block.image ? this.writeImage(block.image) : escapeRtf(`[Image not found: ${block.alt}]`);
+				return this.withCaption(this.paragraph(image, '\\qc', indent), block.caption, indent);
+			}
+			case 'definition':
+				return this.paragraph(`{\\b ${this.writeInlines(block.term)}: }${this.writeInlines(block.definition)}`, '', indent);
+			case 'details':
+				return [this.paragraph(`{\\b ${this.writeInlines(block.summary)}}`, '', indent), this.writeBlocks(block.blocks, indent)]
+					.filter(rtf => rtf).join('\n');
+			case 'embed':
+				return this.writeBlocks(block.blocks, indent);
+			case 'metadata': {
+				const text = (value: string): Inline[] => [{ type: 'text', text: value, style: {} }];
+				const rows = [[text('Property'), text('Value')], ...block.entries.map(entry => [text(entry.key), entry.value])];
+				return `${this.writeTable(rows, [], indent)}\n${this.paragraph('', '', indent)}`;
+			}
+			case 'rule':
+				return `{\\pard\\plain\\sa120\\brdrb\\brdrs\\brdrw10\\brsp20\\brdrcf4 \\par}`;
+			case 'pagebreak':
+				return '{\\pard\\plain\\page\\par}';
+			case 'toc':
+			case 'section':
+			case 'anchor':
+			case 'comment':
+			case 'blank':
+				return '';
+		}
+	}
+
+	private writeCode(lines: string[], indent: number): string {
+		return lines
+			.map((line, index) => `{\\pard\\plain\\li${indent + INDENT}${index === lines.length - 1 ? '\\sa120' : ''}\\f1\\fs${this.bodySize - 2} ${escapeRtf(line)}\\par}`)
+			.join('\n');
+	}
+
+	// "Figure 2: text" above or below the figure or table
+	private withCaption(rtf: string, caption: BlockCaption | undefined, indent: number): string {
+		if (!caption) {
+			return rtf;
+		}
+		const name = escapeRtf(`${CAPTION_NAMES[caption.kind]} ${caption.number}`);
+		const text = caption.content.length > 0 ? `${name}: ${this.writeInlines(caption.content)}` : name;
+		const paragraph = this.paragraph(`{\\i ${text}}`, caption.kind === 'figure' ? '\\qc' : '', indent);
+		const position = caption.kind === 'figure' ? this.settings.figureCaptionPosition : this.settings.tableCaptionPosition;
+		return position === 'above' ? `${paragraph}\n${rtf}` : `${rtf}\n${paragraph}`;
+	}
+
+	private writeTable(rows: Inline[][][], alignments: (string | null)[], indent: number): string {
+		const columns = Math.max(1, ...rows.map(row => row.length));
+		const page = getPageLayout(this.settings);
+		const width = Math.round(page.contentWidth * TWIPS_PER_INCH) - indent;
+		const border = '\\brdrs\\brdrw10\\brdrcf4';
+		const cells = Array.from({ length: columns }, (_, column) =>
+			`\\clbrdrt${border}\\clbrdrl${border}\\clbrdrb${border}\\clbrdrr${border}\\cellx${indent + Math.round(width * (column + 1) / columns)}`).join('');
+		const alignment = (column: number) => ({ center: '\\qc', right: '\\qr' } as Record<string, string>)[alignments[column] ?? ''] ?? '';
+
+		return rows.map((row, rowIndex) => {
+			const content = Array.from({ length: columns }, (_, column) => {
+				const text = this.writeInlines(row[column] ?? []);
+				return `\\pard\\intbl${alignment(column)} ${rowIndex === 0 ? `{\\b ${text}}` : text}\\cell`;
+			}).join(' ');
+			return `\\trowd\\trgaph108\\trleft${indent}${rowIndex === 0 ? '\\trhdr' : ''}${cells}\n${content}\\row`;
+		}).join('\n') + '\n\\pard\\plain';
+	}
+
+	private writeImage(image: ImageData): string {
+		// RTF viewers show PNG and JPEG; other images are named instead
+		const blip = image.type === 'png' ? '\\pngblip' : image.type === 'jpg' ? '\\jpegblip' : null;
+		if (!blip) {
+			return `{\\i ${escapeRtf(`[Image: ${image.alt}]`)}}`;
+		}
+		return `{\\pict${blip}\\picw${image.width}\\pich${image.height}`
+			+ `\\picwgoal${image.width * TWIPS_PER_PIXEL}\\pichgoal${image.height * TWIPS_PER_PIXEL}\n${toHex(image.data)}}`;
+	}
+
+	private writeStyle(style: InlineStyle): string {
+		return [
+			style.bold ? '\\b' : '',
+			style.italic ? '\\i' : '',
+			style.underline ? '\\ul' : '',
+			style.strike ? '\\strike' : '',
+			style.highlight ? '\\highlight2' : '',
+			style.superscript ? '\\super' : '',
+			style.subscript ? '\\sub' : '',
+			style.code ? '\\f1' : '',
+			style.color ? `\\cf${this.getColorIndex(style.color)}` : '',
+		].join('');
+	}
+
+	private getColorIndex(color: string): number {
+		let index = this.colors.indexOf(color.toUpperCase());
+		if (index === -1) {
+			index = this.colors.push(color.toUpperCase()) - 1;
+		}
+		return index + 1;
+	}
+
+	private writeInlines(inlines: Inline[], inFootnote = false): string {
+		return inlines.map(inline => {
+			switch (inline.type) {
+				case 'break':
+					return '\\line ';
+				case 'footnote': {
+					// Footnotes cannot hold footnotes of their own
+					const footnote = this.doc.footnotes[inline.index];
+					if (inFootnote || !footnote) {
+						return '';
+					}
+					const text = footnote.paragraphs.map(paragraph => this.writeInlines(paragraph, true)).join('\\par ');
+					return `{\\super\\chftn}{\\footnote\\pard\\plain\\f0\\fs${this.bodySize - 4} {\\super\\chftn} ${text}}`;
+				}
+				case 'text': {
+					// Tracked changes are shown accepted
+					if (inline.style.revision === 'delete') {
+						return '';
+					}
+					const formatting = this.writeStyle(inline.style);
+					const text = formatting ? `{${formatting} ${escapeRtf(inline.text)}}` : escapeRtf(inline.text);
+					if (!inline.link) {
+						return text;
+					}
+					return `{\\field{\\*\\fldinst{HYPERLINK "${escapeRtf(inline.link).replace(/"/g, '%22')}"}}{\\fldrslt{\\ul\\cf3 ${text}}}}`;
+				}
+				case 'math':
+					return `{\\f1 ${escapeRtf(inline.latex)}}`;
+				case 'image':
+					return this.writeImage(inline.image);
+				case 'reference': {
+					const target = this.doc.labels[inline.label];
+					const text = escapeRtf(target ? `${CAPTION_NAMES[target.kind]} ${target.number}` : inline.text);
+					const formatting = this.writeStyle(inline.style);
+					return formatting ? `{${formatting} ${text}}` : text;
+				}
+				case 'comment':
+					return this.writeInlines(inline.content, inFootnote);
+			}
+		}).join('');
+	}
+}
+
+/**
+ * Writes the document as RTF.
+ */
+export function writeRtf(doc: ExportDocument, settings: ToWordSettings): string {
+	return new RtfWriter(doc, settings).write();
+}
@@ -0,0 +1,235 @@
+import JSZip from 'jszip';
+
+// Reuses the styles, numbering, theme, headers/footers and page setup of a
+// user-supplied .docx, the way pandoc's --reference-doc works.
+
+const RELATIONSHIP_TYPES = {
+	theme: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/theme',
+	header: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/header',
+	footer: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer',
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+	theme: 'application/vnd.openxmlformats-officedocument.theme+xml',
+	header: 'application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml',
+	footer: 'application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml',
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	bmp: 'image/bmp',
+	emf: 'image/x-emf',
+	wmf: 'image/x-wmf',
+	svg: 'image/svg+xml',
+};
+
+// Template list ids are moved past the ones docx generates for our own lists
+const NUMBERING_ID_OFFSET = 1000;
+
+export interface ReferenceDocument {
+	zip: JSZip;
+	/** styles.xml, with numbering ids shifted to match the merged numbering */
+	styles: string;
+	/** Style ids by lowercased style name, e.g. "heading 1" -> "Heading1" */
+	styleIds: Map<string, string>;
+}
+
+export async function loadReferenceDocument(data: ArrayBuffer): Promise<ReferenceDocument | null> {
+	const zip = await JSZip.loadAsync(data);
+	const styles = await zip.file('word/styles.xml')?.async('string');
+	if (!styles) {
+		console.warn('Reference document has no styles.xml');
+		return null;
+	}
+
+	const styleIds = new Map<string, string>();
+	for (const style of styles.match(/<w:style\b[\s\S]*?<\/w:style>/g) ?? []) {
+		const id = style.match(/^<w:style\b[^>]*w:styleId="([^"]*)"/)?.[1];
+		const name = style.match(/<w:name w:val="([^"]*)"/)?.[1];
+		if (id && name && !styleIds.has(name.toLowerCase())) {
+			styleIds.set(name.toLowerCase(), id);
+		}
+	}
+
+	return {
+		zip,
+		styles: styles.replace(/(<w:numId w:val=")(\d+)"/g, (_, prefix, id) => `${prefix}${parseInt(id) + NUMBERING_ID_OFFSET}"`),
+		styleIds,
+	};
+}
+
+/**
+ * Copies the theme, list definitions, headers/footers and final section
+ * properties of the reference document into a generated .docx.
+ */
+export async function applyReferenceDocument(blob: Blob, reference: ReferenceDocument, options: { bandedRows: boolean; tableStyle?: string }): Promise<Blob> {
+	const output = await JSZip.loadAsync(await blob.arrayBuffer());
+	const template = reference.zip;
+	const read = async (zip: JSZip, path: string) => (await zip.file(path)?.async('string')) ?? '';
+
+	let contentTypes = await read(output, '[Content_Types].xml');
+	let documentRels = await read(output, 'word/_rels/document.xml.rels');
+	let relationshipCount = 0;
+	const addRelationship = (type: string, target: string): string => {
+		const id = `rIdReference${++relationshipCount}`;
+		documentRels = documentRels.replace('</Relationships>', `<Relationship Id="${id}" Type="${type}" Target="${target}"/></Relationships>`);
+		return id;
+	};
+
+	// Theme fonts and colours
+	const theme = await read(template, 'word/theme/theme1.xml');
+	if (theme) {
+		if (!output.file('word/theme/theme1.xml')) {
+			addRelationship(RELATIONSHIP_TYPES.theme, 'theme/theme1.xml');
+			contentTypes = addOverride(contentTypes, '/word/theme/theme1.xml', CONTENT_TYPES.theme);
+		}
+		output.file('word/theme/theme1.xml', theme);
+	}
+
+	// List definitions, appended after the ones for our own lists
+	const templateNumbering = await read(template, 'word/numbering.xml');
+	const numbering = await read(output, 'word/numbering.xml');
+	if (templateNumbering && numbering) {
+		const shift = (xml: string, pattern: RegExp) =>
+			xml.replace(pattern, (_, prefix, id) => `${prefix}${parseInt(id) + NUMBERING_ID_OFFSET}"`);
+		const abstractNums = (templateNumbering.match(/<w:abstractNum\b[\s\S]*?<\/w:abstractNum>/g) ?? [])
+			.map(xml => shift(xml, /(w:abstractNumId=")(\d+)"/g));
+		const nums = (templateNumbering.match(/<w:num\s[\s\S]*?<\/w:num>/g) ?? [])
+			.map(xml => shift(shift(xml, /(w:numId=")(\d+)"/g), /(<w:abstractNumId w:val=")(\d+)"/g));
+
+		// Every abstractNum has to come before the first num
+		const firstNum = numbering.search(/<w:num\s/);
+		const insertAt = firstNum === -1 ? numbering.lastIndexOf('</w:numbering>') : firstNum;
+		const merged = numbering.slice(0, insertAt) + abstractNums.join('') + numbering.slice(insertAt);
+		output.file('word/numbering.xml', merged.replace('</w:numbering>', `${nums.join('')}</w:numbering>`));
+	}
+
+	// Table styles only format the header row and banding that a tblLook turns on.
+	// docx always writes table borders, which would hide those of the table style.
+	const look = `<w:tblLook w:firstRow="1" w:lastRow="0" w:firstColumn="0" w:lastColumn="0" w:noHBand="${options.bandedRows ? 0 : 1}" w:noVBand="1"/>`;
+	output.file('word/document.xml', (await read(output, 'word/document.xml')).replace(/<w:tblPr>([\s\S]*?)<\/w:tblPr>/g, (properties, inner: string) => {
+		if (options.tableStyle && inner.includes(`<w:tblStyle w:val="${options.tableStyle}"/>`)) {
+			inner = inner.replace(/<w:tblBorders>[\s\S]*?<\/w:tblBorders>/, '');
+		}
+		return inner.includes('<w:tblLook') ? `<w:tblPr>${inner}</w:tblPr>` : `<w:tblPr>${inner}${look}</w:tblPr>`;
+	}));
+
+	// Page setup, headers and footers from the template's last section
+	const templateDocument = await read(template, 'word/document.xml');
+	let sectionProperties = extractBodySectionProperties(templateDocument);
+	if (sectionProperties) {
+		const templateRels = await read(template, 'word/_rels/document.xml.rels');
+		for (const reference of sectionProperties.match(/<w:(header|footer)Reference\b[^>]*\/>/g) ?? []) {
+			const kind = reference.startsWith('<w:header') ? 'header' : 'footer';
+			const id = reference.match(/r:id="([^"]+)"/)?.[1] ?? '';
+			const target = findRelationshipTarget(templateRels, id);
+			if (!target) {
+				sectionProperties = sectionProperties.replace(reference, '');
+				continue;
+			}
+			const partName = `reference-${target.split('/').pop()}`;
+			await copyPart(template, output, `word/${target}`, `word/${partName}`);
+			contentTypes = addOverride(contentTypes, `/word/${partName}`, CONTENT_TYPES[kind]);
+			const newId = addRelationship(RELATIONSHIP_TYPES[kind], partName);
+			sectionProperties = sectionProperties.replace(reference, reference.replace(`r:id="${id}"`, `r:id="${newId}"`));
+		}
+
+		// Images used by the copied headers and footers
+		for (const path of Object.keys(output.files).filter(name => name.startsWith('word/media/reference-'))) {
+			const extension = path.split('.').pop()?.toLowerCase() ?? '';
+			if (CONTENT_TYPES[extension]) {
+				contentTypes = addDefault(contentTypes, extension, CONTENT_TYPES[extension]);
+			}
+		}
+
+		const document = await read(output, 'word/document.xml');
+		const current = extractBodySectionProperties(document);
+		if (current) {
+			// Without headers or footers in the template, keep the ones built from the settings
+			if (!/<w:(header|footer)Reference\b/.test(sectionProperties)) {
+				sectionProperties = keepHeadersAndFooters(sectionProperties, current);
+			}
+			const end = document.lastIndexOf('</w:body>');
+			const start = document.lastIndexOf('<w:sectPr', end);
+			output.file('word/document.xml', document.slice(0, start) + sectionProperties + document.slice(end));
+		}
+	}
+
+	output.file('[Content_Types].xml', contentTypes);
+	output.file('word/_rels/document.xml.rels', documentRels);
+
+	return await output.generateAsync({
+		type: 'blob',
+		mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+	});
+}
+
+// The sectPr directly inside w:body describes the last section
+function extractBodySectionProperties(documentXml: string): string | null {
+	const end = documentXml.lastIndexOf('</w:body>');
+	const start = documentXml.lastIndexOf('<w:sectPr', end);
+	if (end === -1 || start === -1) {
+		return null;
+	}
+	const properties = documentXml.slice(start, end).trimEnd();
+	return properties.endsWith('</w:sectPr>') || properties.endsWith('/>') ? properties : null;
+}
+
+function keepHeadersAndFooters(sectionProperties: string, current: string): string {
+	const references = current.match(/<w:(header|footer)Reference\b[^>]*\/>/g) ?? [];
+	let merged = sectionProperties.replace(/^<w:sectPr\b[^>]*?(\/?)>/, (tag, selfClosing) =>
+		selfClosing ? `${tag.slice(0, -2)}>${references.join('')}</w:sectPr>` : `${tag}${references.join('')}`);
+	if (current.includes('<w:titlePg') && !merged.includes('<w:titlePg')) {
+		const docGrid = merged.indexOf('<w:docGrid');
+		const at = docGrid === -1 ? merged.lastIndexOf('</w:sectPr>') : docGrid;
+		merged = merged.slice(0, at) + '<w:titlePg/>' + merged.slice(at);
+	}
+	return merged;
+}
+
+function findRelationshipTarget(relsXml: string, id: string): string | null {
+	const relationship = relsXml.match(new RegExp(`<Relationship\\b[^>]*Id="${id}"[^>]*/>`))?.[0];
+	return relationship?.match(/Target="([^"]+)"/)?.[1] ?? null;
+}
+
+/**
+ * Copies a header or footer part with its relationships, renaming the
+ * images it uses so they cannot clash with the exported document's own.
+ */
+async function copyPart(template: JSZip, output: JSZip, sourcePath: string, targetPath: string) {
+	const part = await template.file(sourcePath)?.async('string');
+	if (part === undefined) {
+		return;
+	}
+	output.file(targetPath, part);
+
+	const relsPath = (path: string) => path.replace(/([^/]+)$/, '_rels/$1.rels');
+	let rels = await template.file(relsPath(sourcePath))?.async('string');
+	if (!rels) {
+		return;
+	}
+	for (const attribute of rels.match(/Target="media\/[^"]+"/g) ?? []) {
+		const target = attribute.slice('Target="'.length, -1);
+		const media = await template.file(`word/${target}`)?.async('uint8array');
+		if (media) {
+			const renamed = target.replace(/^media\//, 'media/reference-');
+			output.file(`word/${renamed}`, media);
+			rels = rels.replace(`Target="${target}"`, `Target="${renamed}"`);
+		}
+	}
+	output.file(relsPath(targetPath), rels);
+}
+
+function addOverride(contentTypes: string, partName: string, contentType: string): string {
+	if (contentTypes.includes(`PartName="${partName}"`)) {
+		return contentTypes;
+	}
+	return contentTypes.replace('</Types>', `<Override PartName="${partName}" ContentType="${contentType}"/></Types>`);
+}
+
+function addDefault(contentTypes: string, extension: string, contentType: string): string {
+	if (new RegExp(`Extension="${extension}"`, 'i').test(contentTypes)) {
+		return contentTypes;
+	}
+	return contentTypes.replace('</Types>', `<Default Extension="${extension}" ContentType="${contentType}"/></Types>`);
+}
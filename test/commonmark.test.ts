@@ -0,0 +1,273 @@
+import { describe, expect, it, vi } from 'vitest';
+import { tests, SpecExample } from 'commonmark-spec';
+import { Block, DocumentModelBuilder, ExportDocument, getInlineText, Inline } from '../model';
+
+// Runs the CommonMark spec examples through the document model and compares
+// the blocks it builds with the spec's HTML: which blocks there are, how they
+// nest, and their text with its emphasis, code and links.
+
+const SETTINGS = {
+	includeMetadata: false,
+	preserveFormatting: true,
+	includeFilenameAsHeader: false,
+	internalLinks: 'text' as const,
+	embedMaxDepth: 3,
+	embedShiftHeadings: true,
+	tableOfContents: false,
+	renderDiagrams: false,
+	diagramDpi: 150,
+	plantumlCommand: '',
+	dataviewExport: 'results' as const,
+};
+
+// HTML is exported as the text and formatting Word can show
+const HTML_SECTIONS = ['HTML blocks', 'Raw HTML'];
+
+// Examples where Obsidian's markdown differs from CommonMark
+const DIFFERENCES: Record<number, string> = {
+	96: '--- at the top of a note starts its properties',
+	548: '[[...]] is a wikilink',
+	559: '[[...]] is a wikilink',
+	590: '![[...]] embeds a note',
+};
+
+// A 1x1 PNG for every image, so images are exported rather than reported missing
+const PNG = Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='), char => char.charCodeAt(0)).buffer;
+
+// happy-dom never loads images, so they get the default size
+vi.stubGlobal('Image', undefined);
+vi.stubGlobal('fetch', async () => new Response(PNG));
+
+const resources = {
+	load: async () => PNG,
+	resolve: (link: string) => link,
+};
+
+async function build(markdown: string): Promise<ExportDocument> {
+	return await new DocumentModelBuilder(SETTINGS).build(markdown, 'Spec', resources);
+}
+
+// The spec writes tabs as →
+function withTabs(text: string): string {
+	return text.replace(/→/g, '\t');
+}
+
+function normalizeText(text: string): string {
+	return text.replace(/\s+/g, ' ').trim();
+}
+
+// Runs of text with the same formatting, written as [formatting|text]
+interface Run {
+	format: string;
+	text: string;
+}
+
+// Spaces and line breaks are written without formatting, so they take the formatting of the text before them
+function writeRuns(runs: Run[]): string {
+	const merged: Run[] = [];
+	for (const run of runs) {
+		const last = merged[merged.length - 1];
+		if (last && (last.format === run.format || !run.text.trim())) {
+			last.text += run.text;
+		} else {
+			merged.push({ ...run });
+		}
+	}
+	return normalizeText(merged.map(run => {
+		const [, before, text, after] = run.text.match(/^(\s*)([\s\S]*?)(\s*)$/) ?? ['', '', run.text, ''];
+		return run.format && text ? `${before}[${run.format}|${text}]${after}` : run.text;
+	}).join(''));
+}
+
+function formatRun(formats: string[], text: string): Run {
+	return { format: [...new Set(formats)].sort().join(','), text };
+}
+
+const HTML_FORMATS: Record<string, string> = { em: 'i', i: 'i', strong: 'b', b: 'b', code: 'c', del: 's', s: 's' };
+
+// The text of the inline HTML in a node, with its formatting
+function getHtmlRuns(node: Node, formats: string[] = [], runs: Run[] = []): Run[] {
+	for (const child of Array.from(node.childNodes)) {
+		if (child.nodeType === Node.TEXT_NODE) {
+			runs.push(formatRun(formats, child.textContent ?? ''));
+		} else if (child instanceof Element) {
+			const tag = child.tagName.toLowerCase();
+			if (tag === 'br') {
+				runs.push({ format: '', text: ' ' });
+			} else if (tag === 'a') {
+				// Empty links are text, and links to #fragments point at headings, which the examples do not have
+				const href = child.getAttribute('href') ?? '';
+				getHtmlRuns(child, href && !href.startsWith('#') ? [...formats, `a=${href}`] : formats, runs);
+			} else if (tag in HTML_FORMATS) {
+				getHtmlRuns(child, [...formats, HTML_FORMATS[tag]], runs);
+			} else if (tag !== 'img') {
+				getHtmlRuns(child, formats, runs);
+			}
+		}
+	}
+	return runs;
+}
+
+// The text of inlines, with their formatting in the form of getHtmlRuns
+function getInlineRuns(inlines: Inline[], runs: Run[] = []): Run[] {
+	for (const inline of inlines) {
+		if (inline.type === 'text' && inline.style.revision !== 'delete') {
+			const { style } = inline;
+			const formats = [
+				style.italic ? 'i' : '',
+				style.bold ? 'b' : '',
+				style.code ? 'c' : '',
+				style.strike ? 's' : '',
+				inline.link !== undefined ? `a=${inline.link}` : '',
+			].filter(format => format);
+			runs.push(formatRun(formats, inline.text));
+		} else if (inline.type === 'break') {
+			runs.push({ format: '', text: ' ' });
+		}
+	}
+	return runs;
+}
+
+/**
+ * The blocks of the spec's HTML, one entry per block with its text. The
+ * paragraphs of a list item are its text, as tight lists have none.
+ */
+function outlineHtml(html: string): string[] {
+	const root = document.createElement('div');
+	root.innerHTML = html;
+	const outline: string[] = [];
+	const visit = (element: Element) => {
+		for (const child of Array.from(element.children)) {
+			const tag = child.tagName.toLowerCase();
+			if (/^h[1-6]$/.test(tag) || tag === 'p') {
+				outline.push(`${tag}: ${writeRuns(getHtmlRuns(child))}`);
+			} else if (tag === 'pre') {
+				outline.push(`pre: ${JSON.stringify(child.textContent)}`);
+			} else if (tag === 'hr') {
+				outline.push(tag);
+			} else if (tag === 'table') {
+				const rows = Array.from(child.querySelectorAll('tr'))
+					.map(row => Array.from(row.children).map(cell => writeRuns(getHtmlRuns(cell))).join(' | '));
+				outline.push(`table: ${rows.join(' / ')}`);
+			} else if (tag === 'blockquote' || tag === 'ul' || tag === 'ol') {
+				outline.push(tag);
+				visit(child);
+				outline.push(`/${tag}`);
+			} else if (tag === 'li') {
+				// Its text, then the blocks in it
+				const text = document.createElement('div');
+				for (const node of Array.from(child.childNodes)) {
+					const nodeTag = node instanceof Element ? node.tagName.toLowerCase() : '';
+					if (!nodeTag || nodeTag === 'p' || !/^(h[1-6]|pre|hr|table|blockquote|ul|ol)$/.test(nodeTag)) {
+						text.append(node.cloneNode(true), ' ');
+					}
+				}
+				outline.push(`li: ${writeRuns(getHtmlRuns(text))}`);
+				const blocks = document.createElement('div');
+				blocks.append(...Array.from(child.children).filter(node => node.tagName.toLowerCase() !== 'p').map(node => node.cloneNode(true)));
+				visit(blocks);
+				outline.push('/li');
+			}
+		}
+	};
+	visit(root);
+	return outline;
+}
+
+// The blocks of the model in the form of outlineHtml
+function outlineBlocks(blocks: Block[], outline: string[] = []): string[] {
+	for (const block of blocks) {
+		switch (block.type) {
+			case 'heading':
+				outline.push(`h${block.level}: ${writeRuns(getInlineRuns(block.content))}`);
+				break;
+			case 'paragraph':
+				outline.push(`p: ${writeRuns(getInlineRuns(block.content))}`);
+				break;
+			// An image on its own line is a paragraph holding it
+			case 'image':
+				outline.push('p: ');
+				break;
+			case 'code':
+				outline.push(`pre: ${JSON.stringify(block.lines.map(line => `${line}\n`).join(''))}`);
+				break;
+			case 'rule':
+				outline.push('hr');
+				break;
+			case 'table':
+				outline.push(`table: ${block.rows.map(row => row.map(cell => writeRuns(getInlineRuns(cell))).join(' | ')).join(' / ')}`);
+				break;
+			case 'quote':
+				outline.push('blockquote');
+				outlineBlocks(block.blocks, outline);
+				outline.push('/blockquote');
+				break;
+			case 'list': {
+				const tag = block.format === 'bullet' ? 'ul' : 'ol';
+				outline.push(tag);
+				for (const item of block.items) {
+					const runs = item.blocks.flatMap(child => child.type === 'paragraph' ? [...getInlineRuns(child.content), { format: '', text: ' ' }] : []);
+					outline.push(`li: ${writeRuns(runs)}`);
+					outlineBlocks(item.blocks.filter(child => child.type !== 'paragraph' && child.type !== 'image'), outline);
+					outline.push('/li');
+				}
+				outline.push(`/${tag}`);
+				break;
+			}
+		}
+	}
+	return outline;
+}
+
+const isCompared = (example: SpecExample) => !HTML_SECTIONS.includes(example.section) && !(example.number in DIFFERENCES);
+
+describe('CommonMark spec', () => {
+	it.each(tests.filter(isCompared))('example $number ($section)', async example => {
+		const doc = await build(withTabs(example.markdown));
+		expect(outlineBlocks(doc.blocks)).toEqual(outlineHtml(withTabs(example.html)));
+	});
+
+	it.each(tests.filter(example => !isCompared(example)))('example $number ($section) is exported', async example => {
+		await expect(build(withTabs(example.markdown))).resolves.toBeDefined();
+	});
+});
+
+describe('blocks', () => {
+	it('reads setext headings', async () => {
+		const doc = await build('Title\n=====\n\nSection\n-------');
+		expect(doc.blocks).toMatchObject([
+			{ type: 'heading', level: 1, content: [{ text: 'Title' }] },
+			{ type: 'blank' },
+			{ type: 'heading', level: 2, content: [{ text: 'Section' }] },
+		]);
+	});
+
+	it('keeps *** in list items as text and ends the list at a thematic break', async () => {
+		const doc = await build('- ***bold italic***\n* * *\n- next');
+		expect(outlineBlocks(doc.blocks)).toEqual(['ul', 'li: [b,i|bold italic]', '/li', '/ul', 'hr', 'ul', 'li: next', '/li', '/ul']);
+	});
+
+	it('reads indented code blocks', async () => {
+		const doc = await build('Text\n\n    const a = 1;\n      return a;');
+		expect(doc.blocks[2]).toEqual({ type: 'code', lines: ['const a = 1;', '  return a;'] });
+	});
+
+	it('reads tables without outer pipes', async () => {
+		const doc = await build('A | B\n--|:-:\n1 | 2');
+		const [table] = doc.blocks;
+		expect(table).toMatchObject({ type: 'table', alignments: [null, 'center'] });
+		expect(table.type === 'table' && table.rows.map(row => row.map(getInlineText))).toEqual([['A', 'B'], ['1', '2']]);
+	});
+
+	it('keeps the lines of a paragraph in one paragraph', async () => {
+		const doc = await build('first line\nsecond line\nthird line');
+		expect(doc.blocks).toHaveLength(1);
+		expect(doc.blocks[0].type).toBe('paragraph');
+		expect(normalizeText(getInlineText(doc.blocks[0].type === 'paragraph' ? doc.blocks[0].content : []))).toBe('first line second line third line');
+	});
+
+	it('keeps HTML blocks spanning lines together', async () => {
+		const doc = await build('<div>\n<b>first</b>\nsecond\n</div>\n\nAfter');
+		expect(outlineBlocks(doc.blocks)).toEqual(['p: [b|first] second', 'p: After']);
+	});
+});
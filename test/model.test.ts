@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { Block, DocumentModelBuilder, getInlineText, Inline } from '../model';
+
+const SETTINGS = {
+	includeMetadata: false,
+	preserveFormatting: true,
+	includeFilenameAsHeader: false,
+	internalLinks: 'text' as const,
+	embedMaxDepth: 3,
+	embedShiftHeadings: false,
+	tableOfContents: false,
+	renderDiagrams: false,
+	diagramDpi: 150,
+	plantumlCommand: '',
+	dataviewExport: 'results' as const,
+};
+
+// A vault of notes by name
+function createResources(notes: Record<string, string>) {
+	return {
+		load: async (link: string) => {
+			const markdown = notes[link.replace(/\.md$/i, '')];
+			return markdown === undefined ? null : new TextEncoder().encode(markdown).buffer as ArrayBuffer;
+		},
+		resolve: (link: string) => `${link.replace(/\.md$/i, '')}.md`,
+	};
+}
+
+function findBlocks(blocks: Block[], type: Block['type']): Block[] {
+	return blocks.flatMap(block => {
+		const children = 'blocks' in block ? findBlocks(block.blocks, type) : [];
+		return block.type === type ? [block, ...children] : children;
+	});
+}
+
+function findLinks(blocks: Block[]): Inline[] {
+	return findBlocks(blocks, 'paragraph')
+		.flatMap(block => block.type === 'paragraph' ? block.content : [])
+		.filter(inline => inline.type === 'text' && inline.anchor);
+}
+
+describe('embedded notes', () => {
+	const notes = {
+		Doc: '# Top\n\nDoc text\n\n![[Other]]',
+		Other: '# Top\n\nOther text\n\n# Links\n\n[[#Top]]\n\n![[#Top]]',
+	};
+
+	it('embeds sections of the embedded note itself', async () => {
+		const doc = await new DocumentModelBuilder(SETTINGS).build(notes.Doc, 'Doc', createResources(notes), undefined, 'Doc.md');
+		const [, inner] = findBlocks(doc.blocks, 'embed');
+		const text = findBlocks(inner.type === 'embed' ? inner.blocks : [], 'paragraph')
+			.map(block => block.type === 'paragraph' ? getInlineText(block.content) : '');
+		expect(text).toEqual(['Other text']);
+	});
+
+	it('links headings of the embedded note to its own headings', async () => {
+		const doc = await new DocumentModelBuilder(SETTINGS).build(notes.Doc, 'Doc', createResources(notes), undefined, 'Doc.md');
+		const headings = findBlocks(doc.blocks, 'heading').map(block => block.type === 'heading' ? block.id : undefined);
+		const [docTop, otherTop] = headings;
+		expect(docTop).toBeDefined();
+		expect(otherTop).toBeDefined();
+		expect(otherTop).not.toBe(docTop);
+		expect(findLinks(doc.blocks)).toMatchObject([{ text: 'Top', anchor: otherTop }]);
+	});
+});
+
+describe('links', () => {
+	it('links to headings of the note itself whatever the case of its name', async () => {
+		const doc = await new DocumentModelBuilder(SETTINGS).build('# Top\n\n[[doc#Top]]', 'Doc', createResources({}), undefined, 'Doc.md');
+		const [top] = findBlocks(doc.blocks, 'heading').map(block => block.type === 'heading' ? block.id : undefined);
+		expect(top).toBeDefined();
+		expect(findLinks(doc.blocks)).toMatchObject([{ anchor: top }]);
+	});
+});
+
+describe('builds', () => {
+	it('keeps overlapping builds on one builder apart', async () => {
+		const notes = { First: 'First embed[^1]\n\n[^1]: First note', Second: 'Second embed[^1]\n\n[^1]: Second note' };
+		const resources = createResources(notes);
+		// Loading takes a while, so the builds would interleave
+		const slowResources = { ...resources, load: async (link: string) => {
+			await new Promise(resolve => setTimeout(resolve, 10));
+			return await resources.load(link);
+		} };
+		const builder = new DocumentModelBuilder(SETTINGS);
+		const [first, second] = await Promise.all([
+			builder.build('# One\n\n![[First]]', 'One', slowResources),
+			builder.build('# Two\n\n![[Second]]', 'Two', slowResources),
+		]);
+
+		const footnoteText = (footnotes: { paragraphs: Inline[][] }[]) => footnotes.map(footnote => footnote.paragraphs.map(getInlineText).join('\n'));
+		expect(first.properties.title).toBe('One');
+		expect(footnoteText(first.footnotes)).toEqual(['First note']);
+		expect(second.properties.title).toBe('Two');
+		expect(footnoteText(second.footnotes)).toEqual(['Second note']);
+		expect(findBlocks(second.blocks, 'heading')).toMatchObject([{ content: [{ text: 'Two' }] }]);
+	});
+});
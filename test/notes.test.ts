@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { extractFootnotes } from '../notes';
+
+describe('extractFootnotes', () => {
+	it('takes the definitions out of the note', () => {
+		const { content, definitions } = extractFootnotes('Text[^1]\n\n[^1]: The note\n  continued');
+		expect(content).toBe('Text[^1]\n');
+		expect(definitions).toEqual(new Map([['1', 'The note continued']]));
+	});
+
+	it('keeps definitions in fenced code blocks', () => {
+		const markdown = 'Text\n\n```markdown\nSee[^1]\n\n[^1]: Not a footnote\n```\n\n~~~\n[^2]: Nor this\n~~~';
+		const { content, definitions } = extractFootnotes(markdown);
+		expect(content).toBe(markdown);
+		expect(definitions.size).toBe(0);
+	});
+});
@@ -0,0 +1,29 @@
+// The parts of Obsidian's API the exporters use outside the plugin class,
+// enough to run them in tests.
+
+export function parseYaml(yaml: string): unknown {
+	const result: Record<string, string> = {};
+	for (const line of yaml.split('\n')) {
+		const match = line.match(/^([\w-]+):\s*(.*)$/);
+		if (match) {
+			result[match[1]] = match[2];
+		}
+	}
+	return result;
+}
+
+export function stringifyYaml(value: Record<string, unknown>): string {
+	return Object.entries(value).map(([key, item]) => `${key}: ${String(item)}\n`).join('');
+}
+
+export function htmlToMarkdown(html: string | HTMLElement): string {
+	return typeof html === 'string' ? html : html.textContent ?? '';
+}
+
+export function moment(): { format(format: string): string } {
+	return { format: () => '' };
+}
+
+export async function loadMermaid(): Promise<never> {
+	throw new Error('Mermaid is not available in tests');
+}
@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+	resolve: {
+		// Obsidian's API only exists inside the app
+		alias: { obsidian: fileURLToPath(new URL('./test/obsidian.ts', import.meta.url)) },
+	},
+	test: {
+		environment: 'happy-dom',
+		include: ['test/**/*.test.ts'],
+	},
+});
@@ -0,0 +1,83 @@
+import type MarkdownIt from 'markdown-it';
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline';
+
+export interface WikilinkParts {
+	target: string;
+	heading?: string;
+	blockId?: string;
+	alias?: string;
+}
+
+/**
+ * Splits the inside of [[...]] into its note, heading or block reference and alias.
+ * Nested heading paths ([[Note#Section#Subsection]]) resolve to the last heading.
+ */
+export function parseWikilink(raw: string): WikilinkParts {
+	const unescaped = raw.replace(/\\\|/g, '|');
+	const pipeIndex = unescaped.indexOf('|');
+	const link = pipeIndex === -1 ? unescaped : unescaped.slice(0, pipeIndex);
+	const alias = pipeIndex === -1 ? undefined : unescaped.slice(pipeIndex + 1).trim() || undefined;
+
+	const hashIndex = link.indexOf('#');
+	const target = (hashIndex === -1 ? link : link.slice(0, hashIndex)).trim();
+	const subpath = hashIndex === -1 ? '' : link.slice(hashIndex + 1).trim();
+
+	if (subpath.startsWith('^')) {
+		return { target, blockId: subpath.slice(1), alias };
+	}
+
+	const headings = subpath.split('#').map(part => part.trim()).filter(part => part.length > 0);
+	return { target, heading: headings[headings.length - 1], alias };
+}
+
+/**
+ * Whether ![[...]] embeds a note rather than an image or other file.
+ */
+export function isMarkdownEmbed(rawLink: string): boolean {
+	const { target } = parseWikilink(rawLink);
+	return /\.md$/i.test(target) || !/\.[a-z0-9]+$/i.test(target);
+}
+
+/**
+ * Normalises heading text the way links refer to it, so [[#My *Heading*]]
+ * and "## My Heading" resolve to the same anchor.
+ */
+export function normalizeHeadingKey(text: string): string {
+	return text
+		.replace(/[[\]#|^:%*_`~]/g, '')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.toLowerCase();
+}
+
+/**
+ * markdown-it plugin that turns [[target#heading|alias]] into wikilink tokens,
+ * and embeds within a line of text (![[image.png]]) into wikilink_embed tokens.
+ */
+export function markdownItWikilinks(md: MarkdownIt) {
+	md.inline.ruler.before('link', 'wikilink', (state: StateInline, silent: boolean) => {
+		const embed = state.src.startsWith('![[', state.pos);
+		const start = embed ? state.pos + 1 : state.pos;
+		if (!state.src.startsWith('[[', start)) {
+			return false;
+		}
+
+		const end = state.src.indexOf(']]', start + 2);
+		if (end === -1) {
+			return false;
+		}
+
+		const raw = state.src.slice(start + 2, end);
+		if (!raw.trim() || raw.includes('\n')) {
+			return false;
+		}
+
+		if (!silent) {
+			const token = state.push(embed ? 'wikilink_embed' : 'wikilink', '', 0);
+			token.content = raw;
+			token.meta = parseWikilink(raw);
+		}
+		state.pos = end + 2;
+		return true;
+	});
+}